@@ -1,6 +1,6 @@
-import type { ScraperSwitches } from "./scraperSwitches";
+import type { SourceKey } from "../sources/registry";
 
-export type SourceKey = keyof ScraperSwitches;
+export type { SourceKey };
 
 export interface RunSourceConfig {
   source: SourceKey;
@@ -14,6 +14,25 @@ export interface RunConfig {
   sources: RunSourceConfig[];
 }
 
+/**
+ * Fill-to-quota mode: failed or unusable articles are replaced by further listing
+ * items (then the source's backfill listings) until each source delivers its
+ * `count`, within a budget of count * FILL_MAX_ATTEMPTS_PER_ARTICLE detail fetches
+ */
+export const FILL_TO_QUOTA_ENABLED = process.env.FILL_TO_QUOTA_ENABLED !== "false";
+export const FILL_MAX_ATTEMPTS_PER_ARTICLE = parseInt(process.env.FILL_MAX_ATTEMPTS_PER_ARTICLE || "3", 10);
+
+/**
+ * Parallel scraping within a run: sources of different hosts run side by side
+ * (up to SCRAPE_SOURCE_CONCURRENCY hosts at once), sources of the same host one
+ * after another. Each source fetches up to SCRAPE_DETAIL_CONCURRENCY article
+ * pages at once and stops starting new ones after SCRAPE_SOURCE_TIMEOUT_MS.
+ * Per-host and global request limits live in the HTTP layer (src/http/config.ts).
+ */
+export const SCRAPE_SOURCE_CONCURRENCY = parseInt(process.env.SCRAPE_SOURCE_CONCURRENCY || "4", 10);
+export const SCRAPE_DETAIL_CONCURRENCY = parseInt(process.env.SCRAPE_DETAIL_CONCURRENCY || "2", 10);
+export const SCRAPE_SOURCE_TIMEOUT_MS = parseInt(process.env.SCRAPE_SOURCE_TIMEOUT_MS || "180000", 10);
+
 /**
  * Run activation switches
  * Set to true to enable a run, false to disable
@@ -0,0 +1,121 @@
+/**
+ * Article content-type classifier
+ *
+ * Tags scraped articles as standard, video, live blog, gallery, opinion or
+ * paywalled from their URL, the page's JSON-LD @types / access flag and
+ * simple body statistics, so sources can skip pages that aren't worth a
+ * rewrite (40-word video captions, live-blog fragments, photo captions).
+ */
+
+import type { SourceArticleDetails, SourceDefinition, SourceKey } from "../sources/registry";
+import {
+  CONTENT_MIN_STORY_WORDS,
+  CONTENT_TYPE_FILTER_ENABLED,
+  CONTENT_TYPE_SKIP_DEFAULT,
+  GALLERY_MIN_IMAGES,
+  LIVE_BLOG_MIN_UPDATES,
+} from "./config";
+import type { ContentClassification, ContentType } from "./types";
+
+// URL path segments, checked against the pathname only
+const VIDEO_URL_PATTERN = /\/(video|videos|watch)\//i;
+const LIVE_BLOG_URL_PATTERN = /\/(live|live-updates|live-news|live-blog)\//i;
+const GALLERY_URL_PATTERN = /\/(pictures|photos|gallery|galleries|slideshow)\//i;
+const OPINION_URL_PATTERN = /\/(opinion|opinions|commentary|op-ed)\//i;
+
+const VIDEO_JSON_LD_TYPES = ["VideoObject", "VideoGallery"];
+const LIVE_BLOG_JSON_LD_TYPES = ["LiveBlogPosting"];
+const GALLERY_JSON_LD_TYPES = ["ImageGallery", "MediaGallery"];
+const OPINION_JSON_LD_TYPES = ["OpinionNewsArticle"];
+
+// Teaser endings of metered / subscriber-only pages
+const PAYWALL_TEXT_PATTERN =
+  /(subscribe to (continue|keep) reading|to continue reading|this (article|story) is (only )?(available|reserved) (to|for) subscribers|already a subscriber\?)/i;
+
+// Live-blog update stamps at the start of a paragraph: "10:45 a.m. ET", "Updated 2:05 PM", "14:30"
+const UPDATE_STAMP_PATTERN = /^(updated\s+)?\d{1,2}:\d{2}\b/i;
+
+function pathnameOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function findType(types: string[], candidates: string[]): string | undefined {
+  return types.find((type) => candidates.includes(type));
+}
+
+/**
+ * Classifies a scraped article (first matching rule wins, in the order of ContentType's doc)
+ */
+export function classifyContent(details: SourceArticleDetails): ContentClassification {
+  const path = pathnameOf(details.url);
+  const types = details.structuredTypes ?? [];
+  const words = countWords(details.body ?? "");
+  const paragraphs = (details.body ?? "").split(/\n{2,}/).map((p) => p.trim()).filter(Boolean);
+  const shortBody = words < CONTENT_MIN_STORY_WORDS;
+
+  if (details.accessibleForFree === false) {
+    return { type: "paywalled", reason: "page marked as not accessible for free" };
+  }
+  if (shortBody && PAYWALL_TEXT_PATTERN.test(details.body ?? "")) {
+    return { type: "paywalled", reason: `${words}-word body ending in a subscribe prompt` };
+  }
+
+  if (VIDEO_URL_PATTERN.test(path)) {
+    return { type: "video", reason: `URL ${path.match(VIDEO_URL_PATTERN)![0]}` };
+  }
+  const videoType = findType(types, VIDEO_JSON_LD_TYPES);
+  if (videoType && shortBody) {
+    return { type: "video", reason: `JSON-LD ${videoType} with a ${words}-word body` };
+  }
+
+  const liveBlogType = findType(types, LIVE_BLOG_JSON_LD_TYPES);
+  if (liveBlogType) {
+    return { type: "liveBlog", reason: `JSON-LD ${liveBlogType}` };
+  }
+  if (LIVE_BLOG_URL_PATTERN.test(path)) {
+    return { type: "liveBlog", reason: `URL ${path.match(LIVE_BLOG_URL_PATTERN)![0]}` };
+  }
+  const updates = paragraphs.filter((paragraph) => UPDATE_STAMP_PATTERN.test(paragraph)).length;
+  if (updates >= LIVE_BLOG_MIN_UPDATES) {
+    return { type: "liveBlog", reason: `${updates} timestamped updates` };
+  }
+
+  if (GALLERY_URL_PATTERN.test(path)) {
+    return { type: "gallery", reason: `URL ${path.match(GALLERY_URL_PATTERN)![0]}` };
+  }
+  const galleryType = findType(types, GALLERY_JSON_LD_TYPES);
+  if (galleryType && shortBody) {
+    return { type: "gallery", reason: `JSON-LD ${galleryType} with a ${words}-word body` };
+  }
+  const images = (details.bodyBlocks ?? []).filter((block) => block.type === "image").length;
+  if (images >= GALLERY_MIN_IMAGES && words < images * 40) {
+    return { type: "gallery", reason: `${images} images for ${words} words` };
+  }
+
+  const opinionType = findType(types, OPINION_JSON_LD_TYPES);
+  if (opinionType) {
+    return { type: "opinion", reason: `JSON-LD ${opinionType}` };
+  }
+  if (OPINION_URL_PATTERN.test(path)) {
+    return { type: "opinion", reason: `URL ${path.match(OPINION_URL_PATTERN)![0]}` };
+  }
+
+  return { type: "standard", reason: "no special signals" };
+}
+
+/**
+ * Content types a source skips (its own rule, else CONTENT_TYPE_SKIP_DEFAULT);
+ * nothing is skipped while CONTENT_TYPE_FILTER_ENABLED is off
+ */
+export function getSkippedContentTypes(source: SourceDefinition<SourceKey>): ContentType[] {
+  if (!CONTENT_TYPE_FILTER_ENABLED) return [];
+  return source.skipContentTypes ?? CONTENT_TYPE_SKIP_DEFAULT;
+}
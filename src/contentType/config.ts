@@ -0,0 +1,50 @@
+/**
+ * Configuration for article content-type classification
+ */
+
+import { logger } from "../config/logger";
+import type { ContentType } from "./types";
+
+const CONTENT_TYPES: readonly ContentType[] = ["standard", "video", "liveBlog", "gallery", "opinion", "paywalled"];
+
+function parseContentTypeList(value: string | undefined): ContentType[] {
+  const types: ContentType[] = [];
+  for (const name of (value || "video,liveBlog,gallery,paywalled").split(",").map((type) => type.trim())) {
+    if (!name) continue;
+    const type = CONTENT_TYPES.find((candidate) => candidate === name);
+    if (type) {
+      types.push(type);
+    } else {
+      logger.warn(`⚠️  Unknown CONTENT_TYPE_SKIP entry "${name}" (expected ${CONTENT_TYPES.join(", ")}), ignoring it`);
+    }
+  }
+  return types;
+}
+
+/**
+ * Content-type filter switch - set CONTENT_TYPE_FILTER_ENABLED=false to tag
+ * articles without skipping any
+ */
+export const CONTENT_TYPE_FILTER_ENABLED = process.env.CONTENT_TYPE_FILTER_ENABLED !== "false";
+
+/**
+ * Content types skipped for sources without their own rule
+ * (comma-separated, default: "video,liveBlog,gallery,paywalled")
+ */
+export const CONTENT_TYPE_SKIP_DEFAULT = parseContentTypeList(process.env.CONTENT_TYPE_SKIP);
+
+/**
+ * Below this many words, a page with video / paywall signals is treated as
+ * video / paywalled rather than a story that merely embeds one (default: 150)
+ */
+export const CONTENT_MIN_STORY_WORDS = parseInt(process.env.CONTENT_MIN_STORY_WORDS || "150", 10);
+
+/**
+ * Timestamped paragraphs that make a body a live blog (default: 4)
+ */
+export const LIVE_BLOG_MIN_UPDATES = parseInt(process.env.LIVE_BLOG_MIN_UPDATES || "4", 10);
+
+/**
+ * Body images that make a page a gallery, when the text is mostly captions (default: 6)
+ */
+export const GALLERY_MIN_IMAGES = parseInt(process.env.GALLERY_MIN_IMAGES || "6", 10);
@@ -0,0 +1,9 @@
+/**
+ * Content Type - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { CONTENT_TYPE_FILTER_ENABLED, CONTENT_TYPE_SKIP_DEFAULT } from "./config";
+export type { ContentType, ContentClassification } from "./types";
+export { classifyContent, getSkippedContentTypes } from "./classifier";
@@ -0,0 +1,19 @@
+/**
+ * Type definitions for article content-type classification
+ */
+
+/**
+ * What kind of page an article URL turned out to be
+ * - standard: regular written story
+ * - video: video page (the body is a caption or transcript stub)
+ * - liveBlog: rolling live coverage (many short timestamped updates)
+ * - gallery: photo gallery (images with short captions)
+ * - opinion: opinion / commentary piece
+ * - paywalled: body is cut off behind a paywall
+ */
+export type ContentType = "standard" | "video" | "liveBlog" | "gallery" | "opinion" | "paywalled";
+
+export interface ContentClassification {
+  type: ContentType;
+  reason: string; // Signal that decided the type (e.g. "URL /video/", "JSON-LD LiveBlogPosting")
+}
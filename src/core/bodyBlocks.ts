@@ -0,0 +1,192 @@
+/**
+ * Structured article body model
+ *
+ * Detail scrapers produce a typed block tree (paragraphs, subheads, lists,
+ * quotes, images, with link spans) next to the flat `body` text. Blocks are
+ * cleaned, sent to ChatGPT as lightweight markdown so the rewrite keeps the
+ * structure, and parsed back into blocks for Portable Text.
+ */
+
+/**
+ * A run of inline text, optionally linked
+ */
+export interface BodySpan {
+  text: string;
+  href?: string;
+}
+
+export type BodyBlock =
+  | { type: "paragraph"; spans: BodySpan[] }
+  | { type: "heading"; level: 2 | 3 | 4; spans: BodySpan[] }
+  | { type: "list"; ordered: boolean; items: BodySpan[][] }
+  | { type: "quote"; spans: BodySpan[] }
+  | { type: "image"; url: string; alt?: string; caption?: string };
+
+/**
+ * Plain text of a span list
+ */
+export function spansToText(spans: BodySpan[]): string {
+  return spans.map((span) => span.text).join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Plain text of a block (list items one per line, images by caption)
+ */
+export function blockToText(block: BodyBlock): string {
+  switch (block.type) {
+    case "list":
+      return block.items.map(spansToText).filter(Boolean).join("\n");
+    case "image":
+      return block.caption ?? "";
+    default:
+      return spansToText(block.spans);
+  }
+}
+
+/**
+ * Flattens blocks into the legacy "\n\n"-joined body text (images skipped)
+ */
+export function bodyBlocksToText(blocks: BodyBlock[]): string {
+  return blocks
+    .filter((block) => block.type !== "image")
+    .map(blockToText)
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function spansToMarkdown(spans: BodySpan[]): string {
+  return spans
+    .map((span) => (span.href && span.text.trim() ? `[${span.text.trim()}](${span.href})` : span.text))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Serializes blocks as lightweight markdown:
+ * "## " / "### " / "#### " subheads, "- " / "1. " list items, "> " quotes,
+ * [text](url) links and ![alt](url) images, blocks separated by blank lines
+ */
+export function bodyBlocksToMarkdown(
+  blocks: BodyBlock[],
+  options: { includeImages?: boolean } = {}
+): string {
+  const { includeImages = true } = options;
+
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return spansToMarkdown(block.spans);
+        case "heading":
+          return `${"#".repeat(block.level)} ${spansToMarkdown(block.spans)}`;
+        case "list":
+          return block.items
+            .map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${spansToMarkdown(item)}`)
+            .join("\n");
+        case "quote":
+          return `> ${spansToMarkdown(block.spans)}`;
+        case "image":
+          if (!includeImages) return "";
+          return `![${block.alt ?? block.caption ?? ""}](${block.url})`;
+      }
+    })
+    .filter((chunk) => chunk.replace(/^(#+|>|-|\d+\.)\s*/, "").trim().length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Parses inline [text](url) links into spans
+ */
+export function parseInlineMarkdown(text: string): BodySpan[] {
+  const spans: BodySpan[] = [];
+  const linkPattern = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = linkPattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      spans.push({ text: text.slice(lastIndex, match.index) });
+    }
+    spans.push({ text: match[1], href: match[2] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    spans.push({ text: text.slice(lastIndex) });
+  }
+
+  return spans.filter((span) => span.text.length > 0);
+}
+
+/**
+ * Parses body text back into blocks. Understands the markdown produced by
+ * bodyBlocksToMarkdown; text without markers becomes plain paragraphs, so
+ * legacy "\n\n"-joined bodies map to one paragraph per chunk as before.
+ */
+export function parseBodyMarkdown(text: string): BodyBlock[] {
+  if (!text || !text.trim()) return [];
+
+  const blocks: BodyBlock[] = [];
+
+  for (const chunk of text.replace(/\r\n/g, "\n").split(/\n\s*\n/)) {
+    const lines = chunk.split("\n").map((line) => line.trim()).filter(Boolean);
+    if (lines.length === 0) continue;
+
+    let paragraphLines: string[] = [];
+    let list: Extract<BodyBlock, { type: "list" }> | null = null;
+
+    const flushParagraph = (): void => {
+      if (paragraphLines.length) {
+        blocks.push({ type: "paragraph", spans: parseInlineMarkdown(paragraphLines.join(" ")) });
+        paragraphLines = [];
+      }
+    };
+    const flushList = (): void => {
+      if (list) {
+        blocks.push(list);
+        list = null;
+      }
+    };
+
+    for (const line of lines) {
+      const heading = line.match(/^(#{2,4})\s+(.+)$/);
+      const image = line.match(/^!\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)$/);
+      const quote = line.match(/^>\s?(.+)$/);
+      const bullet = line.match(/^[-*•]\s+(.+)$/);
+      const numbered = line.match(/^\d+[.)]\s+(.+)$/);
+
+      if (bullet || numbered) {
+        flushParagraph();
+        const ordered = Boolean(numbered);
+        if (list && list.ordered !== ordered) flushList();
+        if (!list) list = { type: "list", ordered, items: [] };
+        list.items.push(parseInlineMarkdown((bullet ?? numbered)![1]));
+        continue;
+      }
+
+      flushList();
+      if (heading) {
+        flushParagraph();
+        blocks.push({
+          type: "heading",
+          level: heading[1].length as 2 | 3 | 4,
+          spans: parseInlineMarkdown(heading[2]),
+        });
+      } else if (image) {
+        flushParagraph();
+        blocks.push({ type: "image", url: image[2], alt: image[1] || undefined });
+      } else if (quote) {
+        flushParagraph();
+        blocks.push({ type: "quote", spans: parseInlineMarkdown(quote[1]) });
+      } else {
+        // Lines within a chunk are joined with spaces, as before
+        paragraphLines.push(line);
+      }
+    }
+
+    flushList();
+    flushParagraph();
+  }
+
+  return blocks;
+}
@@ -0,0 +1,52 @@
+/**
+ * Article URL canonicalization
+ *
+ * The same story reaches us under different URLs: tracking parameters, AMP
+ * variants, fragments, trailing slashes, www / non-www hosts. canonicalizeUrl
+ * gives the form we store as `canonicalUrl`; urlIdentityKey additionally folds
+ * scheme and "www." so it can be used as a dedup key.
+ */
+
+// Query parameters that never change the article
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ocid|cmpid|cid|ref|ref_src|taid|guccounter|guce_\w+|soc_src|soc_trk|ftag|intcid|__twitter_impression|outputType|amp)$/i;
+
+/**
+ * Canonical form of an article URL: no fragment, no tracking/AMP parameters,
+ * no AMP path segment, lower-case host, no trailing slash, sorted query
+ *
+ * @param url - Absolute URL, or relative to baseUrl
+ * @param baseUrl - Used to resolve relative URLs (e.g. a relative rel=canonical)
+ * @returns The canonical URL, or null if it can't be parsed
+ */
+export function canonicalizeUrl(url: string, baseUrl?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = baseUrl ? new URL(url.trim(), baseUrl) : new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(parsed.protocol)) return null;
+
+  parsed.hash = "";
+  parsed.hostname = parsed.hostname.toLowerCase();
+  for (const param of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(param)) parsed.searchParams.delete(param);
+  }
+  parsed.searchParams.sort();
+
+  // AMP variants: /amp/news/... and /news/.../amp
+  const pathname = parsed.pathname.replace(/^\/amp(?=\/)/, "").replace(/\/amp\/?$/, "");
+  const trimmedPath = pathname.length > 1 ? pathname.replace(/\/+$/, "") : pathname;
+
+  return `${parsed.protocol}//${parsed.host}${trimmedPath}${parsed.search}`;
+}
+
+/**
+ * Dedup key for an article URL: canonical form on https without "www."
+ */
+export function urlIdentityKey(url: string): string {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) return url.trim();
+  return canonical.replace(/^http:/, "https:").replace(/^https:\/\/www\./, "https://");
+}
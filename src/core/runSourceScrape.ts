@@ -0,0 +1,382 @@
+import * as path from "path";
+import { logger } from "../config/logger";
+import { FILL_MAX_ATTEMPTS_PER_ARTICLE } from "../config/scrapingControl";
+import {
+  HTTP_CACHE_DETAIL_TTL_MS,
+  HTTP_CACHE_LISTING_TTL_MS,
+  RobotsDisallowedError,
+  runWithAbortSignal,
+  runWithCachePolicy,
+} from "../http";
+import { LEDGER_BACKFILL_LOOKAHEAD, recordLedgerStatus } from "../ledger";
+import { recordExtraction } from "../drift";
+import { describeRejections, type EligibilityRejection } from "../eligibility";
+import { classifyContent, getSkippedContentTypes, type ContentType } from "../contentType";
+import {
+  detectArticleLanguage,
+  getLanguagePolicy,
+  LANGUAGE_DETECTION_ENABLED,
+  resolveLanguageAction,
+  SITE_LANGUAGE,
+  UNDETERMINED_LANGUAGE,
+} from "../language";
+import { resolveSyndication } from "../sources/engine/syndication";
+import { createExtractionTrace, runWithExtractionTrace } from "../sources/engine/trace";
+import {
+  getSourceDefinition,
+  type SourceArticleDetails,
+  type SourceArticleItem,
+  type SourceDefinition,
+  type SourceKey,
+} from "../sources/registry";
+import { cleanupOldJsonFiles, saveScrapedData } from "../utils/scraperUtils";
+import { urlIdentityKey } from "./canonicalUrl";
+import type { ScrapedSourceArticle, ScrapedSourceResult } from "./types";
+
+export interface RunSourceScrapeOptions {
+  // Run that triggered the scrape (recorded in the ledger)
+  runId?: string;
+  // Listing items to skip (already published, or already taken in this run);
+  // the next items on the listing are scraped instead
+  skipUrl?: (url: string) => boolean;
+  // Keep scraping further listing items, then the source's backfill listings,
+  // until `limit` articles succeed or the attempt budget is spent
+  fillToQuota?: boolean;
+  // Rules an otherwise successful article fails (default: empty body); kept on its failure record
+  checkEligibility?: (details: SourceArticleDetails) => EligibilityRejection[];
+  // Article pages fetched at once (default 1; per-host limits still apply)
+  detailConcurrency?: number;
+  // Aborted when the source runs out of time: no new article is started and
+  // the article fetches in flight are aborted
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown for an article that scraped fine but can't be used
+ */
+class IneligibleArticleError extends Error {
+  constructor(public readonly rejections: EligibilityRejection[]) {
+    super(`Ineligible: ${describeRejections(rejections)}`);
+    this.name = "IneligibleArticleError";
+  }
+}
+
+function defaultEligibility(details: SourceArticleDetails): EligibilityRejection[] {
+  return details.body?.trim() ? [] : [{ rule: "requiredFields", reason: "missing body" }];
+}
+
+/**
+ * Listings to draw candidates from: the source's own, then (in fill mode) its backfill sources
+ */
+function resolveListings(source: SourceDefinition<SourceKey>, fillToQuota: boolean): SourceDefinition<SourceKey>[] {
+  if (!fillToQuota || !source.backfillFrom) return [source];
+
+  const backfill = source.backfillFrom
+    .map((key) => {
+      const definition = getSourceDefinition(key);
+      if (!definition) logger.warn(`⚠️  Unknown backfill source "${key}" for ${source.key}`);
+      return definition;
+    })
+    .filter((definition): definition is SourceDefinition<SourceKey> => Boolean(definition));
+  return [source, ...backfill];
+}
+
+/**
+ * Scrapes one source end to end: listing, article details, then saves the
+ * result under results/<resultFolder>/ (keeping only the previous file).
+ *
+ * Without fill mode, the first `limit` listing items that aren't skipped are
+ * scraped and failures are just counted. In fill mode, failed or ineligible
+ * items are replaced by the next candidates (own listing first, then the
+ * backfill listings) until `limit` articles succeed, within a budget of
+ * `limit * FILL_MAX_ATTEMPTS_PER_ARTICLE` detail fetches.
+ *
+ * Up to `detailConcurrency` article pages are fetched at once; articles are
+ * saved in listing order regardless of which fetch finished first. Once
+ * `signal` is aborted (source timeout) no new article is started, the fetches
+ * in flight are aborted and the articles scraped so far are saved.
+ *
+ * @param source - The source definition from the registry
+ * @param limit - Number of articles wanted
+ * @param options - Run context, skip rule, fill mode and concurrency
+ * @returns The saved result
+ */
+export async function runSourceScrape<T extends SourceArticleDetails>(
+  source: SourceDefinition<SourceKey, T>,
+  limit: number = 5,
+  options: RunSourceScrapeOptions = {}
+): Promise<ScrapedSourceResult<T>> {
+  const fillToQuota = options.fillToQuota ?? false;
+  const checkEligibility = options.checkEligibility ?? defaultEligibility;
+  const maxAttempts = fillToQuota ? limit * FILL_MAX_ATTEMPTS_PER_ARTICLE : limit;
+  const detailConcurrency = Math.max(1, options.detailConcurrency ?? 1);
+  const detailCache = { ttlMs: source.cacheTtl?.detailMs ?? HTTP_CACHE_DETAIL_TTL_MS };
+  // Backfill items are scraped with this source's scrapeDetails, so its rule applies to them too
+  const skippedContentTypes = getSkippedContentTypes(source);
+  const languagePolicy = getLanguagePolicy(source);
+
+  // Ask for extra items so skipped / failed ones can be replaced from the same listing
+  const listingLimit = maxAttempts + (options.skipUrl ? LEDGER_BACKFILL_LOOKAHEAD : 0);
+
+  // Article records by attempt index, so the saved order follows the listings
+  const results: ScrapedSourceArticle<T>[] = [];
+  const attemptedItems: SourceArticleItem[] = [];
+  const skippedItems: SourceArticleItem[] = [];
+  const seenUrls = new Set<string>();
+  const listingsUsed: string[] = [];
+  let successCount = 0;
+  let failureCount = 0;
+  let blockedCount = 0;
+  let ineligibleCount = 0;
+  let inFlight = 0;
+  const contentTypes: Partial<Record<ContentType, number>> = {};
+
+  // In-flight fetches count towards the quota: a replacement is only started once one fails
+  const quotaReached = (): boolean =>
+    successCount + inFlight >= limit || attemptedItems.length >= maxAttempts;
+
+  const listings = resolveListings(source, fillToQuota);
+  const queue: SourceArticleItem[] = [];
+  let nextListing = 0;
+  let loadingListing: Promise<void> | null = null;
+
+  const loadListing = async (listingSource: SourceDefinition<SourceKey>): Promise<void> => {
+    const listingCache = { ttlMs: listingSource.cacheTtl?.listingMs ?? HTTP_CACHE_LISTING_TTL_MS };
+    const trace = createExtractionTrace();
+    try {
+      const items = await runWithExtractionTrace(trace, () =>
+        runWithCachePolicy(listingCache, () => listingSource.scrapeListing(listingLimit))
+      );
+      recordExtraction(listingSource.key, "listing", trace);
+      queue.push(...items);
+      listingsUsed.push(listingSource.key);
+    } catch (error) {
+      if (trace.page) {
+        recordExtraction(listingSource.key, "listing", trace, error instanceof Error ? error.message : String(error));
+      }
+      // The source's own listing failing fails the source; a backfill listing is best effort
+      if (listingSource === source) throw error;
+      logger.warn(`⚠️  Backfill listing ${listingSource.displayName} failed for ${source.displayName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  /**
+   * Next listing item to scrape (loading the next listing when the queue runs dry),
+   * or undefined when the quota, the budget or the listings are exhausted.
+   * The item's in-flight slot is reserved in the same synchronous step as the
+   * quota check, so concurrent workers can't overshoot `limit`.
+   */
+  const takeCandidate = async (): Promise<{ item: SourceArticleItem; index: number } | undefined> => {
+    while (!options.signal?.aborted && !quotaReached()) {
+      const item = queue.shift();
+      if (!item) {
+        if (!loadingListing) {
+          if (nextListing >= listings.length) return undefined;
+          loadingListing = loadListing(listings[nextListing++]).finally(() => {
+            loadingListing = null;
+          });
+        }
+        await loadingListing;
+        continue;
+      }
+
+      const identity = urlIdentityKey(item.url);
+      if (seenUrls.has(identity)) continue;
+      seenUrls.add(identity);
+
+      if (options.skipUrl?.(item.url)) {
+        skippedItems.push(item);
+        continue;
+      }
+
+      attemptedItems.push(item);
+      inFlight++;
+      return { item, index: attemptedItems.length - 1 };
+    }
+    return undefined;
+  };
+
+  const scrapeCandidate = async (item: SourceArticleItem, index: number): Promise<void> => {
+    const trace = createExtractionTrace();
+    try {
+      const details = await runWithExtractionTrace(trace, () =>
+        runWithAbortSignal(options.signal, () =>
+          runWithCachePolicy(detailCache, () => source.scrapeDetails(item.url))
+        )
+      );
+      recordExtraction(source.key, "detail", trace);
+      const { canonicalUrl, originalPublisher } = resolveSyndication(details);
+
+      // Syndicated copy of a story that was already published (or taken earlier in this run)
+      if (canonicalUrl !== item.url && options.skipUrl?.(canonicalUrl)) {
+        logger.info(`⏭️  ${source.displayName}: skipping ${item.url}, canonical ${canonicalUrl} already seen`);
+        skippedItems.push(item);
+        return;
+      }
+
+      // Video pages, live blogs, galleries... aren't worth a rewrite for most sources
+      const content = classifyContent(details);
+      contentTypes[content.type] = (contentTypes[content.type] ?? 0) + 1;
+      if (skippedContentTypes.includes(content.type)) {
+        throw new IneligibleArticleError([{ rule: "contentType", reason: `${content.type} content (${content.reason})` }]);
+      }
+
+      const detection = LANGUAGE_DETECTION_ENABLED ? detectArticleLanguage(details) : undefined;
+      const language =
+        detection && detection.language !== UNDETERMINED_LANGUAGE ? detection.language : details.language;
+      const languageAction = resolveLanguageAction(language, languagePolicy);
+      if (languageAction.action === "skip") {
+        throw new IneligibleArticleError([{ rule: "language", reason: `${language} content (site language ${SITE_LANGUAGE})` }]);
+      }
+      const rewriteLanguage = languageAction.action === "rewrite" ? languageAction.rewriteLanguage : undefined;
+
+      // The eligibility rules see the detected language, and leave articles the policy kept to it
+      const candidate = { ...details, language, rewriteLanguage };
+      const rejections = checkEligibility(candidate);
+      if (rejections.length > 0) {
+        throw new IneligibleArticleError(rejections);
+      }
+
+      results[index] = {
+        ...details,
+        canonicalUrl,
+        originalPublisher,
+        // Article page dates win; feed/sitemap listings provide a fallback
+        publishedAt: details.publishedAt ?? item.publishedAt,
+        articleItem: item,
+        scrapedAt: new Date().toISOString(),
+        success: true,
+        category: source.category,
+        contentType: content.type,
+        language,
+        declaredLanguage: details.language,
+        languageMixed: detection?.mixed || undefined,
+        rewriteLanguage,
+      };
+
+      recordLedgerStatus(canonicalUrl, "scraped", {
+        source: source.key,
+        title: details.title,
+        runId: options.runId,
+        aliases: [item.url, details.url],
+      });
+      successCount++;
+    } catch (error) {
+      const aborted = Boolean(options.signal?.aborted) && !trace.page;
+      const rejections = error instanceof IneligibleArticleError ? error.rejections : undefined;
+      const errorMessage = aborted
+        ? "Aborted: source timed out"
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+      // Only extraction errors (the page was fetched) say anything about the selectors
+      if (trace.page && !(error instanceof IneligibleArticleError)) {
+        recordExtraction(source.key, "detail", trace, errorMessage);
+      }
+
+      // robots.txt refusals are policy, not failures (already logged by the fetcher)
+      if (error instanceof RobotsDisallowedError) {
+        blockedCount++;
+      } else {
+        if (error instanceof IneligibleArticleError) {
+          logger.warn(`${source.displayName} article #${index + 1} is not usable: ${errorMessage}`, { url: item.url });
+          ineligibleCount++;
+        } else {
+          logger.error(
+            `Failed to scrape ${source.displayName} article details for item #${index + 1}`,
+            error instanceof Error
+              ? { message: error.message, stack: error.stack }
+              : error
+          );
+          failureCount++;
+        }
+        recordLedgerStatus(item.url, "failed", {
+          source: source.key,
+          title: item.title,
+          runId: options.runId,
+          stage: rejections ? "eligibility" : "scrape",
+          error: errorMessage,
+        });
+      }
+
+      // Failure records only carry the base detail fields
+      results[index] = {
+        url: item.url,
+        title: item.title || "Unknown",
+        excerpt: "",
+        body: "",
+        publishedAt: item.publishedAt,
+        articleItem: item,
+        scrapedAt: new Date().toISOString(),
+        success: false,
+        error: errorMessage,
+        rejections,
+        category: source.category,
+      } as ScrapedSourceArticle<T>;
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    let candidate = await takeCandidate();
+    while (candidate) {
+      // takeCandidate reserved the in-flight slot
+      try {
+        await scrapeCandidate(candidate.item, candidate.index);
+      } finally {
+        inFlight--;
+      }
+      candidate = await takeCandidate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: detailConcurrency }, () => worker()));
+
+  // Skipped syndicated copies leave holes
+  const articles = results.filter(Boolean);
+  const timedOut = Boolean(options.signal?.aborted);
+  if (timedOut) {
+    logger.warn(`⏱️  ${source.displayName}: timed out, saving ${successCount} article(s) scraped so far`);
+  }
+
+  if (skippedItems.length > 0) {
+    logger.info(`⏭️  ${source.displayName}: skipped ${skippedItems.length} already seen item(s)`);
+  }
+  if (fillToQuota && successCount < limit && !timedOut) {
+    logger.warn(
+      `⚠️  ${source.displayName}: filled ${successCount}/${limit} after ${attemptedItems.length} attempt(s) (budget ${maxAttempts}, listings: ${listingsUsed.join(", ")})`
+    );
+  }
+
+  const outputDir = path.join(process.cwd(), "results", source.resultFolder);
+
+  const scrapedData: ScrapedSourceResult<T> = {
+    metadata: {
+      savedAt: new Date().toISOString(),
+      source: source.key,
+      totalHomepageItems: attemptedItems.length,
+      totalArticlesScraped: successCount,
+      totalArticlesFailed: failureCount,
+      totalArticlesBlocked: blockedCount,
+      totalArticlesIneligible: ineligibleCount,
+      contentTypes,
+      totalItemsSkipped: skippedItems.length,
+      listingsUsed,
+      timedOut,
+    },
+    homepageItems: attemptedItems.map((item) => ({
+      ...item,
+      category: source.category,
+    })),
+    articles,
+  };
+
+  cleanupOldJsonFiles(outputDir, `${source.filePrefix}-`);
+  saveScrapedData(scrapedData, outputDir, source.filePrefix);
+
+  logger.info(`✅ ${source.displayName} finished with ${successCount} articles scraped correctly`);
+
+  return scrapedData;
+}
@@ -1,175 +1,117 @@
 import { logger } from "../config/logger";
 import { isScraperEnabled } from "../config/scraperSwitches";
-import { SCRAPING_RUNS, type RunConfig, type SourceKey, isRunEnabled } from "../config/scrapingControl";
 import {
-  getLatestArticlesFromSource,
-  saveCollectedArticles,
-} from "../utils/scraperUtils";
+  FILL_TO_QUOTA_ENABLED,
+  SCRAPE_DETAIL_CONCURRENCY,
+  SCRAPE_SOURCE_CONCURRENCY,
+  SCRAPE_SOURCE_TIMEOUT_MS,
+  SCRAPING_RUNS,
+  type RunConfig,
+  type SourceKey,
+  isRunEnabled,
+} from "../config/scrapingControl";
+import { saveCollectedArticles } from "../utils/scraperUtils";
 import { processCollectedArticlesFromRun } from "../middleware/chatgptMiddleware";
 import { sendProcessedArticlesToSanity } from "../gunner";
-
-// AP News scrapers
-import { scrapeAPNews } from "../scrapers/apnews/us";
-import { scrapeAPNewsWorld } from "../scrapers/apnews/world";
-import { scrapeAPNewsPolitics } from "../scrapers/apnews/politics";
-import { scrapeAPNewsBusiness } from "../scrapers/apnews/business";
-import { scrapeAPNewsScience } from "../scrapers/apnews/science";
-import { scrapeAPNewsTechnology } from "../scrapers/apnews/technology";
-import { scrapeAPNewsLifestyle } from "../scrapers/apnews/lifestyle";
-import { scrapeAPNewsEntertainment } from "../scrapers/apnews/entertainment";
-
-// Yahoo News scrapers
-import { scrapeYahooNewsUS } from "../scrapers/yahoo/us";
-import { scrapeYahooNewsWorld } from "../scrapers/yahoo/world";
-import { scrapeYahooNewsPolitics } from "../scrapers/yahoo/politics";
-import { scrapeYahooNewsFinance } from "../scrapers/yahoo/finance";
-import { scrapeYahooNewsEntertainment } from "../scrapers/yahoo/entertainment";
-import { scrapeYahooNewsLifestyle } from "../scrapers/yahoo/lifestyle";
-import { scrapeYahooNewsScience } from "../scrapers/yahoo/science";
-
-// CBS News scrapers
-import { scrapeCBSUS } from "../scrapers/cbs/us";
-import { scrapeCBSWorld } from "../scrapers/cbs/world";
-import { scrapeCBSPolitics } from "../scrapers/cbs/politics";
-
-// TechCrunch scraper
-import { scrapeTechCrunch } from "../scrapers/techcrunch/index";
-
-// ABC News scrapers
-import { scrapeABCNewsUS } from "../scrapers/abcnews/us";
-import { scrapeABCNewsInternational } from "../scrapers/abcnews/world";
-import { scrapeABCNewsBusiness } from "../scrapers/abcnews/business";
-import { scrapeABCNewsTechnology } from "../scrapers/abcnews/technology";
-
-/**
- * Formats source name for display (removes common suffixes for cleaner output)
- */
-function formatSourceName(source: SourceKey): string {
-  // Map source keys to cleaner display names
-  const nameMap: Record<string, string> = {
-    apNewsUS: "apNews",
-    apNewsWorld: "apNewsWorld",
-    apNewsPolitics: "apNewsPolitics",
-    apNewsBusiness: "apNewsBusiness",
-    apNewsScience: "apNewsScience",
-    apNewsTechnology: "apNewsTechnology",
-    apNewsLifestyle: "apNewsLifestyle",
-    apNewsEntertainment: "apNewsEntertainment",
-    yahooUSNews: "yahooUSNews",
-    yahooWorldNews: "yahooWorldNews",
-    yahooPoliticsNews: "yahooPoliticsNews",
-    yahooFinanceNews: "yahooFinanceNews",
-    yahooEntertainmentNews: "yahooEntertainmentNews",
-    yahooLifestyleNews: "yahooLifestyleNews",
-    yahooScienceNews: "yahooScienceNews",
-    cbsUS: "cbsUS",
-    cbsWorld: "cbsWorld",
-    cbsPolitics: "cbsPolitics",
-    techCrunch: "techCrunch",
-    abcNewsUS: "abcNewsUS",
-    abcNewsInternational: "abcNewsInternational",
-    abcNewsBusiness: "abcNewsBusiness",
-    abcNewsTechnology: "abcNewsTechnology",
-  };
-  return nameMap[source] || source;
-}
+import { getSourceDefinition, isBackfillOnlySource, SOURCE_REGISTRY, type SourceDefinition } from "../sources/registry";
+import type { ScrapedSourceResult } from "./types";
+import type { CollectedArticlesFile, ScrapedArticle } from "../pipeline";
+import { closeRenderer, getRobotsBlockedUrls, resetRobotsBlockedUrls, RobotsDisallowedError } from "../http";
+import {
+  getRecentLedgerEntries,
+  isAlreadyPublished,
+  loadLedger,
+  normalizeLedgerUrl,
+  recordLedgerStatus,
+  setLedgerFingerprint,
+} from "../ledger";
+import {
+  clusterArticles,
+  fingerprintArticle,
+  SIMILARITY_ENABLED,
+  SIMILARITY_WINDOW_HOURS,
+  type PriorFingerprint,
+} from "../similarity";
+import {
+  classifySourceRun,
+  getSourceHealthReport,
+  isSourceCircuitOpen,
+  loadSourceHealth,
+  recordSourceRun,
+} from "../health";
+import { getDriftAlerts, loadSelectorDrift } from "../drift";
+import {
+  applyEligibility,
+  checkArticleEligibility,
+  describeRejections,
+  ELIGIBILITY_ENABLED,
+  getEligibilityRules,
+} from "../eligibility";
+import { runSourceScrape, type RunSourceScrapeOptions } from "./runSourceScrape";
 
 /**
- * Dispatches scraping requests to the appropriate scraper function
- * @param source - The source key from ScraperSwitches
+ * Dispatches scraping requests to the generic per-source pipeline step
+ * @param source - The source key from the source registry
  * @param count - Number of articles to scrape
+ * @param options - Run context and skip rule (see runSourceScrape)
  */
-async function scrapeSource(source: SourceKey, count: number): Promise<void> {
+async function scrapeSource(
+  source: SourceKey,
+  count: number,
+  options: RunSourceScrapeOptions = {}
+): Promise<ScrapedSourceResult | undefined> {
   // Check if scraper is enabled
   if (!isScraperEnabled(source)) {
-    return; // Silently skip disabled scrapers
+    return undefined; // Silently skip disabled scrapers
+  }
+
+  const definition = getSourceDefinition(source);
+  if (!definition) {
+    logger.warn(`⚠️  No scraper registered for source: ${source}`);
+    return undefined;
   }
 
+  // Articles the eligibility rules would reject later count as unusable, so fill mode replaces them
+  const rules = getEligibilityRules(source);
+  const checkEligibility: RunSourceScrapeOptions["checkEligibility"] = ELIGIBILITY_ENABLED
+    ? (details) => checkArticleEligibility({ ...details, origin: source }, rules)
+    : undefined;
+
+  const startedAt = Date.now();
   try {
-    switch (source) {
-      // AP News sources
-      case "apNewsUS":
-        await scrapeAPNews(count);
-        break;
-      case "apNewsWorld":
-        await scrapeAPNewsWorld(count);
-        break;
-      case "apNewsPolitics":
-        await scrapeAPNewsPolitics(count);
-        break;
-      case "apNewsBusiness":
-        await scrapeAPNewsBusiness(count);
-        break;
-      case "apNewsScience":
-        await scrapeAPNewsScience(count);
-        break;
-      case "apNewsTechnology":
-        await scrapeAPNewsTechnology(count);
-        break;
-      case "apNewsLifestyle":
-        await scrapeAPNewsLifestyle(count);
-        break;
-      case "apNewsEntertainment":
-        await scrapeAPNewsEntertainment(count);
-        break;
-
-      // Yahoo News sources
-      case "yahooUSNews":
-        await scrapeYahooNewsUS(count);
-        break;
-      case "yahooWorldNews":
-        await scrapeYahooNewsWorld(count);
-        break;
-      case "yahooPoliticsNews":
-        await scrapeYahooNewsPolitics(count);
-        break;
-      case "yahooFinanceNews":
-        await scrapeYahooNewsFinance(count);
-        break;
-      case "yahooEntertainmentNews":
-        await scrapeYahooNewsEntertainment(count);
-        break;
-      case "yahooLifestyleNews":
-        await scrapeYahooNewsLifestyle(count);
-        break;
-      case "yahooScienceNews":
-        await scrapeYahooNewsScience(count);
-        break;
-
-      // CBS News sources
-      case "cbsUS":
-        await scrapeCBSUS(count);
-        break;
-      case "cbsWorld":
-        await scrapeCBSWorld(count);
-        break;
-      case "cbsPolitics":
-        await scrapeCBSPolitics(count);
-        break;
-
-      // TechCrunch
-      case "techCrunch":
-        await scrapeTechCrunch(count);
-        break;
-
-      // ABC News sources
-      case "abcNewsUS":
-        await scrapeABCNewsUS(count);
-        break;
-      case "abcNewsInternational":
-        await scrapeABCNewsInternational(count);
-        break;
-      case "abcNewsBusiness":
-        await scrapeABCNewsBusiness(count);
-        break;
-      case "abcNewsTechnology":
-        await scrapeABCNewsTechnology(count);
-        break;
-
-      default:
-        logger.warn(`⚠️  No scraper implemented for source: ${source}`);
-    }
+    const result = await runSourceScrape(definition, count, { checkEligibility, ...options });
+    const { metadata } = result;
+    // Ineligible articles (video, other language, too short...) were filtered on
+    // purpose: they say nothing about the source's health
+    recordSourceRun(source, {
+      runId: options.runId,
+      outcome: classifySourceRun(
+        metadata.totalHomepageItems + metadata.totalItemsSkipped,
+        metadata.totalArticlesScraped,
+        metadata.totalArticlesFailed
+      ),
+      itemsFound: metadata.totalHomepageItems + metadata.totalItemsSkipped,
+      articlesScraped: metadata.totalArticlesScraped,
+      articlesFailed: metadata.totalArticlesFailed,
+      durationMs: Date.now() - startedAt,
+      error: result.articles.find((article) => article.error)?.error,
+    });
+    return result;
   } catch (error) {
+    // A listing page disallowed by robots.txt skips the source instead of failing the run
+    if (error instanceof RobotsDisallowedError) {
+      logger.warn(`⚠️  Skipping ${source}: listing page is disallowed by robots.txt`);
+      return undefined;
+    }
+    recordSourceRun(source, {
+      runId: options.runId,
+      outcome: "failed",
+      itemsFound: 0,
+      articlesScraped: 0,
+      articlesFailed: 0,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
     logger.error(`❌ Error scraping ${source}:`, {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
@@ -178,6 +120,124 @@ async function scrapeSource(source: SourceKey, count: number): Promise<void> {
   }
 }
 
+/**
+ * Runs `task` over every item with at most `limit` tasks in flight
+ * @returns The results in input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, () => worker()));
+  return results;
+}
+
+/**
+ * Scrapes a source with SCRAPE_SOURCE_TIMEOUT_MS to scrape its articles
+ * (in-flight fetches are aborted, and what was scraped is saved)
+ */
+async function scrapeSourceWithTimeout(
+  source: SourceKey,
+  count: number,
+  options: RunSourceScrapeOptions
+): Promise<ScrapedSourceResult | undefined> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SCRAPE_SOURCE_TIMEOUT_MS);
+  try {
+    return await scrapeSource(source, count, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Drops articles that fail the eligibility rules (scrape failures, stubs,
+ * banned topics, stale stories...) before clustering and ChatGPT
+ *
+ * @returns The eligible articles, and the rejections for the collected file
+ */
+function filterEligibleArticles(articles: ScrapedArticle[], runId: string): {
+  articles: ScrapedArticle[];
+  eligibility?: CollectedArticlesFile["eligibility"];
+} {
+  if (!ELIGIBILITY_ENABLED || articles.length === 0) {
+    return { articles };
+  }
+
+  const { eligible, rejected, summary } = applyEligibility(articles);
+
+  // Failure records are already in the ledger (scrape-time rejections under the eligibility stage)
+  const scrapedUrls = new Set(articles.filter((article) => article.success !== false).map((article) => article.url));
+  for (const article of rejected) {
+    if (!scrapedUrls.has(article.url)) continue;
+    recordLedgerStatus(article.url, "failed", {
+      runId,
+      stage: "eligibility",
+      error: describeRejections(article.rejections),
+    });
+  }
+
+  if (summary.rejected > 0) {
+    logger.info(`🚦 Rejected ${summary.rejected}/${summary.checked} article(s) before ChatGPT`, {
+      byRule: summary.byRule,
+    });
+  }
+
+  return { articles: eligible, eligibility: { summary, rejected } };
+}
+
+/**
+ * Keeps one article per story: clusters near-duplicates within the run and
+ * drops stories rewritten/published within the similarity window
+ *
+ * @returns The articles to process, and the decisions for the collected file
+ */
+function clusterCollectedArticles(articles: ScrapedArticle[]): {
+  articles: ScrapedArticle[];
+  clustering?: CollectedArticlesFile["clustering"];
+} {
+  if (!SIMILARITY_ENABLED || articles.length === 0) {
+    return { articles };
+  }
+
+  const prior: PriorFingerprint[] = getRecentLedgerEntries(SIMILARITY_WINDOW_HOURS, ["rewritten", "published"])
+    .filter((entry) => entry.fingerprint)
+    .map((entry) => ({ url: entry.url, status: entry.status, fingerprint: entry.fingerprint! }));
+
+  const result = clusterArticles(articles, prior);
+
+  for (const article of result.representatives) {
+    if (article.success !== false) {
+      setLedgerFingerprint(article.url, fingerprintArticle(article));
+    }
+  }
+
+  const droppedCount = articles.length - result.representatives.length;
+  if (droppedCount > 0) {
+    logger.info(`🧬 Dropped ${droppedCount} near-duplicate article(s)`, {
+      clustersInRun: result.clusters.length,
+      coveredInWindow: result.priorDuplicates.length,
+      windowHours: SIMILARITY_WINDOW_HOURS,
+    });
+  }
+
+  return {
+    articles: result.representatives,
+    clustering: { clusters: result.clusters, priorDuplicates: result.priorDuplicates },
+  };
+}
+
 /**
  * Executes a scraping run based on the provided run configuration
  * @param run - The run configuration to execute
@@ -188,20 +248,35 @@ export async function executeRun(run: RunConfig): Promise<void> {
   );
 
   const startTime = Date.now();
+  resetRobotsBlockedUrls();
+  loadSourceHealth();
+  loadSelectorDrift();
 
   // Filter enabled sources and build summary
-  const enabledSources: Array<{ source: SourceKey; count: number; name: string }> = [];
+  const enabledSources: Array<{
+    source: SourceKey;
+    count: number;
+    name: string;
+    definition: SourceDefinition<SourceKey>;
+  }> = [];
   
   for (const { source, count } of run.sources) {
     if (count <= 0) {
       continue; // Skip sources with 0 or negative count
     }
     
-    if (isScraperEnabled(source)) {
+    const definition = getSourceDefinition(source);
+    if (definition && isScraperEnabled(source)) {
+      // Broken sources sit out their circuit breaker cool-down
+      if (isSourceCircuitOpen(source)) {
+        logger.warn(`🔌 Skipping ${definition.displayName}: circuit open after repeated failures`);
+        continue;
+      }
       enabledSources.push({
         source,
         count,
-        name: formatSourceName(source),
+        name: definition.displayName,
+        definition,
       });
     }
   }
@@ -217,27 +292,76 @@ export async function executeRun(run: RunConfig): Promise<void> {
     logger.info("No enabled sources to scrape");
   }
 
-  // Execute scrapers silently (no per-source logging)
-  for (const { source, count } of enabledSources) {
-    await scrapeSource(source, count);
+  // Sources of the same host run one after another, in run order; different hosts in parallel
+  const lanes = new Map<string, typeof enabledSources>();
+  for (const entry of enabledSources) {
+    const lane = lanes.get(entry.definition.host) ?? [];
+    lane.push(entry);
+    lanes.set(entry.definition.host, lane);
+  }
+
+  // Skip articles already published by an earlier run, and URLs another
+  // source of the same host already took in this run (e.g. a section page and
+  // its sitemap). Copies across hosts are left to clustering, so the outcome
+  // doesn't depend on which host finished first.
+  loadLedger();
+
+  // Execute scrapers silently (no per-source logging). A failing source stops
+  // its own lane; the run fails once the other lanes are done.
+  let laneError: unknown;
+  const sourceResults = new Map<SourceKey, ScrapedSourceResult>();
+  await mapWithConcurrency([...lanes.values()], SCRAPE_SOURCE_CONCURRENCY, async (lane) => {
+    const takenUrls = new Set<string>();
+    const skipUrl = (url: string): boolean =>
+      isAlreadyPublished(url) || takenUrls.has(normalizeLedgerUrl(url));
+
+    try {
+      for (const { source, count } of lane) {
+        const result = await scrapeSourceWithTimeout(source, count, {
+          runId: run.id,
+          skipUrl,
+          fillToQuota: FILL_TO_QUOTA_ENABLED,
+          detailConcurrency: SCRAPE_DETAIL_CONCURRENCY,
+        });
+        if (!result) continue; // Skipped (disabled, or listing disallowed by robots.txt)
+        sourceResults.set(source, result);
+        result.articles.forEach((article) => {
+          takenUrls.add(normalizeLedgerUrl(article.url));
+          if (article.canonicalUrl) takenUrls.add(normalizeLedgerUrl(article.canonicalUrl));
+        });
+      }
+    } catch (error) {
+      laneError ??= error;
+    }
+  });
+  // The headless browser (if a listing needed rendering) isn't needed past scraping
+  await closeRenderer();
+  if (laneError) {
+    throw laneError;
   }
 
-  // Collect all articles from the run and save to collected folder
-  const allArticles: any[] = [];
+  // Collect the articles scraped in this run (run order, whatever finished first);
+  // skipped sources contribute nothing, not an earlier run's results file
+  const allArticles: ScrapedArticle[] = [];
   for (const { source } of enabledSources) {
-    const articles = getLatestArticlesFromSource(source);
+    const result = sourceResults.get(source);
+    if (!result) continue;
     // Add origin field to each article
-    const articlesWithOrigin = articles.map((article: any) => ({
+    const articlesWithOrigin = result.articles.map((article) => ({
       ...article,
       origin: source,
     }));
     allArticles.push(...articlesWithOrigin);
   }
 
+  // Only usable articles, one per story, are sent to ChatGPT
+  const { articles: eligibleArticles, eligibility } = filterEligibleArticles(allArticles, run.id);
+  const { articles: runArticles, clustering } = clusterCollectedArticles(eligibleArticles);
+
   // Save collected articles to the collected folder
-  const actualArticlesCount = allArticles.length;
+  const actualArticlesCount = runArticles.length;
   if (actualArticlesCount > 0) {
-    const collectedPath = saveCollectedArticles(run.id, allArticles);
+    const collectedPath = saveCollectedArticles(run.id, runArticles, { eligibility, clustering });
     logger.info(
       `📦 Collected ${actualArticlesCount} articles from ${run.id}`
     );
@@ -263,15 +387,86 @@ export async function executeRun(run: RunConfig): Promise<void> {
       });
     }
   } else {
+    // Keep the rejection reasons even when nothing is left to process
+    if (eligibility) {
+      saveCollectedArticles(run.id, [], { eligibility });
+    }
     logger.warn(`⚠️  No articles collected from ${run.id}`);
   }
 
+  const robotsBlocked = getRobotsBlockedUrls();
+  if (robotsBlocked.length > 0) {
+    logger.warn(`🤖 ${robotsBlocked.length} URL(s) skipped in ${run.id} because robots.txt disallows them`, {
+      urls: robotsBlocked.map(({ url, rule }) => `${url} (${rule})`),
+    });
+  }
+
+  const unhealthy = getSourceHealthReport().filter(
+    (health) => health.status !== "healthy" && run.sources.some(({ source }) => source === health.source)
+  );
+  if (unhealthy.length > 0) {
+    logger.warn(`🩺 ${unhealthy.length} source(s) in ${run.id} are degraded or broken`, {
+      sources: unhealthy.map(
+        (health) =>
+          `${health.source}: ${health.status} since ${health.degradedSince ?? "?"} ` +
+          `(success ${Math.round(health.successRate * 100)}%, ${health.consecutiveFailures} bad run(s) in a row)`
+      ),
+    });
+  }
+
+  const driftAlerts = getDriftAlerts().filter((alert) =>
+    enabledSources.some(({ definition }) => [definition.key, ...(definition.backfillFrom ?? [])].includes(alert.source))
+  );
+  if (driftAlerts.length > 0) {
+    logger.warn(`🧭 ${driftAlerts.length} selector(s) drifting in ${run.id} sources`, {
+      fields: driftAlerts.map(
+        (alert) =>
+          `${alert.source} ${alert.field}: ${alert.primaryStrategy ?? "?"} → ${alert.currentStrategy} ` +
+          `since ${alert.driftingSince}`
+      ),
+    });
+  }
+
   const duration = ((Date.now() - startTime) / 1000).toFixed(2);
   logger.info(
-    `✅ Successfully finished ${run.id} (${run.label}) - Total scraped articles: ${actualArticlesCount} (Duration: ${duration}s)`
+    `✅ Successfully finished ${run.id} (${run.label}) - Total scraped articles: ${actualArticlesCount}, blocked by robots.txt: ${robotsBlocked.length} (Duration: ${duration}s)`
   );
 }
 
+/**
+ * Scrapes every enabled source on its own (results files only: no eligibility
+ * filtering of a collected file, ChatGPT or Sanity), with the same scrape-time
+ * checks, ledger skip rule, health recording, circuit breaker and timeout as a
+ * run. Backfill-only listings are left to the sources they top up.
+ * @param count - Number of articles per source
+ */
+export async function scrapeAllSources(count: number = 5): Promise<void> {
+  loadSourceHealth();
+  loadSelectorDrift();
+  loadLedger();
+
+  for (const definition of SOURCE_REGISTRY) {
+    if (isBackfillOnlySource(definition.key)) continue;
+    if (!isScraperEnabled(definition.key)) {
+      logger.info(`⏸️  ${definition.displayName} scraping is disabled`);
+      continue;
+    }
+    if (isSourceCircuitOpen(definition.key)) {
+      logger.warn(`🔌 Skipping ${definition.displayName}: circuit open after repeated failures`);
+      continue;
+    }
+
+    try {
+      await scrapeSourceWithTimeout(definition.key, count, {
+        skipUrl: isAlreadyPublished,
+        detailConcurrency: SCRAPE_DETAIL_CONCURRENCY,
+      });
+    } catch {
+      // Already logged and recorded by scrapeSource; the other sources still run
+    }
+  }
+}
+
 /**
  * Gets a run configuration by its ID
  * @param id - The run ID ("run1" | "run2" | "run3" | "run4")
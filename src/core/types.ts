@@ -1,35 +1,52 @@
-export type SourceId = "apNewsUS" | "yahooNewsUS" | "cbsUS";
+import type { ContentType } from "../contentType";
+import type { EligibilityRejection } from "../eligibility";
+import type { SourceArticleDetails, SourceArticleItem, SourceKey } from "../sources/registry";
 
-export interface RawArticle {
-  sourceId: SourceId;
-  url: string;
-  title: string;
-  excerpt: string;
-  body: string;
-  imageUrl?: string;
-  category: string;
-  publishedAt?: string;
-}
-
-export interface RewrittenArticle extends RawArticle {
-  rewrittenTitle: string;
-  rewrittenExcerpt: string;
-  rewrittenBody: string;
-}
+/**
+ * A single article produced by the per-source scrape step
+ * (details on success, a failure record otherwise)
+ */
+export type ScrapedSourceArticle<T extends SourceArticleDetails = SourceArticleDetails> =
+  Omit<T, "category"> & {
+    articleItem: SourceArticleItem;
+    scrapedAt: string;
+    success: boolean;
+    error?: string;
+    // Why a scraped article was unusable (content type / language skips, eligibility rules)
+    rejections?: EligibilityRejection[];
+    category: string;
+    contentType?: ContentType; // Set on scraped articles (see contentType/classifier)
+    // Detected language (else the declared one), the page's declared language, and
+    // the language the rewrite should use when it isn't the site language
+    language?: string;
+    declaredLanguage?: string;
+    languageMixed?: boolean;
+    rewriteLanguage?: string;
+  };
 
-export interface SanityPostPayload {
-  _type: "post";
-  title: string;
-  slug: { _type: "slug"; current: string };
-  excerpt: string;
-  body: string;
-  mainImage?: {
-    _type: "image";
-    asset: { _type: "reference"; _ref: string };
+/**
+ * Uniform result of scraping one source, saved under results/<resultFolder>/
+ */
+export interface ScrapedSourceResult<T extends SourceArticleDetails = SourceArticleDetails> {
+  metadata: {
+    savedAt: string;
+    source: SourceKey;
+    totalHomepageItems: number;
+    totalArticlesScraped: number;
+    totalArticlesFailed: number;
+    // Article URLs refused by robots.txt
+    totalArticlesBlocked: number;
+    // Listing items skipped (already published in an earlier run, or taken earlier in this run)
+    totalItemsSkipped: number;
+    // Scraped but unusable (e.g. empty body, or a skipped content type)
+    totalArticlesIneligible: number;
+    // Scraped articles per content type, skipped ones included
+    contentTypes: Partial<Record<ContentType, number>>;
+    // Listings candidates came from (the source itself, then backfill sources in fill mode)
+    listingsUsed: string[];
+    // Stopped early by the per-source timeout (the articles scraped until then are kept)
+    timedOut: boolean;
   };
-  category?: { _type: "reference"; _ref: string } | null;
-  sourceUrl: string;
-  originalSourceId: string;
-  publishedAt?: string;
+  homepageItems: (SourceArticleItem & { category: string })[];
+  articles: ScrapedSourceArticle<T>[];
 }
-
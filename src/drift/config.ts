@@ -0,0 +1,35 @@
+/**
+ * Configuration for selector drift detection and HTML snapshots
+ */
+
+/**
+ * Drift switch - set SELECTOR_DRIFT_ENABLED=false to stop tracking selector strategies and saving snapshots
+ */
+export const SELECTOR_DRIFT_ENABLED = process.env.SELECTOR_DRIFT_ENABLED !== "false";
+
+/**
+ * Drift state file location (relative to the working directory)
+ */
+export const SELECTOR_DRIFT_PATH = process.env.SELECTOR_DRIFT_PATH || "health/selector-drift.json";
+
+/**
+ * Recent extractions kept per source field (default: 20)
+ */
+export const DRIFT_WINDOW = parseInt(process.env.DRIFT_WINDOW || "20", 10);
+
+/**
+ * A field is drifting once its primary strategy missed this many extractions
+ * in a row, after having matched before (default: 3)
+ */
+export const DRIFT_MISS_THRESHOLD = parseInt(process.env.DRIFT_MISS_THRESHOLD || "3", 10);
+
+/**
+ * Raw HTML of failed or degraded extractions is saved here as
+ * <sourceKey>/<timestamp>-<slug>.html, the page URL in a leading comment
+ */
+export const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || "snapshots/html";
+
+/**
+ * Snapshots kept per source, newest first (default: 20)
+ */
+export const SNAPSHOT_MAX_PER_SOURCE = parseInt(process.env.SNAPSHOT_MAX_PER_SOURCE || "20", 10);
@@ -0,0 +1,170 @@
+/**
+ * Selector drift detection
+ *
+ * Each listing / article extraction reports which selector strategy produced
+ * each field (see sources/engine/trace.ts). When a field's primary strategy
+ * misses DRIFT_MISS_THRESHOLD extractions in a row after having matched
+ * before, the field is drifting: the page markup most likely changed and the
+ * scraper is living on fallbacks. Failed or degraded extractions save the raw
+ * HTML as a snapshot for fixing the selectors.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../config/logger";
+import { NO_SPEC_MATCH, type ExtractionTrace } from "../sources/engine/trace";
+import {
+  DRIFT_MISS_THRESHOLD,
+  DRIFT_WINDOW,
+  SELECTOR_DRIFT_ENABLED,
+  SELECTOR_DRIFT_PATH,
+} from "./config";
+import { saveHtmlSnapshot } from "./snapshots";
+import type { DriftAlert, ExtractionKind, FieldDriftState, SelectorDriftFile, SourceDriftState } from "./types";
+
+let driftState: SelectorDriftFile | null = null;
+
+function driftPath(): string {
+  return path.resolve(process.cwd(), SELECTOR_DRIFT_PATH);
+}
+
+/**
+ * Loads the drift state from disk (fresh read)
+ */
+export function loadSelectorDrift(): SelectorDriftFile {
+  const filePath = driftPath();
+  let loaded: SelectorDriftFile = { updatedAt: new Date().toISOString(), sources: {} };
+
+  if (fs.existsSync(filePath)) {
+    try {
+      loaded = JSON.parse(fs.readFileSync(filePath, "utf-8")) as SelectorDriftFile;
+    } catch (error) {
+      logger.error("Failed to read selector drift file, starting empty", {
+        path: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  driftState = loaded;
+  return driftState;
+}
+
+function getDriftFile(): SelectorDriftFile {
+  return driftState ?? loadSelectorDrift();
+}
+
+function saveSelectorDrift(): void {
+  const data = getDriftFile();
+  data.updatedAt = new Date().toISOString();
+  try {
+    const filePath = driftPath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), "utf-8");
+  } catch (error) {
+    logger.error("Failed to save selector drift file", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function getSourceState(source: string): SourceDriftState {
+  const sources = getDriftFile().sources;
+  sources[source] ??= { source, fields: {} };
+  return sources[source];
+}
+
+/**
+ * Adds one observation to a field
+ * @returns true if the field just started drifting
+ */
+function observeField(state: FieldDriftState, strategy: string, rank: number, at: string): boolean {
+  state.recent.push({ at, strategy, rank });
+  state.recent = state.recent.slice(-DRIFT_WINDOW);
+
+  if (rank === 0) {
+    state.consecutivePrimaryMisses = 0;
+    state.lastPrimaryHitAt = at;
+    state.primaryStrategy = strategy;
+    delete state.driftingSince;
+    return false;
+  }
+
+  state.consecutivePrimaryMisses += 1;
+  // A field whose primary never matched (e.g. a fallback-only page type) isn't drift
+  if (!state.driftingSince && state.lastPrimaryHitAt && state.consecutivePrimaryMisses >= DRIFT_MISS_THRESHOLD) {
+    state.driftingSince = at;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Records one extraction of a source: updates the drift state of every traced
+ * field, and saves a snapshot when the extraction failed, fell back to a
+ * generic strategy, or a field just started drifting
+ *
+ * @param error - Set when the extraction threw (e.g. "Could not determine article title")
+ */
+export function recordExtraction(
+  source: string,
+  kind: ExtractionKind,
+  trace: ExtractionTrace,
+  error?: string
+): void {
+  if (!SELECTOR_DRIFT_ENABLED) return;
+
+  const now = new Date().toISOString();
+  const sourceState = getSourceState(source);
+  const problems: string[] = error ? [error] : [];
+
+  for (const [name, hit] of Object.entries(trace.hits)) {
+    const field = `${kind}.${name}`;
+    sourceState.fields[field] ??= { field, recent: [], consecutivePrimaryMisses: 0 };
+    const state = sourceState.fields[field];
+
+    if (observeField(state, hit.strategy, hit.rank, now)) {
+      logger.warn(`🧭 Selector drift: ${source} ${field} no longer matches its primary strategy`, {
+        primaryStrategy: state.primaryStrategy,
+        currentStrategy: hit.strategy,
+        misses: state.consecutivePrimaryMisses,
+        lastPrimaryHitAt: state.lastPrimaryHitAt,
+      });
+      problems.push(`${field} drifting (${state.primaryStrategy ?? "?"} → ${hit.strategy})`);
+    } else if (hit.rank === NO_SPEC_MATCH) {
+      problems.push(`${field} via ${hit.strategy}`);
+    }
+  }
+
+  saveSelectorDrift();
+
+  if (problems.length > 0 && trace.page) {
+    const snapshotPath = saveHtmlSnapshot(source, trace.page.url, trace.page.html, problems.join("; "));
+    if (snapshotPath) {
+      logger.info(`📸 Saved HTML snapshot for ${source}: ${problems.join("; ")}`, { path: snapshotPath });
+    }
+  }
+}
+
+/**
+ * Fields currently drifting, optionally for one source
+ */
+export function getDriftAlerts(source?: string): DriftAlert[] {
+  const alerts: DriftAlert[] = [];
+  for (const sourceState of Object.values(getDriftFile().sources)) {
+    if (source && sourceState.source !== source) continue;
+    for (const state of Object.values(sourceState.fields)) {
+      if (!state.driftingSince) continue;
+      alerts.push({
+        source: sourceState.source,
+        field: state.field,
+        primaryStrategy: state.primaryStrategy,
+        currentStrategy: state.recent[state.recent.length - 1]?.strategy ?? "none",
+        consecutivePrimaryMisses: state.consecutivePrimaryMisses,
+        lastPrimaryHitAt: state.lastPrimaryHitAt,
+        driftingSince: state.driftingSince,
+      });
+    }
+  }
+  return alerts;
+}
@@ -0,0 +1,17 @@
+/**
+ * Selector Drift - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { SELECTOR_DRIFT_ENABLED, SNAPSHOT_DIR } from "./config";
+export type {
+  ExtractionKind,
+  FieldObservation,
+  FieldDriftState,
+  SourceDriftState,
+  SelectorDriftFile,
+  DriftAlert,
+} from "./types";
+export { loadSelectorDrift, recordExtraction, getDriftAlerts } from "./drift";
+export { saveHtmlSnapshot } from "./snapshots";
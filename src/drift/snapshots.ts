@@ -0,0 +1,66 @@
+/**
+ * Raw HTML snapshots of failed or degraded extractions
+ *
+ * Saved under SNAPSHOT_DIR/<sourceKey>/, with the page URL in a leading comment.
+ * To reproduce the page offline, copy the file into fixtures/sources/<sourceKey>/
+ * and map its URL to the file in that fixture's manifest.json "pages".
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../config/logger";
+import { SNAPSHOT_DIR, SNAPSHOT_MAX_PER_SOURCE } from "./config";
+
+function snapshotDir(source: string): string {
+  return path.resolve(process.cwd(), SNAPSHOT_DIR, source);
+}
+
+/**
+ * File name for a snapshot: timestamp + last URL path segment
+ */
+function snapshotFileName(url: string): string {
+  let slug = "page";
+  try {
+    const segments = new URL(url).pathname.split("/").filter(Boolean);
+    slug = segments[segments.length - 1] || new URL(url).hostname;
+  } catch {
+    // Keep the default slug
+  }
+  const safeSlug = slug.replace(/[^a-z0-9-]+/gi, "-").slice(0, 80);
+  return `${new Date().toISOString().replace(/[:.]/g, "-")}-${safeSlug}.html`;
+}
+
+/**
+ * Saves the raw HTML of a page, with its URL and the reason in a leading comment
+ * Keeps the newest SNAPSHOT_MAX_PER_SOURCE snapshots of the source.
+ *
+ * @returns The snapshot path, or undefined if it couldn't be written
+ */
+export function saveHtmlSnapshot(source: string, url: string, html: string, reason: string): string | undefined {
+  const dir = snapshotDir(source);
+  const filePath = path.join(dir, snapshotFileName(url));
+  // "--" can't appear inside an HTML comment
+  const header = `<!-- snapshot url: ${url}\n     reason: ${reason.replace(/--/g, "-")}\n     saved: ${new Date().toISOString()} -->\n`;
+
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(filePath, header + html, "utf-8");
+
+    const snapshots = fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith(".html"))
+      .sort()
+      .reverse();
+    for (const file of snapshots.slice(SNAPSHOT_MAX_PER_SOURCE)) {
+      fs.unlinkSync(path.join(dir, file));
+    }
+    return filePath;
+  } catch (error) {
+    logger.warn("Failed to save HTML snapshot", {
+      source,
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Type definitions for selector drift detection
+ */
+
+/**
+ * Listing or article page extraction
+ */
+export type ExtractionKind = "listing" | "detail";
+
+export interface FieldObservation {
+  at: string;
+  strategy: string;
+  rank: number; // 0 = primary strategy, -1 = nothing in the spec matched
+}
+
+export interface FieldDriftState {
+  field: string; // "<kind>.<field>", e.g. "detail.body"
+  recent: FieldObservation[]; // Most recent last, capped at DRIFT_WINDOW
+  consecutivePrimaryMisses: number;
+  lastPrimaryHitAt?: string;
+  primaryStrategy?: string; // Strategy seen at rank 0
+  driftingSince?: string; // Set while the primary strategy keeps missing
+}
+
+export interface SourceDriftState {
+  source: string;
+  fields: Record<string, FieldDriftState>;
+}
+
+/**
+ * Structure of the drift JSON file
+ */
+export interface SelectorDriftFile {
+  updatedAt: string;
+  sources: Record<string, SourceDriftState>;
+}
+
+/**
+ * A source field whose primary strategy stopped matching
+ */
+export interface DriftAlert {
+  source: string;
+  field: string;
+  primaryStrategy?: string;
+  currentStrategy: string; // What matched (or "none") in the latest extraction
+  consecutivePrimaryMisses: number;
+  lastPrimaryHitAt?: string;
+  driftingSince: string;
+}
@@ -0,0 +1,65 @@
+/**
+ * Configuration for the article eligibility stage
+ */
+
+import { logger } from "../config/logger";
+import type { SourceKey } from "../sources/registry";
+import type { EligibilityField, EligibilityRules } from "./types";
+
+function listFromEnv(value: string | undefined, fallback: string): string[] {
+  return (value ?? fallback)
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+const ELIGIBILITY_FIELDS: readonly EligibilityField[] = [
+  "url",
+  "title",
+  "excerpt",
+  "body",
+  "category",
+  "keywords",
+  "language",
+  "rewriteLanguage",
+  "publishedAt",
+  "origin",
+];
+
+function parseRequiredFields(value: string | undefined): EligibilityField[] {
+  const fields: EligibilityField[] = [];
+  for (const name of listFromEnv(value, "url,title,body")) {
+    const field = ELIGIBILITY_FIELDS.find((candidate) => candidate === name);
+    if (field) {
+      fields.push(field);
+    } else {
+      logger.warn(`⚠️  Unknown ELIGIBILITY_REQUIRED_FIELDS entry "${name}" (expected ${ELIGIBILITY_FIELDS.join(", ")}), ignoring it`);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Eligibility switch - set ELIGIBILITY_ENABLED=false to send every collected article to ChatGPT
+ */
+export const ELIGIBILITY_ENABLED = process.env.ELIGIBILITY_ENABLED !== "false";
+
+/**
+ * Rules for every source (lists are comma-separated in the environment)
+ */
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  requiredFields: parseRequiredFields(process.env.ELIGIBILITY_REQUIRED_FIELDS),
+  minWords: parseInt(process.env.ELIGIBILITY_MIN_WORDS || "150", 10),
+  maxWords: parseInt(process.env.ELIGIBILITY_MAX_WORDS || "4000", 10),
+  minParagraphs: parseInt(process.env.ELIGIBILITY_MIN_PARAGRAPHS || "2", 10),
+  bannedKeywords: listFromEnv(process.env.ELIGIBILITY_BANNED_KEYWORDS, ""),
+  bannedTopics: listFromEnv(process.env.ELIGIBILITY_BANNED_TOPICS, ""),
+  allowedLanguages: listFromEnv(process.env.ELIGIBILITY_ALLOWED_LANGUAGES, "en"),
+  maxAgeHours: parseInt(process.env.ELIGIBILITY_MAX_AGE_HOURS || "72", 10),
+};
+
+/**
+ * Per-source rule overrides, merged over the defaults
+ * Example: { techCrunch: { maxWords: 6000 }, apNewsLifestyle: { maxAgeHours: 168 } }
+ */
+export const eligibilityOverrides: Partial<Record<SourceKey, Partial<EligibilityRules>>> = {};
@@ -0,0 +1,18 @@
+/**
+ * Article Eligibility - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { ELIGIBILITY_ENABLED, DEFAULT_ELIGIBILITY_RULES, eligibilityOverrides } from "./config";
+export type {
+  EligibilityRuleName,
+  EligibilityRules,
+  EligibilityCandidate,
+  EligibilityField,
+  EligibilityRejection,
+  RejectedArticle,
+  EligibilitySummary,
+  EligibilityResult,
+} from "./types";
+export { getEligibilityRules, checkArticleEligibility, applyEligibility, describeRejections } from "./rules";
@@ -0,0 +1,154 @@
+/**
+ * Article eligibility rules engine
+ *
+ * Decides which collected articles are worth sending to ChatGPT: scrape
+ * failures, stubs, over-long pages, banned keywords / topics, other languages
+ * and stale stories are rejected with a reason per failed rule.
+ */
+
+import { DEFAULT_ELIGIBILITY_RULES, ELIGIBILITY_ENABLED, eligibilityOverrides } from "./config";
+import type {
+  EligibilityCandidate,
+  EligibilityRejection,
+  EligibilityResult,
+  EligibilityRules,
+  EligibilitySummary,
+  RejectedArticle,
+} from "./types";
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return !value.trim();
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Effective rules for a source: the defaults with its overrides merged in
+ */
+export function getEligibilityRules(source?: string): EligibilityRules {
+  const overrides = source ? eligibilityOverrides[source as keyof typeof eligibilityOverrides] : undefined;
+  return { ...DEFAULT_ELIGIBILITY_RULES, ...overrides };
+}
+
+/**
+ * Checks one article against the rules
+ * @returns Every failed rule (empty when the article is eligible)
+ */
+export function checkArticleEligibility(
+  article: EligibilityCandidate,
+  rules: EligibilityRules,
+  now: number = Date.now()
+): EligibilityRejection[] {
+  // The other rules say nothing useful about a failure record; one rejected at
+  // scrape time (content type, language policy, these rules) keeps its rejections
+  if (article.success === false) {
+    if (article.rejections?.length) return article.rejections;
+    return [{ rule: "scrapeFailed", reason: `scrape failed${article.error ? `: ${article.error}` : ""}` }];
+  }
+
+  const rejections: EligibilityRejection[] = [];
+  const body = article.body ?? "";
+
+  const missing = rules.requiredFields.filter((field) => isEmpty(article[field]));
+  if (missing.length > 0) {
+    rejections.push({ rule: "requiredFields", reason: `missing ${missing.join(", ")}` });
+  }
+
+  const words = countWords(body);
+  if (words < rules.minWords) {
+    rejections.push({ rule: "minWords", reason: `${words} words (min ${rules.minWords})` });
+  }
+  if (rules.maxWords > 0 && words > rules.maxWords) {
+    rejections.push({ rule: "maxWords", reason: `${words} words (max ${rules.maxWords})` });
+  }
+
+  const paragraphs = body.split(/\n{2,}/).filter((paragraph) => paragraph.trim()).length;
+  if (paragraphs < rules.minParagraphs) {
+    rejections.push({ rule: "minParagraphs", reason: `${paragraphs} paragraph(s) (min ${rules.minParagraphs})` });
+  }
+
+  const text = [article.title, article.excerpt, body].filter(Boolean).join("\n");
+  const keyword = rules.bannedKeywords.find((banned) =>
+    new RegExp(`\\b${escapeRegExp(banned)}\\b`, "i").test(text)
+  );
+  if (keyword) {
+    rejections.push({ rule: "bannedKeyword", reason: `mentions "${keyword}"` });
+  }
+
+  const topics = [article.category ?? "", ...(article.keywords ?? [])].map((topic) => topic.toLowerCase());
+  const topic = rules.bannedTopics.find((banned) => topics.includes(banned.toLowerCase()));
+  if (topic) {
+    rejections.push({ rule: "bannedTopic", reason: `topic "${topic}"` });
+  }
+
+  if (
+    article.language &&
+    !article.rewriteLanguage &&
+    rules.allowedLanguages.length > 0 &&
+    !rules.allowedLanguages.includes(article.language)
+  ) {
+    rejections.push({
+      rule: "language",
+      reason: `language "${article.language}" (allowed: ${rules.allowedLanguages.join(", ")})`,
+    });
+  }
+
+  const publishedAt = article.publishedAt ? Date.parse(article.publishedAt) : NaN;
+  if (rules.maxAgeHours > 0 && !Number.isNaN(publishedAt)) {
+    const ageHours = (now - publishedAt) / (60 * 60 * 1000);
+    if (ageHours > rules.maxAgeHours) {
+      rejections.push({ rule: "maxAge", reason: `${Math.round(ageHours)}h old (max ${rules.maxAgeHours}h)` });
+    }
+  }
+
+  return rejections;
+}
+
+/**
+ * Splits collected articles into eligible and rejected ones, using each
+ * article's source (`origin`) rules; everything passes while ELIGIBILITY_ENABLED is off
+ */
+export function applyEligibility<T extends EligibilityCandidate>(
+  articles: T[],
+  now: number = Date.now()
+): EligibilityResult<T> {
+  const eligible: T[] = [];
+  const rejected: RejectedArticle[] = [];
+  const summary: EligibilitySummary = { checked: articles.length, eligible: 0, rejected: 0, byRule: {} };
+
+  for (const article of articles) {
+    const rejections = ELIGIBILITY_ENABLED
+      ? checkArticleEligibility(article, getEligibilityRules(article.origin), now)
+      : [];
+
+    if (rejections.length === 0) {
+      eligible.push(article);
+      continue;
+    }
+
+    rejected.push({ url: article.url, title: article.title ?? "", origin: article.origin, rejections });
+    for (const { rule } of rejections) {
+      summary.byRule[rule] = (summary.byRule[rule] ?? 0) + 1;
+    }
+  }
+
+  summary.eligible = eligible.length;
+  summary.rejected = rejected.length;
+  return { eligible, rejected, summary };
+}
+
+/**
+ * Reason string for a list of rejections (undefined when eligible)
+ */
+export function describeRejections(rejections: EligibilityRejection[]): string | undefined {
+  return rejections.length > 0 ? rejections.map(({ rule, reason }) => `${rule}: ${reason}`).join("; ") : undefined;
+}
@@ -0,0 +1,93 @@
+/**
+ * Type definitions for the article eligibility stage
+ */
+
+/**
+ * Rules an article is checked against before it is sent to ChatGPT
+ * - scrapeFailed: the scrape record is a failure (success: false)
+ * - requiredFields: a required field is missing or empty
+ * - minWords / maxWords: body length outside the allowed range
+ * - minParagraphs: one-paragraph stubs
+ * - bannedKeyword: title, excerpt or body mentions a banned keyword
+ * - bannedTopic: category or keywords contain a banned topic
+ * - language: the article's language isn't an allowed one (or, at scrape time,
+ *   its source's language policy skips it)
+ * - contentType: a content type its source skips (video, live blog...; scrape time only)
+ * - maxAge: published too long ago
+ */
+export type EligibilityRuleName =
+  | "scrapeFailed"
+  | "requiredFields"
+  | "minWords"
+  | "maxWords"
+  | "minParagraphs"
+  | "bannedKeyword"
+  | "bannedTopic"
+  | "language"
+  | "contentType"
+  | "maxAge";
+
+export interface EligibilityRules {
+  requiredFields: EligibilityField[];
+  minWords: number;
+  maxWords: number; // 0 = no limit
+  minParagraphs: number;
+  bannedKeywords: string[]; // Whole-word, case-insensitive
+  bannedTopics: string[]; // Matched against category and keywords, case-insensitive
+  // Primary subtags ("en"); empty = any. Articles without a language, or kept
+  // by their source's language policy (rewriteLanguage set), pass
+  allowedLanguages: string[];
+  maxAgeHours: number; // 0 = no limit. Articles without a date pass
+}
+
+/**
+ * Article fields the rules read (scrape records and collected articles both fit)
+ */
+export interface EligibilityCandidate {
+  url: string;
+  title?: string;
+  excerpt?: string;
+  body?: string;
+  category?: string | null;
+  keywords?: string[];
+  language?: string;
+  rewriteLanguage?: string;
+  publishedAt?: string;
+  success?: boolean;
+  error?: string;
+  rejections?: EligibilityRejection[]; // Set on records already rejected at scrape time
+  origin?: string; // Source key (collected articles)
+}
+
+/**
+ * Candidate fields the requiredFields rule can ask for
+ */
+export type EligibilityField = keyof EligibilityCandidate;
+
+export interface EligibilityRejection {
+  rule: EligibilityRuleName;
+  reason: string;
+}
+
+/**
+ * A rejected article as recorded in the collected file
+ */
+export interface RejectedArticle {
+  url: string;
+  title: string;
+  origin?: string;
+  rejections: EligibilityRejection[];
+}
+
+export interface EligibilitySummary {
+  checked: number;
+  eligible: number;
+  rejected: number;
+  byRule: Partial<Record<EligibilityRuleName, number>>; // Articles failing each rule
+}
+
+export interface EligibilityResult<T> {
+  eligible: T[];
+  rejected: RejectedArticle[];
+  summary: EligibilitySummary;
+}
@@ -0,0 +1,18 @@
+/**
+ * Configuration for the offline scraper fixture harness
+ */
+
+/**
+ * Fixture root: <FIXTURES_DIR>/<sourceKey>/manifest.json plus the saved pages
+ */
+export const FIXTURES_DIR = process.env.FIXTURES_DIR || "fixtures/sources";
+
+/**
+ * Article pages saved per source by a refresh (default: 3)
+ */
+export const FIXTURE_DETAIL_COUNT = parseInt(process.env.FIXTURE_DETAIL_COUNT || "3", 10);
+
+/**
+ * Listing items requested by a refresh and by the replay (default: 5)
+ */
+export const FIXTURE_LISTING_LIMIT = parseInt(process.env.FIXTURE_LISTING_LIMIT || "5", 10);
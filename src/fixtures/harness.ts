@@ -0,0 +1,153 @@
+/**
+ * Offline scraper fixture harness
+ *
+ * Replays a source's listing and detail functions against its saved pages
+ * (no network: the HTTP transport serves the fixture files) and compares the
+ * output with the golden values in the manifest.
+ */
+
+import { setHttpTransport } from "../http";
+import { getSourceDefinition, type SourceDefinition, type SourceKey } from "../sources/registry";
+import { createFixtureTransport } from "./manifest";
+import type {
+  ExpectedDetails,
+  ExpectedListingItem,
+  FixtureManifest,
+  FixtureMismatch,
+  FixtureRunResult,
+} from "./types";
+
+/**
+ * Output of one replay, in the shape of the manifest's golden values
+ */
+export interface FixtureOutput {
+  listing?: ExpectedListingItem[];
+  details: Array<{ url: string; output?: ExpectedDetails; error?: string }>;
+}
+
+function toExpectedItem(item: { url: string; title: string; imageUrl?: string }): ExpectedListingItem {
+  return item.imageUrl ? { url: item.url, title: item.title, imageUrl: item.imageUrl } : { url: item.url, title: item.title };
+}
+
+function getDefinition(source: string): SourceDefinition<SourceKey> {
+  const definition = getSourceDefinition(source);
+  if (!definition) {
+    throw new Error(`No scraper registered for source: ${source}`);
+  }
+  return definition;
+}
+
+/**
+ * Runs the source's listing and detail functions on the manifest's pages, offline
+ *
+ * The clock is pinned to the capture time during the replay, so recency windows
+ * (sitemap maxAgeHours) see the pages as fresh as when they were saved.
+ *
+ * @param detailUrls - Article URLs to extract (default: the manifest's detail cases)
+ */
+export async function replayFixture(manifest: FixtureManifest, detailUrls?: string[]): Promise<FixtureOutput> {
+  const definition = getDefinition(manifest.source);
+  const output: FixtureOutput = { details: [] };
+
+  const capturedAt = Date.parse(manifest.capturedAt);
+  const realNow = Date.now;
+  if (!Number.isNaN(capturedAt)) {
+    Date.now = () => capturedAt;
+  }
+
+  setHttpTransport(createFixtureTransport(manifest), { offline: true });
+  try {
+    if (manifest.listing) {
+      output.listing = (await definition.scrapeListing(manifest.listing.limit)).map(toExpectedItem);
+    }
+
+    for (const url of detailUrls ?? manifest.details.map((detail) => detail.url)) {
+      try {
+        const details = await definition.scrapeDetails(url);
+        output.details.push({
+          url,
+          output: {
+            title: details.title,
+            excerpt: details.excerpt,
+            category: details.category,
+            bodyLength: details.body.length,
+          },
+        });
+      } catch (error) {
+        output.details.push({ url, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  } finally {
+    setHttpTransport(null);
+    Date.now = realNow;
+  }
+
+  return output;
+}
+
+/**
+ * Replays a fixture and compares the output with its golden values
+ */
+export async function runFixture(manifest: FixtureManifest): Promise<FixtureRunResult> {
+  const result: FixtureRunResult = { source: manifest.source, checks: 0, mismatches: [], errors: [] };
+  const mismatch = (target: string, field: string, expected: unknown, actual: unknown): void => {
+    result.mismatches.push({ source: manifest.source, target, field, expected, actual });
+  };
+
+  let output: FixtureOutput;
+  try {
+    output = await replayFixture(manifest);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+    return result;
+  }
+
+  if (manifest.listing) {
+    const actual = output.listing ?? [];
+    result.checks += 1;
+    if (actual.length !== manifest.listing.expected.length) {
+      mismatch("listing", "items.length", manifest.listing.expected.length, actual.length);
+    }
+    manifest.listing.expected.forEach((expected, index) => {
+      for (const field of ["url", "title", "imageUrl"] as const) {
+        if (expected[field] !== actual[index]?.[field]) {
+          mismatch("listing", `items[${index}].${field}`, expected[field], actual[index]?.[field]);
+        }
+      }
+    });
+  }
+
+  for (const detail of manifest.details) {
+    result.checks += 1;
+    const replayed = output.details.find((entry) => entry.url === detail.url);
+    if (!replayed?.output) {
+      result.errors.push(`${detail.url}: ${replayed?.error ?? "not replayed"}`);
+      continue;
+    }
+    for (const field of ["title", "excerpt", "category", "bodyLength"] as const) {
+      if (detail.expected[field] !== replayed.output[field]) {
+        mismatch(detail.url, field, detail.expected[field], replayed.output[field]);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rewrites a manifest's golden values from a fresh offline replay
+ * (after an intended extraction change)
+ */
+export async function updateFixtureExpectations(manifest: FixtureManifest): Promise<FixtureManifest> {
+  const output = await replayFixture(manifest);
+  const failed = output.details.filter((detail) => !detail.output);
+  if (failed.length > 0) {
+    throw new Error(`Replay failed for ${failed.map((detail) => `${detail.url} (${detail.error})`).join(", ")}`);
+  }
+
+  return {
+    ...manifest,
+    listing: manifest.listing && { ...manifest.listing, expected: output.listing ?? [] },
+    details: output.details.map((detail) => ({ url: detail.url, expected: detail.output! })),
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Scraper Fixtures - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { FIXTURES_DIR } from "./config";
+export type {
+  ExpectedListingItem,
+  ExpectedDetails,
+  FixtureDetailCase,
+  FixtureManifest,
+  FixtureMismatch,
+  FixtureRunResult,
+} from "./types";
+export type { FixtureOutput } from "./harness";
+export type { RefreshFixtureOptions } from "./refresh";
+export {
+  fixtureDir,
+  listFixtureSources,
+  loadFixtureManifest,
+  saveFixtureManifest,
+  createFixtureTransport,
+} from "./manifest";
+export { replayFixture, runFixture, updateFixtureExpectations } from "./harness";
+export { refreshFixture } from "./refresh";
@@ -0,0 +1,61 @@
+/**
+ * Fixture manifests and the transport that replays them
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { HttpTransport, HttpTransportResponse } from "../http";
+import { FIXTURES_DIR } from "./config";
+import type { FixtureManifest } from "./types";
+
+export function fixtureDir(source: string): string {
+  return path.resolve(process.cwd(), FIXTURES_DIR, source);
+}
+
+/**
+ * Sources with a manifest, sorted
+ */
+export function listFixtureSources(): string[] {
+  const root = path.resolve(process.cwd(), FIXTURES_DIR);
+  if (!fs.existsSync(root)) return [];
+  return fs
+    .readdirSync(root)
+    .filter((entry) => fs.existsSync(path.join(root, entry, "manifest.json")))
+    .sort();
+}
+
+export function loadFixtureManifest(source: string): FixtureManifest {
+  const filePath = path.join(fixtureDir(source), "manifest.json");
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as FixtureManifest;
+}
+
+export function saveFixtureManifest(manifest: FixtureManifest): void {
+  const dir = fixtureDir(manifest.source);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Offline transport serving the manifest's saved pages (404 for anything else)
+ */
+export function createFixtureTransport(manifest: FixtureManifest): HttpTransport {
+  const dir = fixtureDir(manifest.source);
+
+  return async ({ url }): Promise<HttpTransportResponse> => {
+    const file = manifest.pages[url];
+    if (!file) {
+      return { status: 404, statusText: "Not in fixture", headers: {}, body: "" };
+    }
+    const contentType = file.endsWith(".xml")
+      ? "application/xml"
+      : file.endsWith(".json")
+        ? "application/json"
+        : "text/html; charset=utf-8";
+    return {
+      status: 200,
+      statusText: "OK",
+      headers: { "content-type": contentType },
+      body: fs.readFileSync(path.join(dir, file), "utf-8"),
+    };
+  };
+}
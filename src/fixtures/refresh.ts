@@ -0,0 +1,111 @@
+/**
+ * Refreshes a source's fixture from the live site
+ *
+ * Runs the source's listing and detail functions over the network with a
+ * recording transport, saves every page they fetched (rendered listings as
+ * their rendered DOM, which the offline replay serves back in their place)
+ * next to the manifest, then derives the golden values from an offline
+ * replay of those pages.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../config/logger";
+import {
+  closeRenderer,
+  networkTransport,
+  setHttpTransport,
+  setRenderedPageListener,
+  type HttpTransport,
+} from "../http";
+import { getSourceDefinition } from "../sources/registry";
+import { FIXTURE_DETAIL_COUNT, FIXTURE_LISTING_LIMIT } from "./config";
+import { updateFixtureExpectations } from "./harness";
+import { fixtureDir, saveFixtureManifest } from "./manifest";
+import type { FixtureManifest } from "./types";
+
+export interface RefreshFixtureOptions {
+  // Article pages to capture (default: the first FIXTURE_DETAIL_COUNT listing items)
+  detailUrls?: string[];
+  detailCount?: number;
+  listingLimit?: number;
+}
+
+interface RecordedPage {
+  body: string;
+  contentType: string;
+}
+
+function pageExtension(page: RecordedPage): string {
+  if (/json/i.test(page.contentType)) return "json";
+  if (/xml|rss|atom/i.test(page.contentType) || page.body.trimStart().startsWith("<?xml")) return "xml";
+  return "html";
+}
+
+/**
+ * Captures a live fixture for a source and writes its manifest
+ * @returns The new manifest
+ */
+export async function refreshFixture(source: string, options: RefreshFixtureOptions = {}): Promise<FixtureManifest> {
+  const definition = getSourceDefinition(source);
+  if (!definition) {
+    throw new Error(`No scraper registered for source: ${source}`);
+  }
+
+  const listingLimit = options.listingLimit ?? FIXTURE_LISTING_LIMIT;
+  const recorded = new Map<string, RecordedPage>();
+  const recordingTransport: HttpTransport = async (request) => {
+    const response = await networkTransport(request);
+    if (response.status >= 200 && response.status < 300 && !request.url.endsWith("/robots.txt")) {
+      recorded.set(request.url, { body: response.body, contentType: response.headers["content-type"] ?? "" });
+    }
+    return response;
+  };
+
+  const detailUrls: string[] = [];
+  setHttpTransport(recordingTransport);
+  setRenderedPageListener((url, html) => recorded.set(url, { body: html, contentType: "text/html" }));
+  try {
+    const items = await definition.scrapeListing(listingLimit);
+    const candidates = options.detailUrls ?? items.slice(0, options.detailCount ?? FIXTURE_DETAIL_COUNT).map((item) => item.url);
+
+    for (const url of candidates) {
+      try {
+        await definition.scrapeDetails(url);
+        detailUrls.push(url);
+      } catch (error) {
+        logger.warn(`⚠️  Not capturing ${url}: extraction failed live`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    setHttpTransport(null);
+    setRenderedPageListener(null);
+    await closeRenderer();
+  }
+
+  // Replace the previous capture
+  const dir = fixtureDir(source);
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(dir, { recursive: true });
+
+  const pages: Record<string, string> = {};
+  [...recorded.entries()].forEach(([url, page], index) => {
+    const file = `page-${String(index + 1).padStart(2, "0")}.${pageExtension(page)}`;
+    fs.writeFileSync(path.join(dir, file), page.body, "utf-8");
+    pages[url] = file;
+  });
+
+  const captured: FixtureManifest = {
+    source,
+    capturedAt: new Date().toISOString(),
+    pages,
+    listing: { limit: listingLimit, expected: [] },
+    details: detailUrls.map((url) => ({ url, expected: { title: "", excerpt: "", category: null, bodyLength: 0 } })),
+  };
+
+  const manifest = await updateFixtureExpectations(captured);
+  saveFixtureManifest(manifest);
+  return manifest;
+}
@@ -0,0 +1,58 @@
+/**
+ * Type definitions for the offline scraper fixture harness
+ */
+
+export interface ExpectedListingItem {
+  url: string;
+  title: string;
+  imageUrl?: string;
+}
+
+/**
+ * Golden detail output (body compared by length, it is too long to keep verbatim)
+ */
+export interface ExpectedDetails {
+  title: string;
+  excerpt: string;
+  category: string | null;
+  bodyLength: number;
+}
+
+export interface FixtureDetailCase {
+  url: string;
+  expected: ExpectedDetails;
+}
+
+/**
+ * Structure of <FIXTURES_DIR>/<sourceKey>/manifest.json
+ */
+export interface FixtureManifest {
+  source: string;
+  capturedAt: string;
+  // Hand-written pages, not a live capture (capturedAt is only the replay clock);
+  // a refresh replaces them with real pages and drops the flag
+  synthetic?: boolean;
+  // Every URL the source fetched during the capture → file next to the manifest
+  pages: Record<string, string>;
+  listing?: {
+    limit: number;
+    expected: ExpectedListingItem[];
+  };
+  details: FixtureDetailCase[];
+}
+
+export interface FixtureMismatch {
+  source: string;
+  target: string; // "listing" or the article URL
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface FixtureRunResult {
+  source: string;
+  checks: number;
+  mismatches: FixtureMismatch[];
+  // Replay failed outright (missing page, extraction error)
+  errors: string[];
+}
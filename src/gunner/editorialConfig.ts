@@ -5,6 +5,8 @@
  * Each run can have different editorial positioning rules for different sources.
  */
 
+import type { SourceKey } from "../sources/registry";
+
 /**
  * Editorial flags that can be set for articles
  */
@@ -33,12 +35,10 @@ export interface EditorialFlags {
 }
 
 /**
- * Configuration structure: runId -> origin -> editorial flags
+ * Configuration structure: runId -> origin (registered source key) -> editorial flags
  */
 export type EditorialConfig = {
-  [runId: string]: {
-    [origin: string]: EditorialFlags;
-  };
+  [runId: string]: Partial<Record<SourceKey, EditorialFlags>>;
 };
 
 /**
@@ -218,7 +218,8 @@ export const EDITORIAL_CONFIG: EditorialConfig = {
  * 
  * @param runId - The run ID (e.g., "run1", "run2")
  * @param origin - The article origin (e.g., "apNewsUS", "yahooUSNews")
- * @param publishedAt - Optional published date (ISO string) to calculate frontUntil
+ * @param publishedAt - Optional publish time at the source (ISO string); the *Until
+ *                      windows run from it, falling back to now
  * @returns Editorial flags or undefined if no configuration exists
  */
 export function getEditorialFlags(
@@ -235,7 +236,7 @@ export function getEditorialFlags(
     return undefined;
   }
 
-  const flags = runConfig[origin];
+  const flags = runConfig[origin as SourceKey];
   if (!flags) {
     return undefined;
   }
@@ -4,7 +4,8 @@
 
 import { ProcessedArticle } from "../imageService/types";
 import { Article } from "../middleware/types";
-import { SanityPostDocument, SanityCover, PortableTextBlock, SanityCategoryReference, SanitySEO } from "./types";
+import { SanityPostDocument, SanityCover, PortableTextBlock, PortableTextMarkDef, SanityCategoryReference, SanitySEO } from "./types";
+import { parseBodyMarkdown, type BodyBlock, type BodySpan } from "../core/bodyBlocks";
 import { getEditorialFlags } from "./editorialConfig";
 import { resolveTagReferences } from "./tagCache";
 
@@ -48,58 +49,93 @@ export function generateTickerTitle(title: string): string {
 }
 
 /**
- * Converts plain text to Sanity portable text blocks
- * @param text - Plain text string
+ * Converts body blocks to Sanity portable text blocks
+ * (subheads -> h2/h3/h4, quotes -> blockquote, lists -> listItem, links -> link markDefs).
+ * Image blocks are skipped: inline images would need uploaded assets.
+ * @param blocks - Structured body blocks
  * @returns Array of portable text blocks
  */
-export function convertTextToPortableText(text: string): PortableTextBlock[] {
-  if (!text || text.trim().length === 0) {
-    return [];
-  }
+export function convertBodyBlocksToPortableText(blocks: BodyBlock[]): PortableTextBlock[] {
+  const portableText: PortableTextBlock[] = [];
 
-  // Split text into paragraphs (double newlines)
-  const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim().length > 0);
+  const toTextBlock = (
+    spans: BodySpan[],
+    fields: Pick<PortableTextBlock, "style" | "listItem" | "level">
+  ): PortableTextBlock | null => {
+    const markDefs: PortableTextMarkDef[] = [];
+    const children = spans
+      .filter((span) => span.text.length > 0)
+      .map((span) => {
+        const marks: string[] = [];
+        if (span.href) {
+          const markKey = generateKey();
+          markDefs.push({ _type: "link", _key: markKey, href: span.href });
+          marks.push(markKey);
+        }
+        return { _type: "span" as const, _key: generateKey(), text: span.text, marks };
+      });
 
-  if (paragraphs.length === 0) {
-    // Single paragraph
-    return [
-      {
-        _type: "block",
-        _key: generateKey(),
-        style: "normal",
-        children: [
-          {
-            _type: "span",
-            _key: generateKey(),
-            text: text.trim(),
-            marks: [],
-          },
-        ],
-        markDefs: [],
-      },
-    ];
-  }
+    if (children.length === 0 || children.every((child) => !child.text.trim())) {
+      return null;
+    }
 
-  // Multiple paragraphs
-  return paragraphs.map((paragraph, index) => {
-    // Split by single newlines within paragraph and join with spaces
-    const cleanedParagraph = paragraph.split(/\n/).map(p => p.trim()).filter(p => p).join(" ");
-    
     return {
       _type: "block",
       _key: generateKey(),
-      style: "normal",
-      children: [
-        {
-          _type: "span",
-          _key: generateKey(),
-          text: cleanedParagraph,
-          marks: [],
-        },
-      ],
-      markDefs: [],
+      ...fields,
+      children,
+      markDefs,
     };
-  });
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "paragraph": {
+        const textBlock = toTextBlock(block.spans, { style: "normal" });
+        if (textBlock) portableText.push(textBlock);
+        break;
+      }
+      case "heading": {
+        const textBlock = toTextBlock(block.spans, { style: `h${block.level}` });
+        if (textBlock) portableText.push(textBlock);
+        break;
+      }
+      case "quote": {
+        const textBlock = toTextBlock(block.spans, { style: "blockquote" });
+        if (textBlock) portableText.push(textBlock);
+        break;
+      }
+      case "list":
+        for (const item of block.items) {
+          const textBlock = toTextBlock(item, {
+            style: "normal",
+            listItem: block.ordered ? "number" : "bullet",
+            level: 1,
+          });
+          if (textBlock) portableText.push(textBlock);
+        }
+        break;
+      case "image":
+        break;
+    }
+  }
+
+  return portableText;
+}
+
+/**
+ * Converts body text to Sanity portable text blocks.
+ * Plain paragraphs (double newlines) become "normal" blocks; the markdown used
+ * for structured bodies (## subheads, - lists, > quotes, [links](url)) is kept.
+ * @param text - Body text
+ * @returns Array of portable text blocks
+ */
+export function convertTextToPortableText(text: string): PortableTextBlock[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  return convertBodyBlocksToPortableText(parseBodyMarkdown(text));
 }
 
 /**
@@ -210,8 +246,8 @@ export function mapProcessedArticleToSanity(
   const documentId = `post-${slug}`;
   const now = new Date().toISOString();
   
-  // Use scrapedAt if available, otherwise use current time
-  const publishedDate = originalArticle.scrapedAt || now;
+  // Use the source's publish time, then scrapedAt, otherwise current time
+  const publishedDate = originalArticle.publishedAt || originalArticle.scrapedAt || now;
 
   // Convert body text to portable text blocks
   const bodyBlocks = convertTextToPortableText(processedArticle.body || "");
@@ -226,7 +262,7 @@ export function mapProcessedArticleToSanity(
   };
 
   // Get editorial flags from config based on runId and origin
-  // Pass publishedDate to calculate frontUntil and justInUntil when needed
+  // Pass publishedDate so the *Until windows run from the real publish time
   const editorialFlags = runId ? getEditorialFlags(runId, originalArticle.origin, publishedDate) : undefined;
 
   // Resolve tags from ChatGPT response (array of strings) to Sanity references
@@ -256,6 +292,7 @@ export function mapProcessedArticleToSanity(
     // Dates
     date: publishedDate,
     publishedAt: options?.status === "published" ? publishedDate : undefined,
+    updatedAt: originalArticle.modifiedAt,
     status: options?.status || "published", // Default to "published"
     
     // Optional fields with defaults
@@ -264,6 +301,8 @@ export function mapProcessedArticleToSanity(
     author: authorRef, // Randomly assigned author (excluding andres-n)
     readTime: generateRandomReadTime(), // Random value: 3, 4, or 5 minutes
     seo: seo, // SEO object with title and description
+    language: originalArticle.rewriteLanguage ?? originalArticle.language,
+    sourceLanguage: originalArticle.language,
     
     // Editorial positioning flags (from config)
     mainHeadline: editorialFlags?.mainHeadline,
@@ -6,25 +6,12 @@ import * as fs from "fs";
 import * as path from "path";
 import { logger } from "../config/logger";
 import { SANITY_GUNNER_ENABLED } from "./config";
-import { ProcessedArticle } from "../imageService/types";
-import { Article } from "../middleware/types";
+import { readPipelineFile } from "../pipeline";
 import { mapProcessedArticleToSanity } from "./mapper";
 import { sendArticleToSanity } from "./sender";
 import { resolveCategoryReference } from "./categoryCache";
 import { getRandomAuthorReference } from "./authorCache";
-
-/**
- * Structure of processed articles JSON file
- */
-interface ProcessedArticlesFile {
-  runId: string;
-  processedAt: string;
-  totalArticles: number;
-  articles: Array<{
-    original: Article;
-    processed: ProcessedArticle | null;
-  }>;
-}
+import { recordLedgerStatus } from "../ledger";
 
 /**
  * Sends processed articles from a run to Sanity CMS
@@ -54,14 +41,8 @@ export async function sendProcessedArticlesToSanity(runId: string): Promise<void
     console.log(`📄 File: ${path.basename(processedFilePath)}`);
     console.log("=".repeat(80) + "\n");
 
-    // Read the processed articles file
-    const fileContent = fs.readFileSync(processedFilePath, "utf-8");
-    const data: ProcessedArticlesFile = JSON.parse(fileContent);
-
-    if (!data.articles || !Array.isArray(data.articles)) {
-      logger.warn(`⚠️  File ${path.basename(processedFilePath)} does not contain a valid articles array`);
-      return;
-    }
+    // Read the processed articles file (validated against the processed file schema)
+    const data = readPipelineFile("processed", processedFilePath);
 
     if (data.articles.length === 0) {
       console.log(`ℹ️  No processed articles to send to Sanity for ${runId}\n`);
@@ -103,6 +84,7 @@ export async function sendProcessedArticlesToSanity(runId: string): Promise<void
         
         if (!categoryRef) {
           console.log(`⚠️  Skipping article: Category "${processed.category || original.category}" not found in Sanity\n`);
+          recordLedgerStatus(original.url, "failed", { runId, stage: "publish", error: "Category not found in Sanity" });
           failureCount++;
           continue;
         }
@@ -128,8 +110,10 @@ export async function sendProcessedArticlesToSanity(runId: string): Promise<void
         const success = await sendArticleToSanity(sanityDoc);
 
         if (success) {
+          recordLedgerStatus(original.url, "published", { runId });
           successCount++;
         } else {
+          recordLedgerStatus(original.url, "failed", { runId, stage: "publish", error: "Sanity upsert failed" });
           failureCount++;
         }
 
@@ -139,6 +123,11 @@ export async function sendProcessedArticlesToSanity(runId: string): Promise<void
         }
       } catch (error) {
         failureCount++;
+        recordLedgerStatus(original.url, "failed", {
+          runId,
+          stage: "publish",
+          error: error instanceof Error ? error.message : String(error),
+        });
         logger.error(`Error processing article ${articleNumber} for Sanity:`, {
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
@@ -11,14 +11,25 @@ import { Article } from "../middleware/types";
 export interface PortableTextBlock {
   _type: "block";
   _key: string;
-  style?: string;
+  style?: string; // "normal" | "h2" | "h3" | "h4" | "blockquote"
+  listItem?: "bullet" | "number";
+  level?: number; // List nesting level (1 = top level)
   children: Array<{
     _type: "span";
     _key: string;
     text: string;
     marks?: string[];
   }>;
-  markDefs?: any[];
+  markDefs?: PortableTextMarkDef[];
+}
+
+/**
+ * Annotation referenced from span marks (links)
+ */
+export interface PortableTextMarkDef {
+  _type: "link";
+  _key: string;
+  href: string;
 }
 
 /**
@@ -90,6 +101,7 @@ export interface SanityPostDocument {
   // Dates
   date: string; // ISO datetime string
   publishedAt?: string; // ISO datetime string
+  updatedAt?: string; // ISO datetime string, last update at the source
   status: "draft" | "scheduled" | "published";
   
   // Optional fields we can set defaults for
@@ -98,6 +110,8 @@ export interface SanityPostDocument {
   author?: SanityCategoryReference; // Author reference
   readTime?: number; // Estimated read time in minutes
   seo?: SanitySEO; // SEO object with title and description
+  language?: string; // Language the post is written in (ISO 639-1)
+  sourceLanguage?: string; // Detected language of the source article (ISO 639-1)
   
   // Editorial positioning flags (set via editorialConfig)
   mainHeadline?: boolean;
@@ -117,7 +131,6 @@ export interface SanityPostDocument {
   
   // Fields we CANNOT fill (will be undefined/null)
   // - bodyBlocks: array of content blocks
-  // - updatedAt: datetime (not filled by default)
   // - viewsAll, views30d, views7d: numbers (not filled by default, leave alone)
   // - labels: array of internal labels (none by default, user will modify manually)
   // - etc.
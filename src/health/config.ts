@@ -0,0 +1,35 @@
+/**
+ * Configuration for source health tracking and the circuit breaker
+ */
+
+/**
+ * Health switch - set SOURCE_HEALTH_ENABLED=false to stop recording runs and never skip a source
+ */
+export const SOURCE_HEALTH_ENABLED = process.env.SOURCE_HEALTH_ENABLED !== "false";
+
+/**
+ * Health file location (relative to the working directory)
+ */
+export const SOURCE_HEALTH_PATH = process.env.SOURCE_HEALTH_PATH || "health/source-health.json";
+
+/**
+ * Consecutive bad runs (failed, or nothing on the listing) that open a source's circuit (default: 3)
+ */
+export const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || "3", 10);
+
+/**
+ * How long an open circuit skips the source before one trial run (default: 6 hours).
+ * The cool-down doubles each time a trial run fails, up to CIRCUIT_MAX_COOLDOWN_HOURS.
+ */
+export const CIRCUIT_COOLDOWN_HOURS = parseFloat(process.env.CIRCUIT_COOLDOWN_HOURS || "6");
+export const CIRCUIT_MAX_COOLDOWN_HOURS = parseFloat(process.env.CIRCUIT_MAX_COOLDOWN_HOURS || "48");
+
+/**
+ * Runs kept per source for success rates (default: 20)
+ */
+export const HEALTH_HISTORY_SIZE = parseInt(process.env.HEALTH_HISTORY_SIZE || "20", 10);
+
+/**
+ * A source whose article success rate over the kept runs falls below this is degraded (default: 0.5)
+ */
+export const HEALTH_DEGRADED_SUCCESS_RATE = parseFloat(process.env.HEALTH_DEGRADED_SUCCESS_RATE || "0.5");
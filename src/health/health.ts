@@ -0,0 +1,211 @@
+/**
+ * Persistent per-source health and circuit breaker
+ *
+ * Every scrape of a source is recorded with its outcome. After
+ * CIRCUIT_FAILURE_THRESHOLD consecutive failed or empty runs the source's
+ * circuit opens and runs skip it for a cool-down; the first run after the
+ * cool-down is a trial that closes the circuit again or reopens it for longer.
+ * Stored as one JSON file, written through on every update.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../config/logger";
+import {
+  CIRCUIT_COOLDOWN_HOURS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_MAX_COOLDOWN_HOURS,
+  HEALTH_DEGRADED_SUCCESS_RATE,
+  HEALTH_HISTORY_SIZE,
+  SOURCE_HEALTH_ENABLED,
+  SOURCE_HEALTH_PATH,
+} from "./config";
+import type {
+  SourceHealth,
+  SourceHealthFile,
+  SourceHealthSummary,
+  SourceRunOutcome,
+  SourceRunRecord,
+} from "./types";
+
+let health: SourceHealthFile | null = null;
+
+function healthPath(): string {
+  return path.resolve(process.cwd(), SOURCE_HEALTH_PATH);
+}
+
+/**
+ * Loads the health file from disk (fresh read)
+ */
+export function loadSourceHealth(): SourceHealthFile {
+  const filePath = healthPath();
+  let loaded: SourceHealthFile = { updatedAt: new Date().toISOString(), sources: {} };
+
+  if (fs.existsSync(filePath)) {
+    try {
+      loaded = JSON.parse(fs.readFileSync(filePath, "utf-8")) as SourceHealthFile;
+    } catch (error) {
+      logger.error("Failed to read source health file, starting empty", {
+        path: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  health = loaded;
+  return health;
+}
+
+function getHealthFile(): SourceHealthFile {
+  return health ?? loadSourceHealth();
+}
+
+function saveSourceHealth(): void {
+  const data = getHealthFile();
+  data.updatedAt = new Date().toISOString();
+  try {
+    const filePath = healthPath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), "utf-8");
+  } catch (error) {
+    logger.error("Failed to save source health file", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function getSourceEntry(source: string): SourceHealth {
+  const sources = getHealthFile().sources;
+  sources[source] ??= { source, runs: [], consecutiveFailures: 0, circuit: { state: "closed", trips: 0 } };
+  return sources[source];
+}
+
+/**
+ * Classifies a scrape from its counts
+ *
+ * @param itemsFound - Listing items attempted or skipped (0 = empty listing)
+ */
+export function classifySourceRun(itemsFound: number, scraped: number, failed: number): SourceRunOutcome {
+  if (itemsFound === 0) return "empty";
+  if (scraped === 0 && failed > 0) return "failed";
+  return failed > 0 ? "partial" : "ok";
+}
+
+function successRate(runs: SourceRunRecord[]): number {
+  const attempted = runs.reduce((sum, run) => sum + run.articlesScraped + run.articlesFailed, 0);
+  if (attempted === 0) return runs.some((run) => run.outcome === "failed" || run.outcome === "empty") ? 0 : 1;
+  return runs.reduce((sum, run) => sum + run.articlesScraped, 0) / attempted;
+}
+
+function isBadOutcome(outcome: SourceRunOutcome): boolean {
+  return outcome === "failed" || outcome === "empty";
+}
+
+function isDegraded(entry: SourceHealth): boolean {
+  return entry.consecutiveFailures > 0 || successRate(entry.runs) < HEALTH_DEGRADED_SUCCESS_RATE;
+}
+
+/**
+ * Whether a run should skip the source because its circuit is open.
+ * An open circuit past its cool-down turns half-open and lets one trial run through.
+ */
+export function isSourceCircuitOpen(source: string): boolean {
+  if (!SOURCE_HEALTH_ENABLED) return false;
+
+  const entry = getHealthFile().sources[source];
+  if (!entry || entry.circuit.state !== "open") return false;
+
+  if (entry.circuit.retryAt && new Date(entry.circuit.retryAt).getTime() <= Date.now()) {
+    entry.circuit.state = "half-open";
+    saveSourceHealth();
+    logger.info(`🔌 ${source}: cool-down over, running a trial scrape`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Records the outcome of one scrape of a source and updates its circuit
+ */
+export function recordSourceRun(source: string, record: Omit<SourceRunRecord, "at">): void {
+  if (!SOURCE_HEALTH_ENABLED) return;
+
+  const now = new Date().toISOString();
+  const entry = getSourceEntry(source);
+
+  entry.runs.push({ ...record, at: now });
+  entry.runs = entry.runs.slice(-HEALTH_HISTORY_SIZE);
+
+  if (isBadOutcome(record.outcome)) {
+    entry.consecutiveFailures += 1;
+  } else {
+    entry.consecutiveFailures = 0;
+    if (record.articlesScraped > 0) entry.lastSuccessAt = now;
+  }
+
+  const circuit = entry.circuit;
+  const trialFailed = circuit.state === "half-open" && isBadOutcome(record.outcome);
+  if (trialFailed || (circuit.state === "closed" && entry.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD)) {
+    circuit.trips += 1;
+    const cooldownHours = Math.min(CIRCUIT_COOLDOWN_HOURS * 2 ** (circuit.trips - 1), CIRCUIT_MAX_COOLDOWN_HOURS);
+    circuit.state = "open";
+    circuit.openedAt = now;
+    circuit.retryAt = new Date(Date.now() + cooldownHours * 60 * 60 * 1000).toISOString();
+    circuit.reason = `${entry.consecutiveFailures} consecutive bad runs (last: ${record.outcome}${record.error ? `, ${record.error}` : ""})`;
+    logger.warn(`🔌 ${source}: circuit opened, skipping it for ${cooldownHours}h`, { reason: circuit.reason });
+  } else if (!isBadOutcome(record.outcome) && circuit.state !== "closed") {
+    logger.info(`🔌 ${source}: trial scrape succeeded, circuit closed`);
+    entry.circuit = { state: "closed", trips: 0 };
+  }
+
+  if (isDegraded(entry)) {
+    entry.degradedSince ??= now;
+  } else {
+    delete entry.degradedSince;
+  }
+
+  saveSourceHealth();
+}
+
+/**
+ * Closes a source's circuit and clears its failure streak (e.g. after fixing its selectors)
+ * @returns false if the source has no health record
+ */
+export function resetSourceCircuit(source: string): boolean {
+  const entry = getHealthFile().sources[source];
+  if (!entry) return false;
+  entry.circuit = { state: "closed", trips: 0 };
+  entry.consecutiveFailures = 0;
+  delete entry.degradedSince;
+  saveSourceHealth();
+  return true;
+}
+
+/**
+ * Health summary of every recorded source, broken and degraded ones first
+ */
+export function getSourceHealthReport(): SourceHealthSummary[] {
+  const rank = { broken: 0, degraded: 1, healthy: 2 };
+
+  return Object.values(getHealthFile().sources)
+    .map((entry): SourceHealthSummary => {
+      const lastRun = entry.runs[entry.runs.length - 1];
+      const status =
+        entry.circuit.state !== "closed" ? "broken" : isDegraded(entry) ? "degraded" : "healthy";
+      return {
+        source: entry.source,
+        status,
+        successRate: successRate(entry.runs),
+        runs: entry.runs.length,
+        consecutiveFailures: entry.consecutiveFailures,
+        zeroItemRuns: entry.runs.filter((run) => run.outcome === "empty").length,
+        lastOutcome: lastRun?.outcome,
+        lastError: [...entry.runs].reverse().find((run) => run.error)?.error,
+        lastSuccessAt: entry.lastSuccessAt,
+        degradedSince: entry.degradedSince,
+        circuit: entry.circuit.state,
+        retryAt: entry.circuit.state === "open" ? entry.circuit.retryAt : undefined,
+      };
+    })
+    .sort((a, b) => rank[a.status] - rank[b.status] || a.source.localeCompare(b.source));
+}
@@ -0,0 +1,24 @@
+/**
+ * Source Health - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { SOURCE_HEALTH_ENABLED } from "./config";
+export type {
+  SourceRunOutcome,
+  CircuitState,
+  SourceRunRecord,
+  SourceCircuit,
+  SourceHealth,
+  SourceHealthFile,
+  SourceHealthSummary,
+} from "./types";
+export {
+  loadSourceHealth,
+  classifySourceRun,
+  isSourceCircuitOpen,
+  recordSourceRun,
+  resetSourceCircuit,
+  getSourceHealthReport,
+} from "./health";
@@ -0,0 +1,73 @@
+/**
+ * Type definitions for source health tracking
+ */
+
+/**
+ * How a single scrape of a source went
+ * - ok: every attempted article scraped
+ * - partial: some articles failed
+ * - empty: the listing returned no items (a typical sign of changed markup)
+ * - failed: the listing failed, or every attempted article failed
+ */
+export type SourceRunOutcome = "ok" | "partial" | "empty" | "failed";
+
+/**
+ * closed: source runs normally
+ * open: source is skipped until retryAt
+ * half-open: cool-down is over, the next run is a trial
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface SourceRunRecord {
+  runId?: string;
+  at: string;
+  outcome: SourceRunOutcome;
+  itemsFound: number; // Listing items attempted or skipped
+  articlesScraped: number;
+  articlesFailed: number;
+  durationMs: number;
+  error?: string; // Listing error, or the first article error
+}
+
+export interface SourceCircuit {
+  state: CircuitState;
+  openedAt?: string;
+  retryAt?: string;
+  reason?: string;
+  trips: number; // Consecutive times the circuit opened (drives the cool-down backoff)
+}
+
+export interface SourceHealth {
+  source: string;
+  runs: SourceRunRecord[]; // Most recent last, capped at HEALTH_HISTORY_SIZE
+  consecutiveFailures: number; // Consecutive failed / empty runs
+  lastSuccessAt?: string; // Last run that scraped at least one article
+  degradedSince?: string; // Set while the source is degraded
+  circuit: SourceCircuit;
+}
+
+/**
+ * Structure of the health JSON file
+ */
+export interface SourceHealthFile {
+  updatedAt: string;
+  sources: Record<string, SourceHealth>;
+}
+
+/**
+ * One row of the health report
+ */
+export interface SourceHealthSummary {
+  source: string;
+  status: "healthy" | "degraded" | "broken";
+  successRate: number; // Scraped / attempted articles over the kept runs
+  runs: number;
+  consecutiveFailures: number;
+  zeroItemRuns: number;
+  lastOutcome?: SourceRunOutcome;
+  lastError?: string;
+  lastSuccessAt?: string;
+  degradedSince?: string;
+  circuit: CircuitState;
+  retryAt?: string;
+}
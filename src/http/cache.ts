@@ -0,0 +1,140 @@
+/**
+ * On-disk HTTP cache with conditional revalidation
+ *
+ * One JSON file per URL under HTTP_CACHE_DIR holding the body and its
+ * ETag / Last-Modified validators. Within the TTL an entry is served without a
+ * request; after that it is revalidated with If-None-Match / If-Modified-Since
+ * and a 304 serves the stored body again.
+ *
+ * The TTL comes from the request (`cache` option) or from the policy of the
+ * surrounding source step (runWithCachePolicy), so scrapers don't pass it around.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../config/logger";
+import { HTTP_CACHE_DIR, HTTP_CACHE_ENABLED } from "./config";
+
+export interface HttpCachePolicy {
+  // Serve without revalidating while younger than this (0 = always revalidate)
+  ttlMs: number;
+}
+
+export interface HttpCacheEntry {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  // Last time the body was fetched or confirmed unchanged (ISO)
+  storedAt: string;
+}
+
+export interface PruneResult {
+  removed: number;
+  kept: number;
+  bytesFreed: number;
+}
+
+const cachePolicyStore = new AsyncLocalStorage<HttpCachePolicy>();
+
+/**
+ * Runs fn with a default cache policy for every request it makes
+ */
+export function runWithCachePolicy<T>(policy: HttpCachePolicy | undefined, fn: () => Promise<T>): Promise<T> {
+  return policy ? cachePolicyStore.run(policy, fn) : fn();
+}
+
+/**
+ * Cache policy for a request: explicit option first, then the surrounding step's policy
+ */
+export function resolveCachePolicy(explicit?: HttpCachePolicy | false): HttpCachePolicy | undefined {
+  if (!HTTP_CACHE_ENABLED || explicit === false) return undefined;
+  return explicit ?? cachePolicyStore.getStore();
+}
+
+function cacheDir(): string {
+  return path.resolve(process.cwd(), HTTP_CACHE_DIR);
+}
+
+function entryPath(url: string): string {
+  const key = crypto.createHash("sha1").update(url.split("#")[0]).digest("hex");
+  return path.join(cacheDir(), `${key}.json`);
+}
+
+/**
+ * Reads a cached entry, or null if missing/unreadable
+ */
+export function readCacheEntry(url: string): HttpCacheEntry | null {
+  try {
+    const filePath = entryPath(url);
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as HttpCacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether an entry can be served without revalidation
+ */
+export function isCacheEntryFresh(entry: HttpCacheEntry, policy: HttpCachePolicy): boolean {
+  return Date.now() - new Date(entry.storedAt).getTime() < policy.ttlMs;
+}
+
+/**
+ * Conditional request headers for a cached entry
+ */
+export function conditionalHeaders(entry: HttpCacheEntry): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers["If-None-Match"] = entry.etag;
+  if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+  return headers;
+}
+
+/**
+ * Stores (or refreshes) a cache entry. Cache write failures are logged, never thrown.
+ */
+export function writeCacheEntry(entry: Omit<HttpCacheEntry, "storedAt" | "etag" | "lastModified">): void {
+  try {
+    fs.mkdirSync(cacheDir(), { recursive: true });
+    const stored: HttpCacheEntry = {
+      ...entry,
+      etag: entry.headers["etag"],
+      lastModified: entry.headers["last-modified"],
+      storedAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(entryPath(entry.url), JSON.stringify(stored), "utf-8");
+  } catch (error) {
+    logger.warn("Failed to write HTTP cache entry", {
+      url: entry.url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Deletes cache entries older than maxAgeMs (all entries when maxAgeMs is 0)
+ */
+export function pruneHttpCache(maxAgeMs: number): PruneResult {
+  const result: PruneResult = { removed: 0, kept: 0, bytesFreed: 0 };
+  const dir = cacheDir();
+  if (!fs.existsSync(dir)) return result;
+
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    const filePath = path.join(dir, file);
+    const stats = fs.statSync(filePath);
+    if (maxAgeMs > 0 && Date.now() - stats.mtimeMs < maxAgeMs) {
+      result.kept++;
+      continue;
+    }
+    fs.unlinkSync(filePath);
+    result.removed++;
+    result.bytesFreed += stats.size;
+  }
+
+  return result;
+}
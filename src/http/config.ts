@@ -0,0 +1,120 @@
+/**
+ * Configuration for the shared HTTP fetch layer
+ */
+
+/**
+ * Request timeout in milliseconds (connect + response)
+ * Set via HTTP_TIMEOUT_MS environment variable
+ */
+export const HTTP_TIMEOUT_MS = parseInt(process.env.HTTP_TIMEOUT_MS || "15000", 10);
+
+/**
+ * Retries after the first attempt for network errors, timeouts, 429 and 5xx
+ * Set via HTTP_MAX_RETRIES environment variable
+ */
+export const HTTP_MAX_RETRIES = parseInt(process.env.HTTP_MAX_RETRIES || "3", 10);
+
+/**
+ * Exponential backoff: base delay doubles per attempt (plus jitter), capped at the max.
+ * A Retry-After header overrides the computed delay (still capped).
+ */
+export const HTTP_RETRY_BASE_DELAY_MS = parseInt(process.env.HTTP_RETRY_BASE_DELAY_MS || "1000", 10);
+export const HTTP_RETRY_MAX_DELAY_MS = parseInt(process.env.HTTP_RETRY_MAX_DELAY_MS || "30000", 10);
+
+/**
+ * Politeness: requests in flight per host, and minimum gap between request starts to the same host
+ */
+export const HTTP_HOST_CONCURRENCY = parseInt(process.env.HTTP_HOST_CONCURRENCY || "2", 10);
+export const HTTP_HOST_DELAY_MS = parseInt(process.env.HTTP_HOST_DELAY_MS || "500", 10);
+
+/**
+ * Requests in flight across all hosts (0 = no global cap)
+ * Set via HTTP_GLOBAL_CONCURRENCY environment variable
+ */
+export const HTTP_GLOBAL_CONCURRENCY = parseInt(process.env.HTTP_GLOBAL_CONCURRENCY || "8", 10);
+
+/**
+ * Formats a User-Agent string
+ * If given just an email or contact URL, auto-formats it to proper User-Agent format
+ */
+export function formatUserAgent(userAgent?: string): string {
+  if (!userAgent) {
+    return "NewsIngestionBot/1.0 (https://example.com/contact)";
+  }
+
+  // If it's already in the proper format (contains "/" and "("), use as-is
+  if (userAgent.includes("/") && userAgent.includes("(")) {
+    return userAgent;
+  }
+
+  // If it's just an email or contact info, format it properly
+  return `NewsIngestionBot/1.0 (${userAgent})`;
+}
+
+/**
+ * User-Agent sent with every request
+ * Set via HTTP_USER_AGENT (falls back to WIKIMEDIA_USER_AGENT, which used to be Wikimedia-only)
+ */
+export const HTTP_USER_AGENT = formatUserAgent(
+  process.env.HTTP_USER_AGENT || process.env.WIKIMEDIA_USER_AGENT
+);
+
+/**
+ * Optional pool of User-Agents, separated by "|". Each host is assigned one
+ * from the pool on first contact and keeps it, so a host always sees a
+ * consistent UA. Empty = always HTTP_USER_AGENT.
+ * Set via HTTP_USER_AGENT_POOL environment variable
+ */
+export const HTTP_USER_AGENT_POOL = (process.env.HTTP_USER_AGENT_POOL || "")
+  .split("|")
+  .map((ua) => ua.trim())
+  .filter(Boolean)
+  .map(formatUserAgent);
+
+/**
+ * robots.txt compliance switch - set ROBOTS_ENABLED=false to skip robots checks (local debugging only)
+ */
+export const ROBOTS_ENABLED = process.env.ROBOTS_ENABLED !== "false";
+
+/**
+ * How long a fetched robots.txt is trusted, and how long an unreachable one
+ * (5xx / network error, treated as "disallow all") is kept before retrying
+ */
+export const ROBOTS_CACHE_TTL_MS = parseInt(process.env.ROBOTS_CACHE_TTL_MS || "86400000", 10);
+export const ROBOTS_FAILURE_TTL_MS = parseInt(process.env.ROBOTS_FAILURE_TTL_MS || "600000", 10);
+
+/**
+ * Upper bound for a host's crawl-delay (longer delays are capped, with a warning)
+ */
+export const ROBOTS_MAX_CRAWL_DELAY_MS = parseInt(process.env.ROBOTS_MAX_CRAWL_DELAY_MS || "30000", 10);
+
+/**
+ * On-disk HTTP cache (ETag / Last-Modified revalidation) - set HTTP_CACHE_ENABLED=false to disable
+ */
+export const HTTP_CACHE_ENABLED = process.env.HTTP_CACHE_ENABLED !== "false";
+export const HTTP_CACHE_DIR = process.env.HTTP_CACHE_DIR || "http-cache";
+
+/**
+ * Default cache TTLs for sources without their own (see SourceDefinition.cacheTtl)
+ * Listing pages change constantly, so by default they are always revalidated;
+ * article pages are served from cache for a few hours.
+ */
+export const HTTP_CACHE_LISTING_TTL_MS = parseInt(process.env.HTTP_CACHE_LISTING_TTL_MS || "0", 10);
+export const HTTP_CACHE_DETAIL_TTL_MS = parseInt(process.env.HTTP_CACHE_DETAIL_TTL_MS || "21600000", 10);
+
+/**
+ * Entries older than this are removed by `npm run prune-http-cache` (default: 7 days)
+ */
+export const HTTP_CACHE_MAX_AGE_MS = parseInt(process.env.HTTP_CACHE_MAX_AGE_MS || "604800000", 10);
+
+/**
+ * Headless-browser rendering for listing pages that load their stories client-side.
+ * Off by default (plain HTTP); when on, only specs that declare a `render` block are
+ * rendered. Needs the optional Playwright dependency and its browser: npx playwright install chromium
+ */
+export const RENDER_ENABLED = process.env.RENDER_ENABLED === "true";
+
+/**
+ * Navigation + wait-for-selector timeout for a rendered page
+ */
+export const RENDER_TIMEOUT_MS = parseInt(process.env.RENDER_TIMEOUT_MS || "30000", 10);
@@ -0,0 +1,374 @@
+/**
+ * Shared HTTP fetcher
+ *
+ * Every outbound GET from the scrapers and image providers goes through here:
+ * - Timeout on each attempt
+ * - Retries with exponential backoff + jitter on network errors, timeouts, 429 and 5xx
+ * - Retry-After (seconds or HTTP date) honoured, and applied to the whole host
+ * - Per-host concurrency and delay limits, plus a global in-flight cap (see HostLimiter)
+ * - One User-Agent per host
+ * - robots.txt: disallowed URLs are refused (and recorded), crawl-delay is honoured
+ * - On-disk cache with ETag / Last-Modified revalidation (see cache.ts)
+ * - Swappable transport (setHttpTransport) to replay or record fixtures offline
+ * - Abort signal per request or per step (runWithAbortSignal); aborted requests aren't retried
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import axios from "axios";
+import { logger } from "../config/logger";
+import {
+  HTTP_GLOBAL_CONCURRENCY,
+  HTTP_HOST_CONCURRENCY,
+  HTTP_HOST_DELAY_MS,
+  HTTP_MAX_RETRIES,
+  HTTP_RETRY_BASE_DELAY_MS,
+  HTTP_RETRY_MAX_DELAY_MS,
+  HTTP_TIMEOUT_MS,
+  HTTP_USER_AGENT,
+  HTTP_USER_AGENT_POOL,
+  ROBOTS_ENABLED,
+  ROBOTS_MAX_CRAWL_DELAY_MS,
+} from "./config";
+import {
+  conditionalHeaders,
+  isCacheEntryFresh,
+  readCacheEntry,
+  resolveCachePolicy,
+  writeCacheEntry,
+  type HttpCacheEntry,
+} from "./cache";
+import { HostLimiter } from "./hostLimiter";
+import { evaluateRobots, getRobotsPolicy, recordRobotsBlocked, RobotsDisallowedError } from "./robots";
+import type {
+  HttpRequestOptions,
+  HttpResponse,
+  HttpTransport,
+  HttpTransportOptions,
+  HttpTransportResponse,
+} from "./types";
+
+/**
+ * Error for a final non-2xx response (after retries)
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+  readonly url: string;
+
+  constructor(url: string, status: number, statusText: string) {
+    super(`GET ${url} failed with status ${status}${statusText ? ` ${statusText}` : ""}`);
+    this.name = "HttpStatusError";
+    this.status = status;
+    this.url = url;
+  }
+}
+
+/**
+ * Real network transport (axios)
+ */
+export const networkTransport: HttpTransport = async ({ url, headers, timeoutMs, signal }) => {
+  const response = await axios.get<string>(url, {
+    headers,
+    timeout: timeoutMs,
+    signal,
+    responseType: "text",
+    // Parsed by httpGet so that "text" really is text
+    transformResponse: (data) => data,
+    validateStatus: () => true,
+  });
+  return {
+    url: response.request?.res?.responseUrl || url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: normalizeHeaders(response.headers),
+    body: response.data,
+  };
+};
+
+let transport: HttpTransport = networkTransport;
+let offlineTransport = false;
+
+/**
+ * Replaces the network transport (fixture replay / recording); null restores the network
+ */
+export function setHttpTransport(replacement: HttpTransport | null, options: HttpTransportOptions = {}): void {
+  transport = replacement ?? networkTransport;
+  offlineTransport = Boolean(replacement && options.offline);
+}
+
+/**
+ * Whether the installed transport replays fixtures (no network at all)
+ */
+export function isHttpTransportOffline(): boolean {
+  return offlineTransport;
+}
+
+const abortSignalStore = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Runs fn with an abort signal for every request it makes (e.g. a source's
+ * timeout): requests in flight are aborted, later ones fail right away
+ */
+export function runWithAbortSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  return signal ? abortSignalStore.run(signal, fn) : fn();
+}
+
+const hostLimiter = new HostLimiter(HTTP_HOST_CONCURRENCY, HTTP_HOST_DELAY_MS, HTTP_GLOBAL_CONCURRENCY);
+const hostUserAgents = new Map<string, string>();
+
+/**
+ * User-Agent for a host: the configured one, or a sticky pick from the pool
+ */
+function userAgentFor(host: string): string {
+  if (HTTP_USER_AGENT_POOL.length === 0) return HTTP_USER_AGENT;
+
+  let userAgent = hostUserAgents.get(host);
+  if (!userAgent) {
+    userAgent = HTTP_USER_AGENT_POOL[hostUserAgents.size % HTTP_USER_AGENT_POOL.length];
+    hostUserAgents.set(host, userAgent);
+  }
+  return userAgent;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds, or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): base * 2^(attempt-1), with ±25% jitter
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = HTTP_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  const jitter = exponential * (Math.random() * 0.5 - 0.25);
+  return Math.min(Math.round(exponential + jitter), HTTP_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Applies the host's robots.txt to a URL: throws if disallowed, raises the host delay for crawl-delay
+ */
+async function enforceRobots(parsedUrl: URL, displayUrl: string, userAgent: string): Promise<void> {
+  const policy = await getRobotsPolicy(parsedUrl.origin, async (robotsUrl) => {
+    const response = await httpGet(robotsUrl, {
+      respectRobots: false,
+      cache: false,
+      throwOnHttpError: false,
+      maxRetries: 1,
+    });
+    return { status: response.status, body: response.data };
+  });
+  const verdict = evaluateRobots(policy, parsedUrl.toString(), userAgent);
+
+  if (!verdict.allowed) {
+    const rule = verdict.rule ?? "disallow";
+    recordRobotsBlocked(displayUrl, rule);
+    logger.warn(`🤖 robots.txt disallows ${displayUrl}`, { rule });
+    throw new RobotsDisallowedError(displayUrl, rule);
+  }
+
+  if (verdict.crawlDelayMs) {
+    if (verdict.crawlDelayMs > ROBOTS_MAX_CRAWL_DELAY_MS) {
+      logger.warn(`robots.txt crawl-delay for ${parsedUrl.host} capped`, {
+        crawlDelayMs: verdict.crawlDelayMs,
+        maxCrawlDelayMs: ROBOTS_MAX_CRAWL_DELAY_MS,
+      });
+    }
+    hostLimiter.setHostDelay(parsedUrl.host, Math.min(verdict.crawlDelayMs, ROBOTS_MAX_CRAWL_DELAY_MS));
+  }
+}
+
+/**
+ * Builds a response from a cache entry (served fresh, or confirmed by a 304)
+ */
+function cachedResponse<T>(
+  entry: HttpCacheEntry,
+  options: HttpRequestOptions,
+  attempts: number,
+  cache: "hit" | "revalidated"
+): HttpResponse<T> {
+  return {
+    url: entry.url,
+    ok: true,
+    status: entry.status,
+    statusText: "OK",
+    headers: entry.headers,
+    data: (options.responseType === "json" ? JSON.parse(entry.body) : entry.body) as T,
+    attempts,
+    cache,
+  };
+}
+
+/**
+ * Builds the response returned to callers from a transport response
+ */
+function toHttpResponse<T>(
+  url: string,
+  response: HttpTransportResponse,
+  options: HttpRequestOptions,
+  attempts: number,
+  cache: HttpResponse["cache"]
+): HttpResponse<T> {
+  const ok = response.status >= 200 && response.status < 300;
+  return {
+    url: response.url || url,
+    ok,
+    status: response.status,
+    statusText: response.statusText ?? "",
+    headers: response.headers,
+    data: (options.responseType === "json" && ok ? JSON.parse(response.body) : response.body) as T,
+    attempts,
+    cache,
+  };
+}
+
+function normalizeHeaders(headers: unknown): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [name, value] of Object.entries((headers ?? {}) as Record<string, unknown>)) {
+    if (value === undefined || value === null) continue;
+    normalized[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : String(value);
+  }
+  return normalized;
+}
+
+/**
+ * Runs a non-axios page load (headless browser) under the same robots.txt and
+ * per-host limits as httpGet
+ *
+ * @param fn - Receives the User-Agent to send
+ * @throws RobotsDisallowedError if robots.txt disallows the URL
+ */
+export async function withPoliteAccess<T>(url: string, fn: (userAgent: string) => Promise<T>): Promise<T> {
+  const parsedUrl = new URL(url);
+  const host = parsedUrl.host;
+  const userAgent = userAgentFor(host);
+
+  if (ROBOTS_ENABLED) {
+    await enforceRobots(parsedUrl, `${parsedUrl.origin}${parsedUrl.pathname}`, userAgent);
+  }
+
+  await hostLimiter.acquire(host);
+  try {
+    return await fn(userAgent);
+  } finally {
+    hostLimiter.release(host);
+  }
+}
+
+/**
+ * GETs a URL through the shared politeness, retry and timeout policy
+ *
+ * @param url - Absolute http(s) URL
+ * @param options - Per-request overrides
+ * @returns The response (body as text, or parsed JSON with responseType "json")
+ * @throws RobotsDisallowedError if robots.txt disallows the URL,
+ *         HttpStatusError on a final non-2xx response (unless throwOnHttpError is false),
+ *         or the last network/timeout error once retries are exhausted
+ */
+export async function httpGet<T = string>(
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<HttpResponse<T>> {
+  const parsedUrl = new URL(url);
+  const host = parsedUrl.host;
+  // Query strings can carry API keys (Pixabay), so they stay out of logs and errors
+  const displayUrl = `${parsedUrl.origin}${parsedUrl.pathname}`;
+  const maxRetries = Math.max(0, options.maxRetries ?? HTTP_MAX_RETRIES);
+  const timeoutMs = options.timeoutMs ?? HTTP_TIMEOUT_MS;
+  const headers: Record<string, string> = { "User-Agent": userAgentFor(host), ...options.headers };
+  const signal = options.signal ?? abortSignalStore.getStore();
+  signal?.throwIfAborted();
+
+  if (offlineTransport) {
+    const response = await transport({ url, headers, timeoutMs, signal });
+    const result = toHttpResponse<T>(url, response, options, 1, undefined);
+    if (!result.ok && options.throwOnHttpError !== false) {
+      throw new HttpStatusError(displayUrl, response.status, response.statusText ?? "");
+    }
+    return result;
+  }
+
+  if (ROBOTS_ENABLED && options.respectRobots !== false) {
+    await enforceRobots(parsedUrl, displayUrl, headers["User-Agent"]);
+  }
+
+  const cachePolicy = resolveCachePolicy(options.cache);
+  const cachedEntry = cachePolicy ? readCacheEntry(url) : null;
+  if (cachedEntry && cachePolicy) {
+    if (isCacheEntryFresh(cachedEntry, cachePolicy)) {
+      return cachedResponse<T>(cachedEntry, options, 0, "hit");
+    }
+    Object.assign(headers, conditionalHeaders(cachedEntry));
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    let retryReason: string;
+    let retryAfterMs: number | undefined;
+
+    await hostLimiter.acquire(host);
+    try {
+      // Aborted while waiting for the host
+      signal?.throwIfAborted();
+      const response = await transport({ url, headers, timeoutMs, signal });
+
+      if (response.status === 304 && cachedEntry) {
+        // Unchanged: keep the stored body and restart its TTL
+        writeCacheEntry({ ...cachedEntry, headers: { ...cachedEntry.headers, ...response.headers } });
+        return cachedResponse<T>(cachedEntry, options, attempt, "revalidated");
+      }
+
+      const result = toHttpResponse<T>(url, response, options, attempt, cachePolicy ? "miss" : undefined);
+
+      if (result.ok) {
+        if (cachePolicy) {
+          writeCacheEntry({ url, status: response.status, headers: result.headers, body: response.body });
+        }
+        return result;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt > maxRetries) {
+        if (options.throwOnHttpError === false) return result;
+        throw new HttpStatusError(displayUrl, response.status, response.statusText ?? "");
+      }
+
+      retryReason = `status ${response.status}`;
+      retryAfterMs = parseRetryAfter(result.headers["retry-after"]);
+    } catch (error) {
+      // Our own status errors, bad JSON and aborts are final; only transport errors are retried
+      if (!axios.isAxiosError(error) || axios.isCancel(error) || signal?.aborted || attempt > maxRetries) throw error;
+      retryReason = error.code === "ECONNABORTED" ? `timeout after ${timeoutMs}ms` : error.message;
+    } finally {
+      hostLimiter.release(host);
+    }
+
+    const delayMs = Math.min(retryAfterMs ?? backoffDelay(attempt), HTTP_RETRY_MAX_DELAY_MS);
+    if (retryAfterMs !== undefined) {
+      // The host asked us to back off: hold every request to it, not just this one
+      hostLimiter.defer(host, delayMs);
+    }
+
+    logger.warn(`HTTP retry ${attempt}/${maxRetries} for ${displayUrl} in ${delayMs}ms`, {
+      reason: retryReason,
+    });
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    signal?.throwIfAborted();
+  }
+}
+
+/**
+ * GETs a page or document and returns its body as text
+ */
+export async function fetchText(url: string, options: Omit<HttpRequestOptions, "responseType"> = {}): Promise<string> {
+  const response = await httpGet<string>(url, { ...options, responseType: "text" });
+  return response.data;
+}
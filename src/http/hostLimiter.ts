@@ -0,0 +1,98 @@
+/**
+ * Per-host politeness limiter
+ *
+ * Caps the number of requests in flight to each host and enforces a minimum
+ * gap between request starts to the same host. Different hosts only wait on
+ * each other through the optional global cap on requests in flight.
+ */
+
+interface HostState {
+  active: number;
+  // Host-specific gap (e.g. robots.txt crawl-delay), never below the default
+  minDelayMs: number;
+  nextStartAt: number;
+  waiting: Array<() => void>;
+}
+
+export class HostLimiter {
+  private readonly hosts = new Map<string, HostState>();
+  private readonly concurrency: number;
+  private readonly minDelayMs: number;
+  private readonly globalConcurrency: number;
+  private globalActive = 0;
+  private readonly globalWaiting: Array<() => void> = [];
+
+  /**
+   * @param concurrency - Maximum requests in flight per host
+   * @param minDelayMs - Minimum time between request starts to the same host
+   * @param globalConcurrency - Maximum requests in flight across all hosts (0 = no cap)
+   */
+  constructor(concurrency: number, minDelayMs: number, globalConcurrency = 0) {
+    this.concurrency = Math.max(1, concurrency);
+    this.minDelayMs = Math.max(0, minDelayMs);
+    this.globalConcurrency = globalConcurrency > 0 ? globalConcurrency : Infinity;
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, minDelayMs: this.minDelayMs, nextStartAt: 0, waiting: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Waits for a free slot on the host and for its delay window
+   * Call release() when the request is done
+   */
+  async acquire(host: string): Promise<void> {
+    const state = this.getState(host);
+
+    while (state.active >= this.concurrency) {
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+    state.active += 1;
+
+    const now = Date.now();
+    const waitTime = state.nextStartAt - now;
+    state.nextStartAt = Math.max(now, state.nextStartAt) + state.minDelayMs;
+
+    if (waitTime > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitTime));
+    }
+
+    // Global slot last, so it is never held while waiting on a host
+    while (this.globalActive >= this.globalConcurrency) {
+      await new Promise<void>((resolve) => this.globalWaiting.push(resolve));
+    }
+    this.globalActive += 1;
+  }
+
+  /**
+   * Frees a slot taken by acquire()
+   */
+  release(host: string): void {
+    const state = this.getState(host);
+    state.active = Math.max(0, state.active - 1);
+    this.globalActive = Math.max(0, this.globalActive - 1);
+    state.waiting.shift()?.();
+    this.globalWaiting.shift()?.();
+  }
+
+  /**
+   * Raises the minimum gap between request starts for one host
+   */
+  setHostDelay(host: string, delayMs: number): void {
+    const state = this.getState(host);
+    state.minDelayMs = Math.max(this.minDelayMs, delayMs);
+  }
+
+  /**
+   * Holds back every request to the host for a while (e.g. after a 429 with Retry-After)
+   */
+  defer(host: string, delayMs: number): void {
+    const state = this.getState(host);
+    state.nextStartAt = Math.max(state.nextStartAt, Date.now() + delayMs);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Shared HTTP fetch layer - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export type {
+  HttpRequestOptions,
+  HttpResponse,
+  HttpTransport,
+  HttpTransportRequest,
+  HttpTransportResponse,
+  HttpTransportOptions,
+  RenderSpec,
+} from "./types";
+export type { HttpCachePolicy, HttpCacheEntry, PruneResult } from "./cache";
+export type { RobotsPolicy, RobotsVerdict, RobotsBlockedRecord } from "./robots";
+export {
+  httpGet,
+  fetchText,
+  parseRetryAfter,
+  HttpStatusError,
+  networkTransport,
+  setHttpTransport,
+  isHttpTransportOffline,
+  withPoliteAccess,
+  runWithAbortSignal,
+} from "./fetcher";
+export { renderPage, closeRenderer, setRenderedPageListener, RenderUnavailableError } from "./render";
+export { HostLimiter } from "./hostLimiter";
+export {
+  parseRobotsTxt,
+  evaluateRobots,
+  getRobotsBlockedUrls,
+  resetRobotsBlockedUrls,
+  RobotsDisallowedError,
+} from "./robots";
+export { runWithCachePolicy, pruneHttpCache } from "./cache";
+export {
+  HTTP_USER_AGENT,
+  HTTP_CACHE_LISTING_TTL_MS,
+  HTTP_CACHE_DETAIL_TTL_MS,
+  HTTP_CACHE_MAX_AGE_MS,
+  RENDER_ENABLED,
+  formatUserAgent,
+} from "./config";
@@ -0,0 +1,117 @@
+/**
+ * Headless-browser rendering backend
+ *
+ * Loads a page in headless Chromium (Playwright), waits for a selector and
+ * returns the rendered DOM as HTML, so the usual cheerio extraction can run on
+ * story lists that only exist after client-side loading. Playwright is an
+ * optional dependency, loaded on first use; its browser is a separate
+ * download (npx playwright install chromium). One browser is shared by all
+ * renders of the process. Pages go through the same robots.txt and per-host
+ * limits as plain HTTP requests.
+ */
+
+import { logger } from "../config/logger";
+import { RENDER_TIMEOUT_MS } from "./config";
+import { httpGet, isHttpTransportOffline, withPoliteAccess } from "./fetcher";
+import type { RenderSpec } from "./types";
+import type { Browser } from "playwright";
+
+let browserPromise: Promise<Browser> | null = null;
+let renderedPageListener: ((url: string, html: string) => void) | null = null;
+
+/**
+ * Error when the rendering backend is unavailable (Playwright or its browser not installed)
+ */
+export class RenderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderUnavailableError";
+  }
+}
+
+// Required lazily: Playwright is an optional dependency and the type import above is erased at build time
+/**
+ * Reports every page rendered over the network to `listener` (fixture
+ * recording: rendered pages bypass the HTTP transport); null stops reporting
+ */
+export function setRenderedPageListener(listener: ((url: string, html: string) => void) | null): void {
+  renderedPageListener = listener;
+}
+
+function loadPlaywright(): typeof import("playwright") {
+  try {
+    return require("playwright") as typeof import("playwright");
+  } catch {
+    throw new RenderUnavailableError(
+      "Rendering needs Playwright and its browser: npm install playwright && npx playwright install chromium"
+    );
+  }
+}
+
+function getBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    browserPromise = loadPlaywright()
+      .chromium.launch({ headless: true })
+      .catch((error: unknown) => {
+        browserPromise = null;
+        throw new RenderUnavailableError(
+          `Could not launch headless Chromium (install it with: npx playwright install chromium): ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      });
+  }
+  return browserPromise;
+}
+
+/**
+ * Renders a page and returns its DOM once `spec.waitForSelector` matches
+ *
+ * With an offline (fixture) transport the saved HTML is returned instead,
+ * so replays never need a browser.
+ *
+ * @throws RenderUnavailableError if Playwright or Chromium is missing,
+ *         RobotsDisallowedError if robots.txt disallows the URL,
+ *         or Playwright's timeout error if the selector never shows up
+ */
+export async function renderPage(url: string, spec: RenderSpec): Promise<string> {
+  if (isHttpTransportOffline()) {
+    return (await httpGet(url)).data;
+  }
+
+  const timeoutMs = spec.timeoutMs ?? RENDER_TIMEOUT_MS;
+  const browser = await getBrowser();
+
+  const html = await withPoliteAccess(url, async (userAgent) => {
+    const context = await browser.newContext({ userAgent });
+    try {
+      const page = await context.newPage();
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: timeoutMs });
+      if (spec.scrollToBottom) {
+        await page.evaluate("window.scrollTo(0, document.body.scrollHeight)");
+      }
+      await page.waitForSelector(spec.waitForSelector, { timeout: timeoutMs });
+      return await page.content();
+    } finally {
+      await context.close();
+    }
+  });
+  renderedPageListener?.(url, html);
+  return html;
+}
+
+/**
+ * Closes the shared browser (end of a run / script)
+ */
+export async function closeRenderer(): Promise<void> {
+  if (!browserPromise) return;
+  const pending = browserPromise;
+  browserPromise = null;
+  try {
+    await (await pending).close();
+  } catch (error) {
+    logger.warn("Failed to close headless browser", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * robots.txt policy
+ *
+ * Parses robots.txt (RFC 9309: user-agent groups, allow/disallow with * and $,
+ * longest match wins, allow wins ties) plus the non-standard crawl-delay, and
+ * caches one policy per origin. Disallowed URLs are recorded so the run can
+ * report what was skipped.
+ */
+
+import { ROBOTS_CACHE_TTL_MS, ROBOTS_FAILURE_TTL_MS } from "./config";
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface RobotsPolicy {
+  groups: RobotsGroup[];
+  // Set when robots.txt could not be fetched (5xx / network): everything is disallowed
+  unreachable?: boolean;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  // The matching rule ("disallow: /video/"), or why the URL was refused
+  rule?: string;
+  crawlDelayMs?: number;
+}
+
+export interface RobotsBlockedRecord {
+  url: string;
+  rule: string;
+  blockedAt: string;
+}
+
+/**
+ * Thrown by the shared fetcher for a URL that robots.txt disallows for our UA
+ */
+export class RobotsDisallowedError extends Error {
+  readonly url: string;
+  readonly rule: string;
+
+  constructor(url: string, rule: string) {
+    super(`Blocked by robots.txt (${rule}): ${url}`);
+    this.name = "RobotsDisallowedError";
+    this.url = url;
+    this.rule = rule;
+  }
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parses a robots.txt file into user-agent groups
+ */
+export function parseRobotsTxt(text: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive user-agent lines share one group
+  let collectingAgents = false;
+
+  for (const rawLine of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue; // Rules before any user-agent line are ignored
+
+    if (field === "allow" || field === "disallow") {
+      // An empty disallow means "allow everything" and adds no rule
+      if (!value) continue;
+      current.rules.push({ allow: field === "allow", pattern: value, regex: patternToRegex(value) });
+    } else if (field === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelaySeconds = seconds;
+    }
+  }
+
+  return { groups };
+}
+
+/**
+ * Product token used for group matching, e.g. "newsingestionbot" for
+ * "NewsIngestionBot/1.0 (https://example.com/contact)"
+ */
+export function userAgentToken(userAgent: string): string {
+  const compatible = userAgent.match(/compatible;\s*([^/;\s)]+)/i);
+  return (compatible ? compatible[1] : userAgent.split(/[/\s]/)[0]).toLowerCase();
+}
+
+/**
+ * Evaluates a URL against a policy for the given user agent
+ */
+export function evaluateRobots(policy: RobotsPolicy, url: string, userAgent: string): RobotsVerdict {
+  if (policy.unreachable) {
+    return { allowed: false, rule: "robots.txt unreachable" };
+  }
+
+  const token = userAgentToken(userAgent);
+  // Groups naming our product token exactly (case-insensitive, RFC 9309) win
+  // over "*"; several matching groups are merged
+  let groups = policy.groups.filter((group) =>
+    group.agents.some((agent) => agent !== "*" && agent.split(/[/\s]/)[0] === token)
+  );
+  if (groups.length === 0) {
+    groups = policy.groups.filter((group) => group.agents.includes("*"));
+  }
+
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+
+  let match: RobotsRule | undefined;
+  for (const rule of groups.flatMap((group) => group.rules)) {
+    if (!rule.regex.test(target)) continue;
+    if (
+      !match ||
+      rule.pattern.length > match.pattern.length ||
+      (rule.pattern.length === match.pattern.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  const crawlDelays = groups
+    .map((group) => group.crawlDelaySeconds)
+    .filter((seconds): seconds is number => seconds !== undefined);
+
+  return {
+    allowed: !match || match.allow,
+    rule: match ? `${match.allow ? "allow" : "disallow"}: ${match.pattern}` : undefined,
+    crawlDelayMs: crawlDelays.length ? Math.max(...crawlDelays) * 1000 : undefined,
+  };
+}
+
+const policyCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+const pendingPolicies = new Map<string, Promise<RobotsPolicy>>();
+
+/**
+ * Cached robots policy for an origin
+ *
+ * @param origin - e.g. "https://www.cbsnews.com"
+ * @param loadRobotsTxt - Fetches robots.txt: returns its status and body, throws on network errors
+ */
+export async function getRobotsPolicy(
+  origin: string,
+  loadRobotsTxt: (robotsUrl: string) => Promise<{ status: number; body: string }>
+): Promise<RobotsPolicy> {
+  const cached = policyCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  // Concurrent requests to a new host share one robots.txt fetch
+  let pending = pendingPolicies.get(origin);
+  if (!pending) {
+    pending = (async () => {
+      let policy: RobotsPolicy;
+      let ttl = ROBOTS_CACHE_TTL_MS;
+      try {
+        const { status, body } = await loadRobotsTxt(`${origin}/robots.txt`);
+        if (status >= 200 && status < 300) {
+          policy = parseRobotsTxt(body);
+        } else if (status >= 400 && status < 500) {
+          // No robots.txt (or not readable by anyone): no restrictions
+          policy = { groups: [] };
+        } else {
+          policy = { groups: [], unreachable: true };
+          ttl = ROBOTS_FAILURE_TTL_MS;
+        }
+      } catch {
+        policy = { groups: [], unreachable: true };
+        ttl = ROBOTS_FAILURE_TTL_MS;
+      }
+      policyCache.set(origin, { policy, expiresAt: Date.now() + ttl });
+      return policy;
+    })().finally(() => pendingPolicies.delete(origin));
+    pendingPolicies.set(origin, pending);
+  }
+  return pending;
+}
+
+const blockedRecords: RobotsBlockedRecord[] = [];
+
+/**
+ * Records a URL refused because of robots.txt
+ */
+export function recordRobotsBlocked(url: string, rule: string): void {
+  blockedRecords.push({ url, rule, blockedAt: new Date().toISOString() });
+}
+
+/**
+ * URLs refused because of robots.txt since the last reset
+ */
+export function getRobotsBlockedUrls(): RobotsBlockedRecord[] {
+  return [...blockedRecords];
+}
+
+/**
+ * Clears the blocked URL log (call at the start of a run)
+ */
+export function resetRobotsBlockedUrls(): void {
+  blockedRecords.length = 0;
+}
@@ -0,0 +1,81 @@
+/**
+ * Type definitions for the shared HTTP fetch layer
+ */
+
+import type { HttpCachePolicy } from "./cache";
+
+export interface HttpRequestOptions {
+  // Extra request headers (a "User-Agent" here overrides the shared one)
+  headers?: Record<string, string>;
+  // "text" (default) returns the raw body, "json" parses it
+  responseType?: "text" | "json";
+  // Overrides HTTP_TIMEOUT_MS
+  timeoutMs?: number;
+  // Overrides HTTP_MAX_RETRIES (0 = single attempt)
+  maxRetries?: number;
+  // Set to false for documented APIs (image providers); pages and feeds always check robots.txt
+  respectRobots?: boolean;
+  // Overrides the surrounding cache policy (false = never cache this request)
+  cache?: HttpCachePolicy | false;
+  // When false, a final non-2xx response is returned instead of thrown (default true)
+  throwOnHttpError?: boolean;
+  // Aborts the request (and its retries); defaults to the surrounding step's signal
+  signal?: AbortSignal;
+}
+
+export interface HttpResponse<T = string> {
+  // Final URL after redirects
+  url: string;
+  // 2xx status
+  ok: boolean;
+  status: number;
+  statusText: string;
+  // Lower-cased header names
+  headers: Record<string, string>;
+  data: T;
+  // Attempts made (1 = no retries, 0 = served from cache without a request)
+  attempts: number;
+  // Cache outcome when a cache policy applied
+  cache?: "hit" | "revalidated" | "miss";
+}
+
+/**
+ * A single GET as seen by the transport (after robots, cache and limiter checks)
+ */
+export interface HttpTransportRequest {
+  url: string;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+export interface HttpTransportResponse {
+  // Final URL after redirects (defaults to the request URL)
+  url?: string;
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Performs the actual network GET; swapped out to replay or record fixtures
+ */
+export type HttpTransport = (request: HttpTransportRequest) => Promise<HttpTransportResponse>;
+
+export interface HttpTransportOptions {
+  // Skip robots.txt, the on-disk cache, host limits and retries (replaying local fixtures)
+  offline?: boolean;
+}
+
+/**
+ * How to render a page in the headless browser
+ */
+export interface RenderSpec {
+  // The DOM is handed over once this selector matches (e.g. the story list items)
+  waitForSelector: string;
+  // Overrides RENDER_TIMEOUT_MS
+  timeoutMs?: number;
+  // Scroll to the bottom before waiting, for lists that load on scroll
+  scrollToBottom?: boolean;
+}
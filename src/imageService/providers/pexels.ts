@@ -3,6 +3,7 @@
  */
 
 import { logger } from "../../config/logger";
+import { httpGet } from "../../http";
 import { ImageResult } from "../types";
 
 const PEXELS_BASE_URL = "https://api.pexels.com/v1/search";
@@ -40,14 +41,17 @@ export async function searchPexels(
     url.searchParams.set("query", query);
     url.searchParams.set("per_page", String(perPage));
 
-    const res = await fetch(url.toString(), {
+    const res = await httpGet<unknown>(url.toString(), {
       headers: {
         Authorization: PEXELS_API_KEY,
       },
+      responseType: "json",
+      respectRobots: false,
+      throwOnHttpError: false,
     });
 
     if (!res.ok) {
-      const errorText = await res.text();
+      const errorText = String(res.data);
       logger.error("Pexels API error:", {
         status: res.status,
         statusText: res.statusText,
@@ -56,7 +60,7 @@ export async function searchPexels(
       return null;
     }
 
-    const data = (await res.json()) as {
+    const data = res.data as {
       photos?: Array<{
         src: {
           original: string;
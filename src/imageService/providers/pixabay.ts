@@ -3,6 +3,7 @@
  */
 
 import { logger } from "../../config/logger";
+import { httpGet } from "../../http";
 import { ImageResult } from "../types";
 
 const PIXABAY_BASE_URL = "https://pixabay.com/api/";
@@ -43,10 +44,10 @@ export async function searchPixabay(
     url.searchParams.set("per_page", String(perPage));
     url.searchParams.set("safesearch", "true");
 
-    const res = await fetch(url.toString());
+    const res = await httpGet<unknown>(url.toString(), { responseType: "json", respectRobots: false, throwOnHttpError: false });
 
     if (!res.ok) {
-      const errorText = await res.text();
+      const errorText = String(res.data);
       logger.error("Pixabay API error:", {
         status: res.status,
         statusText: res.statusText,
@@ -55,7 +56,7 @@ export async function searchPixabay(
       return null;
     }
 
-    const data = (await res.json()) as {
+    const data = res.data as {
       hits?: Array<{
         largeImageURL: string;
         webformatURL: string;
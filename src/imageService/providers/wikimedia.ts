@@ -6,6 +6,7 @@
  */
 
 import { logger } from "../../config/logger";
+import { formatUserAgent, httpGet, HTTP_USER_AGENT } from "../../http";
 import { ImageResult } from "../types";
 import {
   selectBestCommonsImage,
@@ -15,24 +16,6 @@ import {
 
 const WIKIMEDIA_API_URL = "https://commons.wikimedia.org/w/api.php";
 
-/**
- * Formats User-Agent string for Wikimedia API
- * If user provides just an email, auto-formats it to proper User-Agent format
- */
-function formatUserAgent(userAgent?: string): string {
-  if (!userAgent) {
-    return "NewsIngestionBot/1.0 (https://example.com/contact)";
-  }
-  
-  // If it's already in the proper format (contains "/" and "("), use as-is
-  if (userAgent.includes("/") && userAgent.includes("(")) {
-    return userAgent;
-  }
-  
-  // If it's just an email or contact info, format it properly
-  return `NewsIngestionBot/1.0 (${userAgent})`;
-}
-
 /**
  * Strips HTML tags from a string and decodes HTML entities
  * Extracts text content from links (preferring link text over title attribute)
@@ -69,8 +52,10 @@ function stripHtmlTags(html?: string): string | undefined {
   return text || undefined;
 }
 
-// User-Agent is required by Wikimedia API
-const USER_AGENT = formatUserAgent(process.env.WIKIMEDIA_USER_AGENT);
+// User-Agent is required by Wikimedia API (WIKIMEDIA_USER_AGENT overrides the shared one)
+const USER_AGENT = process.env.WIKIMEDIA_USER_AGENT
+  ? formatUserAgent(process.env.WIKIMEDIA_USER_AGENT)
+  : HTTP_USER_AGENT;
 
 export interface WikimediaSearchOptions {
   perPage?: number;
@@ -99,10 +84,13 @@ async function fetchCandidatesMetadata(fileTitles: string[]): Promise<CommonsCan
     url.searchParams.set("format", "json");
     url.searchParams.set("origin", "*");
 
-    const res = await fetch(url.toString(), {
+    const res = await httpGet<unknown>(url.toString(), {
       headers: {
         "User-Agent": USER_AGENT,
       },
+      responseType: "json",
+      respectRobots: false,
+      throwOnHttpError: false,
     });
 
     if (!res.ok) {
@@ -113,7 +101,7 @@ async function fetchCandidatesMetadata(fileTitles: string[]): Promise<CommonsCan
       return [];
     }
 
-    const data = (await res.json()) as {
+    const data = res.data as {
       query?: {
         pages?: {
           [pageId: string]: {
@@ -204,10 +192,13 @@ async function fetchImageMetadata(fileName: string): Promise<{
     url.searchParams.set("format", "json");
     url.searchParams.set("origin", "*");
 
-    const res = await fetch(url.toString(), {
+    const res = await httpGet<unknown>(url.toString(), {
       headers: {
         "User-Agent": USER_AGENT,
       },
+      responseType: "json",
+      respectRobots: false,
+      throwOnHttpError: false,
     });
 
     if (!res.ok) {
@@ -218,7 +209,7 @@ async function fetchImageMetadata(fileName: string): Promise<{
       return null;
     }
 
-    const data = (await res.json()) as {
+    const data = res.data as {
       query?: {
         pages?: {
           [pageId: string]: {
@@ -306,10 +297,13 @@ async function getFilesFromCategory(
     url.searchParams.set("format", "json");
     url.searchParams.set("origin", "*");
 
-    const res = await fetch(url.toString(), {
+    const res = await httpGet<unknown>(url.toString(), {
       headers: {
         "User-Agent": USER_AGENT,
       },
+      responseType: "json",
+      respectRobots: false,
+      throwOnHttpError: false,
     });
 
     if (!res.ok) {
@@ -320,7 +314,7 @@ async function getFilesFromCategory(
       return [];
     }
 
-    const data = (await res.json()) as {
+    const data = res.data as {
       query?: {
         categorymembers?: Array<{
           title?: string;
@@ -394,14 +388,17 @@ export async function searchWikimedia(
     searchUrl.searchParams.set("format", "json");
     searchUrl.searchParams.set("origin", "*");
 
-    const searchRes = await fetch(searchUrl.toString(), {
+    const searchRes = await httpGet<unknown>(searchUrl.toString(), {
       headers: {
         "User-Agent": USER_AGENT,
       },
+      responseType: "json",
+      respectRobots: false,
+      throwOnHttpError: false,
     });
 
     if (!searchRes.ok) {
-      const errorText = await searchRes.text();
+      const errorText = String(searchRes.data);
       logger.error("Wikimedia Commons Search API error:", {
         status: searchRes.status,
         statusText: searchRes.statusText,
@@ -410,7 +407,7 @@ export async function searchWikimedia(
       return null;
     }
 
-    const searchData = (await searchRes.json()) as {
+    const searchData = searchRes.data as {
       query?: {
         search?: Array<{
           title?: string;
@@ -443,14 +440,17 @@ export async function searchWikimedia(
       broadSearchUrl.searchParams.set("format", "json");
       broadSearchUrl.searchParams.set("origin", "*");
 
-      const broadSearchRes = await fetch(broadSearchUrl.toString(), {
+      const broadSearchRes = await httpGet<unknown>(broadSearchUrl.toString(), {
         headers: {
           "User-Agent": USER_AGENT,
         },
+        responseType: "json",
+        respectRobots: false,
+        throwOnHttpError: false,
       });
 
       if (broadSearchRes.ok) {
-        const broadData = (await broadSearchRes.json()) as {
+        const broadData = broadSearchRes.data as {
           query?: {
             search?: Array<{
               title?: string;
@@ -0,0 +1,48 @@
+/**
+ * Configuration for article language detection
+ */
+
+import { logger } from "../config/logger";
+import type { LanguagePolicy } from "./types";
+
+const LANGUAGE_POLICIES: readonly LanguagePolicy[] = ["skip", "passThrough", "translate"];
+
+function parseLanguagePolicy(value: string | undefined): LanguagePolicy {
+  if (!value) return "skip";
+  const policy = LANGUAGE_POLICIES.find((candidate) => candidate === value);
+  if (!policy) {
+    logger.warn(`⚠️  Unknown LANGUAGE_POLICY_DEFAULT "${value}" (expected ${LANGUAGE_POLICIES.join(", ")}), using "skip"`);
+    return "skip";
+  }
+  return policy;
+}
+
+/**
+ * Language detection switch - set LANGUAGE_DETECTION_ENABLED=false to trust the page's declared language only
+ */
+export const LANGUAGE_DETECTION_ENABLED = process.env.LANGUAGE_DETECTION_ENABLED !== "false";
+
+/**
+ * Language the site publishes in (ISO 639-1, default: "en")
+ */
+export const SITE_LANGUAGE = process.env.SITE_LANGUAGE || "en";
+
+/**
+ * Policy for sources without their own (default: "skip")
+ */
+export const LANGUAGE_POLICY_DEFAULT = parseLanguagePolicy(process.env.LANGUAGE_POLICY_DEFAULT);
+
+/**
+ * Fewer function words (the words the detector scores) than this can't be identified reliably (default: 20)
+ */
+export const LANGUAGE_MIN_WORDS = parseInt(process.env.LANGUAGE_MIN_WORDS || "20", 10);
+
+/**
+ * Below this confidence the page's declared language is used instead (default: 0.6)
+ */
+export const LANGUAGE_MIN_CONFIDENCE = parseFloat(process.env.LANGUAGE_MIN_CONFIDENCE || "0.6");
+
+/**
+ * A second language over this share of the body words marks the article as mixed (default: 0.2)
+ */
+export const LANGUAGE_MIXED_SHARE = parseFloat(process.env.LANGUAGE_MIXED_SHARE || "0.2");
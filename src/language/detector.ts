@@ -0,0 +1,141 @@
+/**
+ * Offline language identifier
+ *
+ * Scores text by the function words (articles, pronouns, prepositions...) of
+ * the languages our sources may surface. Words shared by several languages
+ * count fractionally, so closely related languages (Spanish / Portuguese) are
+ * told apart by their distinctive words. Good enough for article bodies; short
+ * snippets come back as "und" (undetermined).
+ */
+
+import type { SourceArticleDetails } from "../sources/registry";
+import { LANGUAGE_MIN_CONFIDENCE, LANGUAGE_MIN_WORDS, LANGUAGE_MIXED_SHARE } from "./config";
+import type { LanguageDetection } from "./types";
+
+export const UNDETERMINED_LANGUAGE = "und";
+
+/**
+ * English names of the supported languages (for prompts and logs)
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+};
+
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: [
+    "the", "and", "of", "to", "is", "in", "that", "it", "was", "for", "with", "on", "as", "his", "he", "she",
+    "they", "have", "has", "had", "be", "are", "were", "this", "said", "by", "at", "from", "but", "not", "which",
+    "would", "will", "their", "been", "a", "an", "or", "who", "we", "you",
+  ],
+  es: [
+    "el", "la", "los", "las", "de", "que", "y", "en", "un", "una", "por", "con", "para", "del", "se", "su", "al",
+    "es", "lo", "como", "más", "pero", "sus", "le", "ya", "fue", "este", "esta", "ha", "también", "muy", "sobre",
+    "entre", "cuando", "dijo", "según", "años", "hay", "a",
+  ],
+  fr: [
+    "le", "la", "les", "des", "de", "et", "est", "un", "une", "du", "en", "que", "qui", "dans", "pour", "pas", "au",
+    "sur", "avec", "ce", "il", "elle", "sont", "par", "plus", "ont", "été", "mais", "aux", "cette", "nous", "vous",
+    "leur", "selon",
+  ],
+  de: [
+    "der", "die", "das", "und", "ist", "nicht", "ein", "eine", "zu", "den", "dem", "mit", "von", "sich", "auf",
+    "für", "im", "auch", "es", "des", "sie", "wird", "wurde", "nach", "bei", "aus", "noch", "oder", "wie", "hat",
+    "sind",
+  ],
+  it: [
+    "il", "lo", "la", "gli", "le", "di", "che", "e", "è", "un", "una", "per", "con", "del", "della", "non", "sono",
+    "nel", "alla", "anche", "ha", "come", "più", "ma", "dei", "delle", "questo", "stato", "essere", "dalla",
+  ],
+  pt: [
+    "o", "a", "os", "as", "de", "que", "e", "do", "da", "em", "um", "uma", "para", "com", "não", "no", "na", "dos",
+    "das", "por", "mais", "se", "foi", "como", "ao", "mas", "ele", "ela", "são", "também", "pelo", "pela", "está",
+  ],
+};
+
+// word -> languages listing it
+const WORD_LANGUAGES = new Map<string, string[]>();
+for (const [language, words] of Object.entries(FUNCTION_WORDS)) {
+  for (const word of words) {
+    WORD_LANGUAGES.set(word, [...(WORD_LANGUAGES.get(word) ?? []), language]);
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/\p{L}+/gu) ?? [];
+}
+
+/**
+ * Best language of a token list with its confidence (best score against best + runner-up)
+ */
+function scoreTokens(tokens: string[]): { language: string; confidence: number } {
+  const scores = new Map<string, number>();
+  for (const token of tokens) {
+    const languages = WORD_LANGUAGES.get(token);
+    if (!languages) continue;
+    for (const language of languages) {
+      scores.set(language, (scores.get(language) ?? 0) + 1 / languages.length);
+    }
+  }
+
+  const [best, second] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best) return { language: UNDETERMINED_LANGUAGE, confidence: 0 };
+  return { language: best[0], confidence: best[1] / (best[1] + (second?.[1] ?? 0)) };
+}
+
+/**
+ * Identifies the language of a text; paragraphs (blank-line separated) are
+ * also scored one by one to spot mixed-language bodies
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const tokens = tokenize(text);
+  // Names, numbers and content words say nothing about the language
+  if (tokens.filter((token) => WORD_LANGUAGES.has(token)).length < LANGUAGE_MIN_WORDS) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0, mixed: false, shares: {} };
+  }
+
+  const overall = scoreTokens(tokens);
+
+  const paragraphWords = new Map<string, number>();
+  let scoredWords = 0;
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const paragraphTokens = tokenize(paragraph);
+    // Captions and datelines are too short to say anything
+    if (paragraphTokens.length < 8) continue;
+    const { language } = scoreTokens(paragraphTokens);
+    if (language === UNDETERMINED_LANGUAGE) continue;
+    paragraphWords.set(language, (paragraphWords.get(language) ?? 0) + paragraphTokens.length);
+    scoredWords += paragraphTokens.length;
+  }
+
+  const shares: Record<string, number> = {};
+  for (const [language, words] of paragraphWords) {
+    shares[language] = Math.round((words / scoredWords) * 100) / 100;
+  }
+  const mixed = Object.entries(shares).some(
+    ([language, share]) => language !== overall.language && share >= LANGUAGE_MIXED_SHARE
+  );
+
+  return {
+    language: overall.language,
+    confidence: Math.round(overall.confidence * 100) / 100,
+    mixed,
+    shares,
+  };
+}
+
+/**
+ * Language of a scraped article from its title, excerpt and body; falls back
+ * to the page's declared language when detection is inconclusive, else "und"
+ */
+export function detectArticleLanguage(details: SourceArticleDetails): LanguageDetection {
+  const detection = detectLanguage([details.title, details.excerpt, details.body].filter(Boolean).join("\n\n"));
+  if (detection.language !== UNDETERMINED_LANGUAGE && detection.confidence >= LANGUAGE_MIN_CONFIDENCE) {
+    return detection;
+  }
+  return { ...detection, language: details.language || UNDETERMINED_LANGUAGE };
+}
@@ -0,0 +1,10 @@
+/**
+ * Language Detection - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { LANGUAGE_DETECTION_ENABLED, SITE_LANGUAGE, LANGUAGE_POLICY_DEFAULT } from "./config";
+export type { LanguagePolicy, LanguageDetection } from "./types";
+export { detectLanguage, detectArticleLanguage, LANGUAGE_NAMES, UNDETERMINED_LANGUAGE } from "./detector";
+export { getLanguagePolicy, resolveLanguageAction } from "./policy";
@@ -0,0 +1,31 @@
+/**
+ * Per-source handling of articles that aren't in the site language
+ */
+
+import type { SourceDefinition, SourceKey } from "../sources/registry";
+import { LANGUAGE_POLICY_DEFAULT, SITE_LANGUAGE } from "./config";
+import { UNDETERMINED_LANGUAGE } from "./detector";
+import type { LanguagePolicy } from "./types";
+
+/**
+ * A source's language policy (its own, else LANGUAGE_POLICY_DEFAULT)
+ */
+export function getLanguagePolicy(source: SourceDefinition<SourceKey>): LanguagePolicy {
+  return source.languagePolicy ?? LANGUAGE_POLICY_DEFAULT;
+}
+
+/**
+ * What to do with an article in `language` under `policy`
+ * @returns "keep" for site-language (or undetermined) articles, "skip", or the
+ *          language the rewrite step should write in
+ */
+export function resolveLanguageAction(
+  language: string | undefined,
+  policy: LanguagePolicy
+): { action: "keep" } | { action: "skip" } | { action: "rewrite"; rewriteLanguage: string } {
+  if (!language || language === UNDETERMINED_LANGUAGE || language === SITE_LANGUAGE) {
+    return { action: "keep" };
+  }
+  if (policy === "skip") return { action: "skip" };
+  return { action: "rewrite", rewriteLanguage: policy === "translate" ? SITE_LANGUAGE : language };
+}
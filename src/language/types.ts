@@ -0,0 +1,18 @@
+/**
+ * Type definitions for article language detection
+ */
+
+/**
+ * What happens to an article that isn't in the site language
+ * - skip: dropped at scrape time (fill mode takes the next listing item)
+ * - passThrough: kept, and rewritten in its own language
+ * - translate: kept, and rewritten in the site language
+ */
+export type LanguagePolicy = "skip" | "passThrough" | "translate";
+
+export interface LanguageDetection {
+  language: string; // ISO 639-1 code, or "und" when the text is too short / unknown
+  confidence: number; // 0-1: share of the language's marker words among all marker words found
+  mixed: boolean; // A second language covers a sizeable share of the paragraphs
+  shares: Record<string, number>; // Share of body words per detected language
+}
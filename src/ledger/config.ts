@@ -0,0 +1,26 @@
+/**
+ * Configuration for the ingestion ledger
+ */
+
+/**
+ * Ledger switch - set LEDGER_ENABLED=false to scrape and publish without cross-run dedup
+ */
+export const LEDGER_ENABLED = process.env.LEDGER_ENABLED !== "false";
+
+/**
+ * Ledger file location (relative to the working directory)
+ */
+export const LEDGER_PATH = process.env.LEDGER_PATH || "ledger/ingestion-ledger.json";
+
+/**
+ * Entries not updated for this many days are dropped (default: 30)
+ * Published entries are kept regardless, so isAlreadyPublished never forgets a
+ * story that a listing still carries after the retention window.
+ */
+export const LEDGER_RETENTION_DAYS = parseInt(process.env.LEDGER_RETENTION_DAYS || "30", 10);
+
+/**
+ * Extra listing items requested per source so skipped (already published)
+ * items can be replaced by the next ones on the homepage
+ */
+export const LEDGER_BACKFILL_LOOKAHEAD = parseInt(process.env.LEDGER_BACKFILL_LOOKAHEAD || "5", 10);
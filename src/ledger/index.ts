@@ -0,0 +1,17 @@
+/**
+ * Ingestion Ledger - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { LEDGER_ENABLED, LEDGER_BACKFILL_LOOKAHEAD } from "./config";
+export type { LedgerStatus, LedgerStage, LedgerEntry, LedgerFile, LedgerUpdate } from "./types";
+export {
+  normalizeLedgerUrl,
+  loadLedger,
+  getLedgerEntry,
+  isAlreadyPublished,
+  recordLedgerStatus,
+  setLedgerFingerprint,
+  getRecentLedgerEntries,
+} from "./ledger";
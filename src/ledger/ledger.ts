@@ -0,0 +1,175 @@
+/**
+ * Persistent ingestion ledger
+ *
+ * Tracks every article URL the pipeline touched and how far it got, so runs that
+ * share sources (run1/run3 both pull apNewsUS) never rewrite and publish the
+ * same story twice. Stored as one JSON file, written through on every update.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../config/logger";
+import { urlIdentityKey } from "../core/canonicalUrl";
+import { LEDGER_ENABLED, LEDGER_PATH, LEDGER_RETENTION_DAYS } from "./config";
+import type { ArticleFingerprint } from "../similarity/types";
+import type { LedgerEntry, LedgerFile, LedgerStatus, LedgerUpdate } from "./types";
+
+let ledger: LedgerFile | null = null;
+
+function ledgerPath(): string {
+  return path.resolve(process.cwd(), LEDGER_PATH);
+}
+
+/**
+ * Normalizes an article URL into its ledger key (see urlIdentityKey)
+ */
+export function normalizeLedgerUrl(url: string): string {
+  return urlIdentityKey(url);
+}
+
+/**
+ * Loads the ledger from disk (fresh read), dropping unpublished entries past retention
+ */
+export function loadLedger(): LedgerFile {
+  const filePath = ledgerPath();
+  let loaded: LedgerFile = { updatedAt: new Date().toISOString(), entries: {} };
+
+  if (fs.existsSync(filePath)) {
+    try {
+      loaded = JSON.parse(fs.readFileSync(filePath, "utf-8")) as LedgerFile;
+    } catch (error) {
+      logger.error("Failed to read ingestion ledger, starting empty", {
+        path: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const cutoff = Date.now() - LEDGER_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const [key, entry] of Object.entries(loaded.entries)) {
+    if (entry.status !== "published" && new Date(entry.updatedAt).getTime() < cutoff) {
+      delete loaded.entries[key];
+    }
+  }
+
+  ledger = loaded;
+  return ledger;
+}
+
+function getLedger(): LedgerFile {
+  return ledger ?? loadLedger();
+}
+
+function saveLedger(): void {
+  const data = getLedger();
+  data.updatedAt = new Date().toISOString();
+  try {
+    const filePath = ledgerPath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), "utf-8");
+  } catch (error) {
+    logger.error("Failed to save ingestion ledger", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Ledger key for a URL: its own key, or the key of the entry listing it as an alias
+ */
+function resolveEntryKey(url: string): string {
+  const key = normalizeLedgerUrl(url);
+  const entries = getLedger().entries;
+  if (entries[key]) return key;
+  return Object.values(entries).find((entry) => entry.aliases?.includes(key))?.url ?? key;
+}
+
+/**
+ * Gets the ledger entry for an article URL (or one of its aliases)
+ */
+export function getLedgerEntry(url: string): LedgerEntry | undefined {
+  return getLedger().entries[resolveEntryKey(url)];
+}
+
+/**
+ * Whether an article URL has already been published to Sanity
+ */
+export function isAlreadyPublished(url: string): boolean {
+  if (!LEDGER_ENABLED) return false;
+  return getLedgerEntry(url)?.status === "published";
+}
+
+/**
+ * Records a status for an article URL (keyed by its canonical URL when known)
+ * A published entry stays published; failures keep the stage and error.
+ * Other URLs of the same article (listing URL, syndicated URL) go in `update.aliases`.
+ */
+export function recordLedgerStatus(url: string, status: LedgerStatus, update: LedgerUpdate = {}): void {
+  if (!LEDGER_ENABLED) return;
+
+  const key = resolveEntryKey(url);
+  const now = new Date().toISOString();
+  const entries = getLedger().entries;
+  const aliases = (update.aliases ?? []).map(normalizeLedgerUrl).filter((alias) => alias !== key);
+
+  // An entry recorded earlier under an alias (before the canonical URL was known) moves to the canonical key
+  if (!entries[key]) {
+    const previousKey = aliases.find((alias) => entries[alias]);
+    if (previousKey) {
+      entries[key] = { ...entries[previousKey], url: key };
+      delete entries[previousKey];
+    }
+  }
+
+  const existing = entries[key];
+
+  if (existing?.status === "published" && status !== "published") {
+    return;
+  }
+
+  const entry: LedgerEntry = existing ?? { url: key, status, attempts: 0, firstSeenAt: now, updatedAt: now };
+  // A re-scrape doesn't reset an article that was already rewritten
+  if (!(status === "scraped" && existing?.status === "rewritten")) {
+    entry.status = status;
+  }
+  entry.updatedAt = now;
+
+  if (status === "scraped") entry.attempts += 1;
+  if (status === "published") entry.publishedAt = now;
+  if (status === "failed") {
+    entry.failedStage = update.stage;
+    entry.error = update.error;
+  } else {
+    delete entry.failedStage;
+    delete entry.error;
+  }
+  if (update.source) entry.source = update.source;
+  if (update.title) entry.title = update.title;
+  if (update.runId) entry.runId = update.runId;
+  if (aliases.length) entry.aliases = [...new Set([...(entry.aliases ?? []), ...aliases])];
+
+  entries[key] = entry;
+  saveLedger();
+}
+
+/**
+ * Stores the near-duplicate fingerprint of an article already in the ledger
+ */
+export function setLedgerFingerprint(url: string, fingerprint: ArticleFingerprint): void {
+  if (!LEDGER_ENABLED) return;
+  const entry = getLedgerEntry(url);
+  if (!entry) return;
+  entry.fingerprint = fingerprint;
+  saveLedger();
+}
+
+/**
+ * Entries with one of the given statuses updated within the last `hours`
+ */
+export function getRecentLedgerEntries(hours: number, statuses: LedgerStatus[]): LedgerEntry[] {
+  if (!LEDGER_ENABLED) return [];
+  const since = Date.now() - hours * 60 * 60 * 1000;
+  return Object.values(getLedger().entries).filter(
+    (entry) => statuses.includes(entry.status) && new Date(entry.updatedAt).getTime() >= since
+  );
+}
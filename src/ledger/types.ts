@@ -0,0 +1,46 @@
+/**
+ * Type definitions for the ingestion ledger
+ */
+
+import type { ArticleFingerprint } from "../similarity/types";
+
+/**
+ * Lifecycle of an article URL across runs
+ * scraped → rewritten → published, or failed at any stage
+ */
+export type LedgerStatus = "scraped" | "rewritten" | "published" | "failed";
+
+export type LedgerStage = "scrape" | "eligibility" | "rewrite" | "publish";
+
+export interface LedgerEntry {
+  url: string; // Normalized canonical URL (the ledger key)
+  aliases?: string[]; // Other normalized URLs of the same article (listing / syndicated URLs)
+  status: LedgerStatus;
+  source?: string; // Source key that produced it
+  title?: string;
+  runId?: string; // Run that last updated the entry
+  failedStage?: LedgerStage;
+  error?: string;
+  attempts: number; // Times the URL was scraped
+  firstSeenAt: string;
+  updatedAt: string;
+  publishedAt?: string; // When it reached Sanity
+  fingerprint?: ArticleFingerprint; // Set when the article is sent to ChatGPT, for cross-run clustering
+}
+
+/**
+ * Structure of the ledger JSON file
+ */
+export interface LedgerFile {
+  updatedAt: string;
+  entries: Record<string, LedgerEntry>;
+}
+
+export interface LedgerUpdate {
+  source?: string;
+  title?: string;
+  runId?: string;
+  stage?: LedgerStage; // Required with status "failed"
+  error?: string;
+  aliases?: string[]; // Other URLs of the same article
+}
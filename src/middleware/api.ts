@@ -8,7 +8,9 @@ import * as path from "path";
 import { logger } from "../config/logger";
 import { Article, ChatGPTResponse } from "./types";
 import { CHATGPT_API_KEY, CHATGPT_API_URL, CHATGPT_MODEL } from "./config";
-import { cleanArticleBody } from "./cleanArticleBody";
+import { cleanArticleBody, cleanBodyBlocks } from "./cleanArticleBody";
+import { bodyBlocksToMarkdown } from "../core/bodyBlocks";
+import { LANGUAGE_NAMES } from "../language";
 
 /**
  * Loads available tag titles from sanity-tags.json
@@ -46,21 +48,41 @@ function getAvailableTags(): string[] {
 /**
  * Filters article to only include fields needed for ChatGPT processing
  * and pre-cleans the body to remove junk/footer/promo lines.
+ * Structured bodies are sent as lightweight markdown (subheads, lists, quotes, links).
  */
 export function filterArticleForChatGPT(article: Article): {
   title: string;
   excerpt?: string;
   category?: string | null;
   body?: string;
+  structuredBody: boolean;
 } {
+  const cleanOptions = { originalPublisher: article.originalPublisher };
+  const bodyBlocks = cleanBodyBlocks(article.bodyBlocks, cleanOptions);
+
   return {
     title: article.title,
     excerpt: article.excerpt,
     category: article.category,
-    body: cleanArticleBody(article.body),
+    body: bodyBlocks
+      ? bodyBlocksToMarkdown(bodyBlocks, { includeImages: false })
+      : cleanArticleBody(article.body, cleanOptions),
+    structuredBody: Boolean(bodyBlocks),
   };
 }
 
+/**
+ * Output language instruction for articles not in the site language (empty otherwise)
+ */
+function createLanguageRule(article: Article): string {
+  if (!article.rewriteLanguage) return "";
+  const target = LANGUAGE_NAMES[article.rewriteLanguage] ?? article.rewriteLanguage;
+  const source = article.language ? LANGUAGE_NAMES[article.language] ?? article.language : undefined;
+  return source && article.language !== article.rewriteLanguage
+    ? `Language: the article is in ${source}. Write every field in ${target}.\n`
+    : `Language: write every field in ${target}, the article's language.\n`;
+}
+
 /**
  * Creates a prompt for ChatGPT based on article data
  */
@@ -68,12 +90,16 @@ export function createPrompt(article: Article): string {
   const filtered = filterArticleForChatGPT(article);
   const availableTags = getAvailableTags();
   const tagsList = availableTags.length > 0 ? availableTags.join(", ") : "";
+  const structureRule = filtered.structuredBody
+    ? 'Body structure: the body is markdown. Keep "## " subheads, "- " / "1. " list items and "> " quotes where they still fit the rewrite, keep [text](url) links on text you keep, and separate blocks with a blank line.\n'
+    : "";
+  const languageRule = createLanguageRule(article);
 
   return `Rewrite this article. Output ONLY valid JSON: {"title":"...", "tickerTitle":"...", "excerpt":"...", "body":"...", "imageKeyword":"...", "tags":["tag1","tag2","tag3"]}
 
 Rules: Keep facts/names/dates/quotes accurate. Rewrite with new wording/structure in a neutral news tone. Do not add new info.
 Body: remove bylines/author names, publisher/network/agency mentions, and promo/CTA lines.
-
+${structureRule}${languageRule}
 Limits: title ≤160 chars, tickerTitle ≤45 chars, excerpt ≤160 chars (complete sentences), body ≤650 words (3–4 paragraphs), imageKeyword 1-2 words, tags = exactly 3 strings from: ${tagsList} (you cannot create new tags). If any field exceeds its limit, shorten it to fit.
 
 imageKeyword: Prefer 1–3 words; use 4 only if it’s a single proper name/landmark/organization; MUST appear verbatim in article text. Prefer: Person > Org/Product > Place > Named event > Concrete object. Avoid generic topics/abstract words/verbs/dates; no adjectives unless proper name/model. Output only phrase.
@@ -3,15 +3,97 @@
  * - Removing promo/footer/byline/network/agency/junk lines
  * - Cutting off the article when we reach known "related/recommended/topics" sections
  * - Removing common appended headline spam (Yahoo-style)
+ * - Removing credit lines and dateline tags of the original publisher (syndicated copy)
  *
  * Returns undefined if body becomes empty after cleaning.
  */
 
-import { CUTOFF_SECTION_PATTERNS, DROP_LINE_PATTERNS } from "./cleaningPatterns";
+import type { BodyBlock } from "../core/bodyBlocks";
+import { blockToText } from "../core/bodyBlocks";
+import {
+  CUTOFF_SECTION_PATTERNS,
+  DATELINE_AGENCY_TAG_PATTERN,
+  DROP_LINE_PATTERNS,
+  publisherCreditPatterns,
+} from "./cleaningPatterns";
 
-export function cleanArticleBody(body?: string): string | undefined {
+type LineVerdict = "keep" | "drop" | "cutoff";
+
+export interface CleanBodyOptions {
+  // Publisher the story originally came from (article.originalPublisher)
+  originalPublisher?: string;
+}
+
+/**
+ * Removes the agency tag from an opening dateline ("NEW YORK (AP) — ..." → "NEW YORK — ...")
+ */
+function stripDatelineTag(line: string): string {
+  return line.replace(DATELINE_AGENCY_TAG_PATTERN, "$1");
+}
+
+/**
+ * Decides what to do with a single (trimmed, non-empty) body line
+ *
+ * @param allowHeadlineLike - Skip the headline-spam heuristic (real subheads look like headlines)
+ * @param creditPatterns - Credit lines of the original publisher
+ */
+function classifyLine(line: string, allowHeadlineLike = false, creditPatterns: RegExp[] = []): LineVerdict {
+  // Cut off if we hit a "section marker" that usually means "junk from here on"
+  if (CUTOFF_SECTION_PATTERNS.some((re) => re.test(line))) {
+    return "cutoff";
+  }
+
+  // Drop obvious junk lines
+  if (DROP_LINE_PATTERNS.some((re) => re.test(line)) || creditPatterns.some((re) => re.test(line))) {
+    return "drop";
+  }
+
+  // Drop CBS-style credit headers that can be split across multiple lines
+  // e.g. "Updated on: ..." "/ CBS News"
+  // (Some are already caught above; this is extra safety.)
+  if (/^\s*\/\s*(cbs|abc|nbc|cnn|fox|bbc)\s+news\s*$/i.test(line)) return "drop";
+
+  // Drop standalone "agency/network" credit lines when they appear alone
+  if (
+    /^(cbs news|ap news|associated press|reuters|bloomberg|afp|the guardian|new york times|washington post)$/i.test(
+      line
+    )
+  ) {
+    return "drop";
+  }
+
+  if (allowHeadlineLike) {
+    return "keep";
+  }
+
+  // Remove lines that are very likely *appended unrelated headlines* (Yahoo pattern):
+  // - short-ish
+  // - looks like a headline (title case-ish)
+  // - no ending punctuation
+  // - not a normal sentence
+  //
+  // This is conservative: it won't catch everything, but avoids nuking real content.
+  const looksLikeHeadlineSpam =
+    line.length <= 120 &&
+    !/[.!?]"?$/.test(line) &&
+    !/^\d+%?$/.test(line) &&
+    !/^(mr\.|mrs\.|ms\.)\b/i.test(line) &&
+    // avoid killing legit short sentences that start with common narrative patterns
+    !/^(in|on|at|after|before|during|as|when|while|because|since|although)\b/i.test(line) &&
+    // headline-ish: begins with capital and has few commas
+    /^[A-Z0-9][^:]{8,}$/.test(line) &&
+    (line.match(/,/g)?.length ?? 0) <= 1;
+
+  // If the last real paragraph already exists, these often come in clusters at the end.
+  // We can safely drop them.
+  return looksLikeHeadlineSpam ? "drop" : "keep";
+}
+
+export function cleanArticleBody(body?: string, options: CleanBodyOptions = {}): string | undefined {
   if (!body) return body;
 
+  const creditPatterns = options.originalPublisher ? publisherCreditPatterns(options.originalPublisher) : [];
+
   // Normalize line endings and trim trailing whitespace
   const rawLines = body.replace(/\r\n/g, "\n").split("\n");
 
@@ -29,62 +111,77 @@ export function cleanArticleBody(body?: string): string | undefined {
     }
     emptyStreak = 0;
 
-    // Cut off if we hit a "section marker" that usually means "junk from here on"
-    if (CUTOFF_SECTION_PATTERNS.some((re) => re.test(line))) {
-      break;
-    }
+    const verdict = classifyLine(line, false, creditPatterns);
+    if (verdict === "cutoff") break;
+    if (verdict === "drop") continue;
 
-    // Drop obvious junk lines
-    if (DROP_LINE_PATTERNS.some((re) => re.test(line))) {
-      continue;
-    }
+    cleaned.push(stripDatelineTag(line));
+  }
+
+  // Remove trailing empty lines
+  while (cleaned.length > 0 && cleaned[cleaned.length - 1] === "") {
+    cleaned.pop();
+  }
+
+  const result = cleaned.join("\n").trim();
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Same cleaning rules applied to structured body blocks.
+ * Subheads, lists and quotes are exempt from the headline-spam heuristic;
+ * a cutoff marker (in any block) ends the article there.
+ *
+ * Returns undefined if no text block survives.
+ */
+export function cleanBodyBlocks(blocks?: BodyBlock[], options: CleanBodyOptions = {}): BodyBlock[] | undefined {
+  if (!blocks || blocks.length === 0) return undefined;
 
-    // Drop CBS-style credit headers that can be split across multiple lines
-    // e.g. "Updated on: ..." "/ CBS News"
-    // (Some are already caught above; this is extra safety.)
-    if (/^\s*\/\s*(cbs|abc|nbc|cnn|fox|bbc)\s+news\s*$/i.test(line)) continue;
-
-    // Drop standalone "agency/network" credit lines when they appear alone
-    if (
-      /^(cbs news|ap news|associated press|reuters|bloomberg|afp|the guardian|new york times|washington post)$/i.test(
-        line
-      )
-    ) {
+  const creditPatterns = options.originalPublisher ? publisherCreditPatterns(options.originalPublisher) : [];
+
+  const cleaned: BodyBlock[] = [];
+
+  for (const block of blocks) {
+    if (block.type === "image") {
+      cleaned.push(block);
       continue;
     }
 
-    // Remove lines that are very likely *appended unrelated headlines* (Yahoo pattern):
-    // - short-ish
-    // - looks like a headline (title case-ish)
-    // - no ending punctuation
-    // - not a normal sentence
-    //
-    // This is conservative: it won't catch everything, but avoids nuking real content.
-    const looksLikeHeadlineSpam =
-      line.length <= 120 &&
-      !/[.!?]"?$/.test(line) &&
-      !/^\d+%?$/.test(line) &&
-      !/^(mr\.|mrs\.|ms\.)\b/i.test(line) &&
-      // avoid killing legit short sentences that start with common narrative patterns
-      !/^(in|on|at|after|before|during|as|when|while|because|since|although)\b/i.test(line) &&
-      // headline-ish: begins with capital and has few commas
-      /^[A-Z0-9][^:]{8,}$/.test(line) &&
-      (line.match(/,/g)?.length ?? 0) <= 1;
-
-    if (looksLikeHeadlineSpam) {
-      // If the last real paragraph already exists, these often come in clusters at the end.
-      // We can safely drop them.
+    if (block.type === "list") {
+      const items = [];
+      let cutoff = false;
+      for (const item of block.items) {
+        const verdict = classifyLine(blockToText({ type: "paragraph", spans: item }), true, creditPatterns);
+        if (verdict === "cutoff") {
+          cutoff = true;
+          break;
+        }
+        if (verdict === "keep") items.push(item);
+      }
+      if (items.length > 0) cleaned.push({ ...block, items });
+      if (cutoff) break;
       continue;
     }
 
-    cleaned.push(rawLine.trim());
+    const text = blockToText(block);
+    if (!text) continue;
+
+    const verdict = classifyLine(text, block.type !== "paragraph", creditPatterns);
+    if (verdict === "cutoff") break;
+    if (verdict === "drop") continue;
+
+    if (block.type === "paragraph" && block.spans.length > 0) {
+      const [first, ...rest] = block.spans;
+      cleaned.push({ ...block, spans: [{ ...first, text: stripDatelineTag(first.text.trimStart()) }, ...rest] });
+    } else {
+      cleaned.push(block);
+    }
   }
 
-  // Remove trailing empty lines
-  while (cleaned.length > 0 && cleaned[cleaned.length - 1] === "") {
+  // Drop dangling subheads/images left at the end by a cutoff
+  while (cleaned.length > 0 && ["heading", "image"].includes(cleaned[cleaned.length - 1].type)) {
     cleaned.pop();
   }
 
-  const result = cleaned.join("\n").trim();
-  return result.length > 0 ? result : undefined;
+  return cleaned.some((block) => block.type !== "image") ? cleaned : undefined;
 }
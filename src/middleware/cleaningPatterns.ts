@@ -70,3 +70,22 @@ export const CUTOFF_SECTION_PATTERNS: RegExp[] = [
   /^\s*venture editor\s*$/i,
   /^\s*advertisement\s*$/i,
 ];
+
+/**
+ * Agency tag in an opening dateline, e.g. "WASHINGTON (AP) — " keeps "WASHINGTON — "
+ */
+export const DATELINE_AGENCY_TAG_PATTERN = /^([A-Z][A-Za-z .,'-]{1,60}?)\s*\((?:AP|Reuters|AFP)\)(?=\s*[—–-])/;
+
+/**
+ * Credit lines naming the article's original publisher (from syndication detection),
+ * e.g. "By The Associated Press", "Copyright 2025 Reuters", "Associated Press contributed"
+ */
+export function publisherCreditPatterns(publisher: string): RegExp[] {
+  const name = publisher.trim().replace(/^the\s+/i, "").replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (!name) return [];
+  return [
+    new RegExp(`^\\s*(by\\s+)?(the\\s+)?${name}(\\s+(staff|wire|writers?))?\\.?\\s*$`, "i"),
+    new RegExp(`^\\s*(copyright|\\(c\\))\\s+(\\d{4}\\s+)?(the\\s+)?${name}\\b`, "i"),
+    new RegExp(`^\\s*(the\\s+)?${name}\\s+(contributed|reported)\\b.{0,40}$`, "i"),
+  ];
+}
@@ -5,11 +5,13 @@
 import * as fs from "fs";
 import * as path from "path";
 import { logger } from "../config/logger";
-import { Article, CollectedArticlesFile } from "./types";
+import { Article } from "./types";
+import { readPipelineFile, writePipelineFile, type ProcessedArticlesFile } from "../pipeline";
 import { CHATGPT_MIDDLEWARE_ENABLED, CHATGPT_REQUEST_DELAY_MS } from "./config";
 import { sendToChatGPT, createRequestPayload } from "./api";
 import { processArticleWithImage } from "../imageService/orchestrator";
 import { ProcessedArticle } from "../imageService/types";
+import { recordLedgerStatus } from "../ledger";
 
 /**
  * Processes a single article through ChatGPT middleware
@@ -102,14 +104,8 @@ export async function processCollectedArticlesFromRun(
     console.log(`📄 File: ${path.basename(targetPath)}`);
     console.log("=".repeat(80) + "\n");
     
-    // Read the JSON file
-    const fileContent = fs.readFileSync(targetPath, "utf-8");
-    const data: CollectedArticlesFile = JSON.parse(fileContent);
-
-    if (!data.articles || !Array.isArray(data.articles)) {
-      logger.warn(`⚠️  File ${path.basename(targetPath)} does not contain a valid articles array`);
-      return;
-    }
+    // Read the JSON file (validated against the collected file schema)
+    const data = readPipelineFile("collected", targetPath);
 
     if (data.articles.length === 0) {
       console.log(`ℹ️  No articles to process in ${runId}\n`);
@@ -156,6 +152,19 @@ export async function processCollectedArticlesFromRun(
         console.log(`❌ Failed to process article\n`);
       }
 
+      // Nothing was attempted when the middleware is off, so the ledger is left as is
+      if (CHATGPT_MIDDLEWARE_ENABLED) {
+        if (processedArticle) {
+          recordLedgerStatus(article.url, "rewritten", { runId });
+        } else {
+          recordLedgerStatus(article.url, "failed", {
+            runId,
+            stage: "rewrite",
+            error: "ChatGPT or image processing failed",
+          });
+        }
+      }
+
       // Collect the result (even if null, to track which articles failed)
       processedArticles.push({
         original: article,
@@ -165,13 +174,13 @@ export async function processCollectedArticlesFromRun(
 
     // Save processed articles to file for gunner to read
     const processedFilePath = path.join(collectedDir, `[${runId}]processed-articles.json`);
-    const processedData = {
+    const processedData: ProcessedArticlesFile = {
       runId,
       processedAt: new Date().toISOString(),
       totalArticles: processedArticles.length,
       articles: processedArticles,
     };
-    fs.writeFileSync(processedFilePath, JSON.stringify(processedData, null, 2), "utf-8");
+    writePipelineFile("processed", processedFilePath, processedData);
     console.log(`💾 Saved processed articles to: ${path.basename(processedFilePath)}\n`);
 
     const successCount = processedArticles.filter((item) => item.processed !== null).length;
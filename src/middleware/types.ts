@@ -2,18 +2,12 @@
  * Type definitions for ChatGPT Middleware
  */
 
+import type { EligibleArticle } from "../pipeline/types";
+
 /**
- * Interface for article data
+ * Article sent to ChatGPT: a collected article of the run (see pipeline/types)
  */
-export interface Article {
-  url: string;
-  title: string;
-  excerpt?: string;
-  body?: string;
-  category?: string | null;
-  origin?: string;
-  [key: string]: any;
-}
+export type Article = EligibleArticle;
 
 /**
  * Interface for ChatGPT API response
@@ -37,13 +31,3 @@ export interface ChatGPTResponse {
     total_tokens: number;
   };
 }
-
-/**
- * Interface for collected articles JSON file structure
- */
-export interface CollectedArticlesFile {
-  runId: string;
-  collectedAt: string;
-  totalArticles: number;
-  articles: Article[];
-}
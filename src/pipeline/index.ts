@@ -0,0 +1,19 @@
+/**
+ * Pipeline Model - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export type {
+  ScrapedArticle,
+  EligibleArticle,
+  RewrittenArticle,
+  EnrichedArticle,
+  PublishedPost,
+  ScrapedResultsFile,
+  CollectedArticlesFile,
+  ProcessedArticlesFile,
+  PipelineFileKind,
+  PipelineFiles,
+} from "./types";
+export { PipelineFileError, validatePipelineFile, readPipelineFile, writePipelineFile } from "./validation";
@@ -0,0 +1,367 @@
+/**
+ * JSON Schemas for the files the pipeline stages hand over
+ *
+ * Required fields are what the next stage relies on; optional fields are
+ * type-checked when present (and may be null). Extra fields are allowed so a
+ * stage can add data without breaking older readers. Each schema is typed
+ * against its file type, so a type change the schema didn't follow fails tsc.
+ */
+
+import type { JSONSchemaType } from "ajv";
+import type { ContentType } from "../contentType";
+import type { BodyBlock, BodySpan } from "../core/bodyBlocks";
+import type { ScrapedSourceArticle } from "../core/types";
+import type { EligibilityRejection, EligibilityRuleName } from "../eligibility/types";
+import type { ImageResult } from "../imageService/types";
+import type { ArticleCluster, PriorDuplicate } from "../similarity/types";
+import type { SourceArticleItem } from "../sources/registry";
+import type {
+  CollectedArticlesFile,
+  EligibleArticle,
+  EnrichedArticle,
+  ProcessedArticlesFile,
+  ScrapedResultsFile,
+} from "./types";
+
+const stringArray = { type: "array", items: { type: "string" } } as const;
+const optionalString = { type: "string", nullable: true } as const;
+const optionalStringArray = { ...stringArray, nullable: true } as const;
+const optionalBoolean = { type: "boolean", nullable: true } as const;
+const optionalNumber = { type: "number", nullable: true } as const;
+const nullSchema = { type: "null", nullable: true } as const;
+
+const countSchema = { type: "integer", minimum: 0 } as const;
+const optionalCount = { ...countSchema, nullable: true } as const;
+
+// Count maps list every key, so a new content type or rule the schema misses fails tsc
+const contentTypeCountsSchema: JSONSchemaType<Partial<Record<ContentType, number>>> = {
+  type: "object",
+  properties: {
+    standard: optionalCount,
+    video: optionalCount,
+    liveBlog: optionalCount,
+    gallery: optionalCount,
+    opinion: optionalCount,
+    paywalled: optionalCount,
+  },
+};
+
+const ruleCountsSchema: JSONSchemaType<Partial<Record<EligibilityRuleName, number>>> = {
+  type: "object",
+  properties: {
+    scrapeFailed: optionalCount,
+    requiredFields: optionalCount,
+    minWords: optionalCount,
+    maxWords: optionalCount,
+    minParagraphs: optionalCount,
+    bannedKeyword: optionalCount,
+    bannedTopic: optionalCount,
+    language: optionalCount,
+    contentType: optionalCount,
+    maxAge: optionalCount,
+  },
+};
+
+const listingItemProperties = {
+  url: { type: "string", minLength: 1 },
+  title: { type: "string" },
+  imageUrl: optionalString,
+  publishedAt: optionalString,
+} as const;
+
+const listingItemSchema: JSONSchemaType<SourceArticleItem> = {
+  type: "object",
+  required: ["url", "title"],
+  properties: listingItemProperties,
+};
+
+const homepageItemSchema: JSONSchemaType<ScrapedResultsFile["homepageItems"][number]> = {
+  type: "object",
+  required: ["url", "title", "category"],
+  properties: { ...listingItemProperties, category: { type: "string" } },
+};
+
+const spansSchema: JSONSchemaType<BodySpan[]> = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["text"],
+    properties: { text: { type: "string" }, href: optionalString },
+  },
+};
+
+const bodyBlockSchema: JSONSchemaType<BodyBlock> = {
+  anyOf: [
+    {
+      type: "object",
+      required: ["type", "spans"],
+      properties: { type: { type: "string", const: "paragraph" }, spans: spansSchema },
+    },
+    {
+      type: "object",
+      required: ["type", "level", "spans"],
+      properties: {
+        type: { type: "string", const: "heading" },
+        level: { type: "integer", enum: [2, 3, 4] },
+        spans: spansSchema,
+      },
+    },
+    {
+      type: "object",
+      required: ["type", "ordered", "items"],
+      properties: {
+        type: { type: "string", const: "list" },
+        ordered: { type: "boolean" },
+        items: { type: "array", items: spansSchema },
+      },
+    },
+    {
+      type: "object",
+      required: ["type", "spans"],
+      properties: { type: { type: "string", const: "quote" }, spans: spansSchema },
+    },
+    {
+      type: "object",
+      required: ["type", "url"],
+      properties: {
+        type: { type: "string", const: "image" },
+        url: { type: "string" },
+        alt: optionalString,
+        caption: optionalString,
+      },
+    },
+  ],
+};
+
+const rejectionSchema: JSONSchemaType<EligibilityRejection> = {
+  type: "object",
+  required: ["rule", "reason"],
+  properties: { rule: { type: "string" }, reason: { type: "string" } },
+};
+
+/**
+ * Fields of every article record: scraped details or a failure record (results/, collected/)
+ */
+const articleProperties = {
+  url: { type: "string", minLength: 1 },
+  title: { type: "string" },
+  excerpt: { type: "string" },
+  body: { type: "string" },
+  bodyBlocks: { type: "array", items: bodyBlockSchema, nullable: true },
+  category: { type: "string" },
+  success: { type: "boolean" },
+  error: optionalString,
+  rejections: { type: "array", items: rejectionSchema, nullable: true },
+  scrapedAt: { type: "string", minLength: 1 },
+  publishedAt: optionalString,
+  modifiedAt: optionalString,
+  author: optionalString,
+  imageUrl: optionalString,
+  keywords: optionalStringArray,
+  publisher: optionalString,
+  canonicalUrl: optionalString,
+  originalPublisher: optionalString,
+  structuredTypes: optionalStringArray,
+  accessibleForFree: optionalBoolean,
+  contentType: {
+    type: "string",
+    enum: ["standard", "video", "liveBlog", "gallery", "opinion", "paywalled", null],
+    nullable: true,
+  },
+  language: optionalString,
+  declaredLanguage: optionalString,
+  languageMixed: optionalBoolean,
+  rewriteLanguage: optionalString,
+} as const;
+
+const articleRequired = ["url", "title", "excerpt", "body", "category", "success", "scrapedAt"] as const;
+
+const scrapedArticleSchema: JSONSchemaType<ScrapedSourceArticle> = {
+  type: "object",
+  required: [...articleRequired, "articleItem"],
+  properties: { ...articleProperties, articleItem: listingItemSchema },
+};
+
+const eligibleArticleSchema: JSONSchemaType<EligibleArticle> = {
+  type: "object",
+  required: [...articleRequired, "origin"],
+  properties: { ...articleProperties, origin: { type: "string", minLength: 1 } },
+};
+
+export const resultsFileSchema: JSONSchemaType<ScrapedResultsFile> = {
+  type: "object",
+  required: ["metadata", "homepageItems", "articles"],
+  properties: {
+    metadata: {
+      type: "object",
+      required: [
+        "savedAt",
+        "source",
+        "totalHomepageItems",
+        "totalArticlesScraped",
+        "totalArticlesFailed",
+        "totalArticlesBlocked",
+        "totalItemsSkipped",
+        "totalArticlesIneligible",
+        "contentTypes",
+        "listingsUsed",
+        "timedOut",
+      ],
+      properties: {
+        savedAt: { type: "string" },
+        source: { type: "string", minLength: 1 },
+        totalHomepageItems: countSchema,
+        totalArticlesScraped: countSchema,
+        totalArticlesFailed: countSchema,
+        totalArticlesBlocked: countSchema,
+        totalItemsSkipped: countSchema,
+        totalArticlesIneligible: countSchema,
+        contentTypes: contentTypeCountsSchema,
+        listingsUsed: stringArray,
+        timedOut: { type: "boolean" },
+      },
+    },
+    homepageItems: { type: "array", items: homepageItemSchema },
+    articles: { type: "array", items: scrapedArticleSchema },
+  },
+};
+
+const clusterSchema: JSONSchemaType<ArticleCluster> = {
+  type: "object",
+  required: ["id", "representativeUrl", "members"],
+  properties: {
+    id: { type: "string" },
+    representativeUrl: { type: "string" },
+    members: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["url", "title", "similarity"],
+        properties: {
+          url: { type: "string" },
+          origin: optionalString,
+          title: { type: "string" },
+          similarity: { type: "number" },
+        },
+      },
+    },
+  },
+};
+
+const priorDuplicateSchema: JSONSchemaType<PriorDuplicate> = {
+  type: "object",
+  required: ["url", "title", "matchedUrl", "matchedStatus", "similarity"],
+  properties: {
+    url: { type: "string" },
+    title: { type: "string" },
+    matchedUrl: { type: "string" },
+    matchedStatus: { type: "string" },
+    similarity: { type: "number" },
+  },
+};
+
+export const collectedFileSchema: JSONSchemaType<CollectedArticlesFile> = {
+  type: "object",
+  required: ["runId", "collectedAt", "totalArticles", "articles"],
+  properties: {
+    runId: { type: "string", minLength: 1 },
+    collectedAt: { type: "string" },
+    totalArticles: countSchema,
+    articles: { type: "array", items: eligibleArticleSchema },
+    eligibility: {
+      type: "object",
+      nullable: true,
+      required: ["summary", "rejected"],
+      properties: {
+        summary: {
+          type: "object",
+          required: ["checked", "eligible", "rejected", "byRule"],
+          properties: {
+            checked: countSchema,
+            eligible: countSchema,
+            rejected: countSchema,
+            byRule: ruleCountsSchema,
+          },
+        },
+        rejected: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["url", "title", "rejections"],
+            properties: {
+              url: { type: "string" },
+              title: { type: "string" },
+              origin: optionalString,
+              rejections: { type: "array", items: rejectionSchema },
+            },
+          },
+        },
+      },
+    },
+    clustering: {
+      type: "object",
+      nullable: true,
+      required: ["clusters", "priorDuplicates"],
+      properties: {
+        clusters: { type: "array", items: clusterSchema },
+        priorDuplicates: { type: "array", items: priorDuplicateSchema },
+      },
+    },
+  },
+};
+
+const imageSchema: JSONSchemaType<ImageResult> = {
+  type: "object",
+  required: ["url", "source"],
+  properties: {
+    url: { type: "string", minLength: 1 },
+    thumbUrl: optionalString,
+    width: optionalNumber,
+    height: optionalNumber,
+    authorName: optionalString,
+    authorUrl: optionalString,
+    source: { type: "string", enum: ["wikimedia", "pexels", "pixabay"] },
+    sourcePageUrl: optionalString,
+    license: optionalString,
+    imageDescription: optionalString,
+    artist: optionalString,
+    attribution: optionalString,
+    licenseShortName: optionalString,
+  },
+};
+
+const enrichedArticleSchema: JSONSchemaType<EnrichedArticle> = {
+  type: "object",
+  required: ["title", "tickerTitle", "excerpt", "body", "imageKeyword", "tags", "image"],
+  properties: {
+    title: { type: "string", minLength: 1 },
+    tickerTitle: { type: "string", minLength: 1 },
+    excerpt: { type: "string" },
+    category: optionalString,
+    body: { type: "string", minLength: 1 },
+    imageKeyword: { type: "string" },
+    tags: stringArray,
+    image: { anyOf: [nullSchema, imageSchema] },
+  },
+};
+
+export const processedFileSchema: JSONSchemaType<ProcessedArticlesFile> = {
+  type: "object",
+  required: ["runId", "processedAt", "totalArticles", "articles"],
+  properties: {
+    runId: { type: "string", minLength: 1 },
+    processedAt: { type: "string" },
+    totalArticles: countSchema,
+    articles: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["original", "processed"],
+        properties: {
+          original: eligibleArticleSchema,
+          processed: { anyOf: [nullSchema, enrichedArticleSchema] },
+        },
+      },
+    },
+  },
+};
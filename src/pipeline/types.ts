@@ -0,0 +1,91 @@
+/**
+ * Pipeline stage model
+ *
+ * One type per article stage and per file the stages hand over:
+ *
+ *   ScrapedArticle   results/<folder>/<prefix>-<timestamp>.json  (ScrapedResultsFile)
+ *   EligibleArticle  collected/[runX]articles.json                (CollectedArticlesFile)
+ *   RewrittenArticle ChatGPT output
+ *   EnrichedArticle  collected/[runX]processed-articles.json      (ProcessedArticlesFile)
+ *   PublishedPost    Sanity post document
+ */
+
+import type { ScrapedSourceArticle, ScrapedSourceResult } from "../core/types";
+import type { EligibilitySummary, RejectedArticle } from "../eligibility/types";
+import type { SanityPostDocument } from "../gunner/types";
+import type { ChatGPTArticleResponse, ProcessedArticle } from "../imageService/types";
+import type { ArticleCluster, PriorDuplicate } from "../similarity/types";
+import type { SourceKey } from "../sources/registry";
+
+/**
+ * An article of a run as read back from its source's results file (details,
+ * or a failure record), tagged with the source that scraped it
+ */
+export type ScrapedArticle = ScrapedSourceArticle & { origin: SourceKey };
+
+/**
+ * An article that passed the eligibility rules and clustering, as sent to ChatGPT
+ * (failure records only get here while ELIGIBILITY_ENABLED is off)
+ */
+export type EligibleArticle = Omit<ScrapedArticle, "articleItem">;
+
+/**
+ * ChatGPT's rewrite of an article
+ */
+export type RewrittenArticle = ChatGPTArticleResponse;
+
+/**
+ * A rewrite with its resolved category and cover image
+ */
+export type EnrichedArticle = ProcessedArticle;
+
+/**
+ * The Sanity document an enriched article is published as
+ */
+export type PublishedPost = SanityPostDocument;
+
+/**
+ * results/<resultFolder>/<filePrefix>-<timestamp>.json
+ */
+export type ScrapedResultsFile = ScrapedSourceResult;
+
+/**
+ * collected/[runX]articles.json
+ */
+export interface CollectedArticlesFile {
+  runId: string;
+  collectedAt: string;
+  totalArticles: number;
+  articles: EligibleArticle[];
+  // Articles rejected by the eligibility rules (not in `articles`), with reasons
+  eligibility?: {
+    summary: EligibilitySummary;
+    rejected: RejectedArticle[];
+  };
+  // Near-duplicate decisions: only cluster representatives are in `articles`
+  clustering?: {
+    clusters: ArticleCluster[];
+    priorDuplicates: PriorDuplicate[];
+  };
+}
+
+/**
+ * collected/[runX]processed-articles.json (processed is null when the rewrite failed)
+ */
+export interface ProcessedArticlesFile {
+  runId: string;
+  processedAt: string;
+  totalArticles: number;
+  articles: Array<{
+    original: EligibleArticle;
+    processed: EnrichedArticle | null;
+  }>;
+}
+
+export type PipelineFileKind = "results" | "collected" | "processed";
+
+export interface PipelineFiles {
+  results: ScrapedResultsFile;
+  collected: CollectedArticlesFile;
+  processed: ProcessedArticlesFile;
+}
@@ -0,0 +1,78 @@
+/**
+ * Runtime validation of the files between pipeline stages
+ *
+ * Every stage reads and writes its hand-over files through here, so a shape
+ * change that one stage didn't follow fails at the boundary with the offending
+ * paths, instead of reaching Sanity as undefined fields.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import Ajv, { type ValidateFunction } from "ajv";
+import { collectedFileSchema, processedFileSchema, resultsFileSchema } from "./schemas";
+import type { PipelineFileKind, PipelineFiles } from "./types";
+
+const ajv = new Ajv({ allErrors: true });
+
+const validators: Record<PipelineFileKind, ValidateFunction> = {
+  results: ajv.compile(resultsFileSchema),
+  collected: ajv.compile(collectedFileSchema),
+  processed: ajv.compile(processedFileSchema),
+};
+
+// Errors listed in the message; the rest are only counted
+const MAX_LISTED_PROBLEMS = 10;
+
+/**
+ * Thrown when a pipeline file doesn't match its stage schema
+ */
+export class PipelineFileError extends Error {
+  constructor(
+    public readonly kind: PipelineFileKind,
+    public readonly filePath: string,
+    public readonly problems: string[]
+  ) {
+    const listed = problems.slice(0, MAX_LISTED_PROBLEMS).join("; ");
+    const more = problems.length > MAX_LISTED_PROBLEMS ? ` (+${problems.length - MAX_LISTED_PROBLEMS} more)` : "";
+    super(`Invalid ${kind} file ${path.basename(filePath)}: ${listed}${more}`);
+    this.name = "PipelineFileError";
+  }
+}
+
+/**
+ * Checks parsed file content against its stage schema
+ * @throws PipelineFileError listing every mismatch
+ */
+export function validatePipelineFile<K extends PipelineFileKind>(
+  kind: K,
+  data: unknown,
+  filePath: string
+): PipelineFiles[K] {
+  const validate = validators[kind];
+  if (!validate(data)) {
+    const problems = (validate.errors ?? []).map(
+      (error) => `${error.instancePath || "/"} ${error.message ?? "is invalid"}`
+    );
+    throw new PipelineFileError(kind, filePath, problems);
+  }
+  return data as PipelineFiles[K];
+}
+
+/**
+ * Reads and validates a pipeline file
+ * @throws PipelineFileError on a schema mismatch, or the fs / JSON error
+ */
+export function readPipelineFile<K extends PipelineFileKind>(kind: K, filePath: string): PipelineFiles[K] {
+  return validatePipelineFile(kind, JSON.parse(fs.readFileSync(filePath, "utf-8")), filePath);
+}
+
+/**
+ * Validates and writes a pipeline file (what is checked is the JSON written,
+ * so undefined fields count as missing)
+ * @throws PipelineFileError without writing anything on a schema mismatch
+ */
+export function writePipelineFile<K extends PipelineFileKind>(kind: K, filePath: string, data: PipelineFiles[K]): void {
+  const json = JSON.stringify(data, null, 2);
+  validatePipelineFile(kind, JSON.parse(json), filePath);
+  fs.writeFileSync(filePath, json, "utf-8");
+}
@@ -1,112 +0,0 @@
-import * as path from "path";
-import { logger } from "../../config/logger";
-import {
-  scrapeAPNewsBusinessHomepage,
-  scrapeAPNewsArticleDetails,
-  type APNewsArticleItem,
-  type APNewsArticleDetails,
-} from "../../sources/apNewsScraper";
-import {
-  extractCategoryFromFolder,
-  cleanupOldJsonFiles,
-  saveScrapedData,
-} from "../../utils/scraperUtils";
-
-interface APNewsBusinessScrapedArticle extends APNewsArticleDetails {
-  articleItem: APNewsArticleItem;
-  scrapedAt: string;
-  success: boolean;
-  error?: string;
-}
-
-interface APNewsBusinessScrapedData {
-  metadata: {
-    savedAt: string;
-    source: "apNewsBusiness";
-    totalHomepageItems: number;
-    totalArticlesScraped: number;
-    totalArticlesFailed: number;
-  };
-  homepageItems: (APNewsArticleItem & { category: string })[];
-  articles: (APNewsBusinessScrapedArticle & { category: string })[];
-}
-
-export async function scrapeAPNewsBusiness(limit: number = 5): Promise<void> {
-  const items = await scrapeAPNewsBusinessHomepage(limit);
-
-  const articles: APNewsBusinessScrapedArticle[] = [];
-  let successCount = 0;
-  let failureCount = 0;
-
-  for (const [index, item] of items.entries()) {
-    try {
-      const details = await scrapeAPNewsArticleDetails(item.url);
-
-      articles.push({
-        ...details,
-        articleItem: item,
-        scrapedAt: new Date().toISOString(),
-        success: true,
-      });
-
-      successCount++;
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-
-      logger.error(
-        `Failed to scrape article details for item #${index + 1}`,
-        error instanceof Error
-          ? { message: error.message, stack: error.stack }
-          : error
-      );
-
-      articles.push({
-        url: item.url,
-        title: item.title || "Unknown",
-        excerpt: "",
-        category: null,
-        body: "",
-        articleItem: item,
-        scrapedAt: new Date().toISOString(),
-        success: false,
-        error: errorMessage,
-      });
-
-      failureCount++;
-    }
-  }
-
-  const outputDir = path.join(process.cwd(), "results", "[business]apNews");
-  const folderName = "[business]apNews";
-  const category = extractCategoryFromFolder(folderName);
-
-  const homepageItemsWithCategory = items.map((item) => ({
-    ...item,
-    category,
-  }));
-
-  const articlesWithCategory = articles.map((article) => ({
-    ...article,
-    category,
-  }));
-
-  const savedAt = new Date().toISOString();
-  const scrapedData: APNewsBusinessScrapedData = {
-    metadata: {
-      savedAt: savedAt,
-      source: "apNewsBusiness",
-      totalHomepageItems: items.length,
-      totalArticlesScraped: successCount,
-      totalArticlesFailed: failureCount,
-    },
-    homepageItems: homepageItemsWithCategory,
-    articles: articlesWithCategory,
-  };
-
-  cleanupOldJsonFiles(outputDir, "ap-news-business-");
-  saveScrapedData(scrapedData, outputDir, "ap-news-business");
-
-  logger.info(`✅ AP News Business finished with ${successCount} articles scraped correctly`);
-}
-
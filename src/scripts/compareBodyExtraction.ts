@@ -0,0 +1,190 @@
+/**
+ * Compares each source's selector-based body extraction with the shared
+ * content-density extraction on saved HTML fixtures.
+ *
+ * Fixtures: the article pages of the scraper fixtures (fixtures/sources/<sourceKey>/manifest.json),
+ * or with --dir, loose saved pages at <dir>/<sourceKey>/<name>.html
+ * Run this with: npm run compare-body [-- --source=<sourceKey>] [--dir=<fixturesDir>] [--verbose]
+ */
+
+import * as cheerio from "cheerio";
+import * as fs from "fs";
+import * as path from "path";
+import { fixtureDir, listFixtureSources, loadFixtureManifest } from "../fixtures";
+import { extractMainContent } from "../sources/engine/readability";
+import { SOURCE_REGISTRY } from "../sources/registry";
+
+// A page "agrees" when the selectors found at least this share of the density paragraphs
+const AGREEMENT_OVERLAP = 0.8;
+
+interface FixturePage {
+  source: string;
+  filePath: string;
+  articleUrl?: string; // Known for scraper fixtures; loose pages use their canonical link
+}
+
+interface ComparisonRow {
+  source: string;
+  fixture: string;
+  selectorParagraphs: number;
+  selectorChars: number;
+  densityParagraphs: number;
+  densityChars: number;
+  overlap: number; // Share of density paragraphs also present in the selector body
+  error?: string;
+}
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split("=").slice(1).join("=") : undefined;
+}
+
+/**
+ * Runs both extractions on one saved page
+ */
+function compareFixture({ source: sourceKey, filePath, articleUrl: knownUrl }: FixturePage, verbose: boolean): ComparisonRow {
+  const source = SOURCE_REGISTRY.find((s) => s.key === sourceKey)!;
+  const $ = cheerio.load(fs.readFileSync(filePath, "utf-8"));
+  const articleUrl = knownUrl || $('link[rel="canonical"]').attr("href") || `file://${filePath}`;
+
+  const density = extractMainContent($).paragraphs;
+  const row: ComparisonRow = {
+    source: sourceKey,
+    fixture: path.basename(filePath),
+    selectorParagraphs: 0,
+    selectorChars: 0,
+    densityParagraphs: density.length,
+    densityChars: density.join("\n\n").length,
+    overlap: 0,
+  };
+
+  try {
+    const details = source.extractDetails($, articleUrl);
+    const selectorParagraphs = details.body ? details.body.split("\n\n") : [];
+    const selectorSet = new Set(selectorParagraphs.map((p) => p.replace(/\s+/g, " ").trim()));
+
+    row.selectorParagraphs = selectorParagraphs.length;
+    row.selectorChars = details.body.length;
+    row.overlap = density.length ? density.filter((p) => selectorSet.has(p)).length / density.length : 0;
+
+    if (verbose) {
+      const onlyDensity = density.filter((p) => !selectorSet.has(p));
+      const densitySet = new Set(density);
+      const onlySelector = [...selectorSet].filter((p) => !densitySet.has(p));
+      console.log(`\n📄 ${sourceKey}/${row.fixture}`);
+      onlySelector.forEach((p) => console.log(`   - selector only: ${p.slice(0, 100)}`));
+      onlyDensity.forEach((p) => console.log(`   + density only:  ${p.slice(0, 100)}`));
+    }
+  } catch (error) {
+    row.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return row;
+}
+
+/**
+ * Article pages of the scraper fixtures (the manifests' detail cases)
+ */
+function listScraperFixturePages(): FixturePage[] {
+  return listFixtureSources().flatMap((source) => {
+    const manifest = loadFixtureManifest(source);
+    return manifest.details
+      .filter((detail) => manifest.pages[detail.url])
+      .map((detail) => ({
+        source,
+        filePath: path.join(fixtureDir(source), manifest.pages[detail.url]),
+        articleUrl: detail.url,
+      }));
+  });
+}
+
+/**
+ * Loose saved pages: <dir>/<sourceKey>/<name>.html
+ */
+function listDirectoryPages(fixturesDir: string): FixturePage[] {
+  return SOURCE_REGISTRY.flatMap((source) => {
+    const sourceDir = path.join(fixturesDir, source.key);
+    if (!fs.existsSync(sourceDir)) return [];
+    return fs
+      .readdirSync(sourceDir)
+      .filter((file) => file.endsWith(".html"))
+      .sort()
+      .map((file) => ({ source: source.key, filePath: path.join(sourceDir, file) }));
+  });
+}
+
+/**
+ * Per-source averages and the pages where the two extractions disagree
+ */
+function printSummary(rows: ComparisonRow[]): void {
+  console.log("\n📈 Summary");
+  for (const source of [...new Set(rows.map((row) => row.source))]) {
+    const sourceRows = rows.filter((row) => row.source === source && !row.error);
+    if (sourceRows.length === 0) continue;
+    const mean = (pick: (row: ComparisonRow) => number): number =>
+      sourceRows.reduce((sum, row) => sum + pick(row), 0) / sourceRows.length;
+    console.log(
+      `   ${source}: ${sourceRows.length} page(s), mean overlap ${Math.round(mean((row) => row.overlap) * 100)}%, ` +
+        `selector ${Math.round(mean((row) => row.selectorChars))} chars vs density ${Math.round(mean((row) => row.densityChars))} chars`
+    );
+  }
+
+  const failed = rows.filter((row) => row.error);
+  const diverging = rows.filter((row) => !row.error && row.overlap < AGREEMENT_OVERLAP);
+  const agreeing = rows.length - failed.length - diverging.length;
+
+  console.log(
+    `\n${diverging.length + failed.length === 0 ? "✅" : "⚠️ "} ${agreeing}/${rows.length} page(s) agree ` +
+      `(selectors found ≥ ${Math.round(AGREEMENT_OVERLAP * 100)}% of the density paragraphs)`
+  );
+  diverging.forEach((row) =>
+    console.log(
+      `   - ${row.source}/${row.fixture}: ${Math.round(row.overlap * 100)}% overlap ` +
+        `(${row.selectorParagraphs} selector ¶ vs ${row.densityParagraphs} density ¶)`
+    )
+  );
+  failed.forEach((row) => console.log(`   ! ${row.source}/${row.fixture}: ${row.error}`));
+  console.log("");
+}
+
+function compareBodyExtraction(): void {
+  const dir = getArg("dir");
+  const sourceFilter = getArg("source");
+  const verbose = process.argv.includes("--verbose");
+
+  const pages = (dir ? listDirectoryPages(path.resolve(process.cwd(), dir)) : listScraperFixturePages()).filter(
+    (page) => !sourceFilter || page.source === sourceFilter
+  );
+
+  if (pages.length === 0) {
+    console.error(`❌ No article fixtures found${dir ? ` at ${path.resolve(process.cwd(), dir)}` : ""}`);
+    console.error("   Capture some with: npm run fixtures:refresh -- --source=<sourceKey>\n");
+    process.exit(1);
+  }
+
+  const rows = pages.map((page) => compareFixture(page, verbose));
+
+  console.log("\n" + "=".repeat(80));
+  console.log("📊 Body extraction: source selectors vs content density");
+  console.log("=".repeat(80));
+  console.table(
+    rows.map((row) => ({
+      source: row.source,
+      fixture: row.fixture,
+      "selector ¶": row.selectorParagraphs,
+      "selector chars": row.selectorChars,
+      "density ¶": row.densityParagraphs,
+      "density chars": row.densityChars,
+      overlap: `${Math.round(row.overlap * 100)}%`,
+      error: row.error ?? "",
+    }))
+  );
+  printSummary(rows);
+}
+
+// Run if called directly
+if (require.main === module) {
+  compareBodyExtraction();
+}
+
+export { compareBodyExtraction };
@@ -0,0 +1,87 @@
+/**
+ * Offline feed parser tests: parses each saved RSS/Atom document and checks
+ * every item's title, url, imageUrl and publishedAt against its golden file.
+ *
+ * Fixtures: fixtures/feeds/<name>.xml + <name>.expected.json ({ baseUrl?, items })
+ * Run this with: npm run feed-fixtures [-- --dir=<fixturesDir>]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parseFeed } from "../sources/engine/feed";
+import type { SourceArticleItem } from "../sources/registry";
+
+interface FeedExpectation {
+  baseUrl?: string;
+  items: SourceArticleItem[];
+}
+
+const CHECKED_FIELDS = ["title", "url", "imageUrl", "publishedAt"] as const;
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split("=").slice(1).join("=") : undefined;
+}
+
+/**
+ * Parses one feed fixture and lists every difference from its golden items
+ */
+function checkFeedFixture(xmlPath: string, expectation: FeedExpectation): string[] {
+  const actual = parseFeed(fs.readFileSync(xmlPath, "utf-8"), expectation.baseUrl);
+  const failures: string[] = [];
+
+  if (actual.length !== expectation.items.length) {
+    failures.push(`items.length: expected ${expectation.items.length}, got ${actual.length}`);
+  }
+  expectation.items.forEach((expected, index) => {
+    for (const field of CHECKED_FIELDS) {
+      if (expected[field] !== actual[index]?.[field]) {
+        failures.push(
+          `items[${index}].${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(actual[index]?.[field])}`
+        );
+      }
+    }
+  });
+
+  return failures;
+}
+
+function feedFixtures(): void {
+  const fixturesDir = path.resolve(process.cwd(), getArg("dir") || path.join("fixtures", "feeds"));
+  const files = fs.existsSync(fixturesDir)
+    ? fs.readdirSync(fixturesDir).filter((file) => file.endsWith(".xml")).sort()
+    : [];
+
+  if (files.length === 0) {
+    console.error(`❌ No feed fixtures found at ${fixturesDir}`);
+    process.exit(1);
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log("🧪 Feed fixtures");
+  console.log("=".repeat(80));
+
+  let failed = 0;
+  for (const file of files) {
+    const expectedPath = path.join(fixturesDir, file.replace(/\.xml$/, ".expected.json"));
+    const failures = fs.existsSync(expectedPath)
+      ? checkFeedFixture(path.join(fixturesDir, file), JSON.parse(fs.readFileSync(expectedPath, "utf-8")))
+      : [`missing ${path.basename(expectedPath)}`];
+
+    console.log(`${failures.length === 0 ? "✅" : "❌"} ${file}`);
+    failures.forEach((failure) => console.log(`   - ${failure}`));
+    if (failures.length > 0) failed += 1;
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} feed(s) passed\n`);
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  feedFixtures();
+}
+
+export { feedFixtures };
@@ -0,0 +1,46 @@
+/**
+ * Removes old entries from the on-disk HTTP cache
+ *
+ * Run this with: npm run prune-http-cache [-- --max-age-hours=<hours>] [--all]
+ * Default max age: HTTP_CACHE_MAX_AGE_MS (7 days)
+ */
+
+import { HTTP_CACHE_MAX_AGE_MS, pruneHttpCache } from "../http";
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split("=").slice(1).join("=") : undefined;
+}
+
+function pruneCache(): void {
+  const maxAgeHours = getArg("max-age-hours");
+  const maxAgeMs = process.argv.includes("--all")
+    ? 0
+    : maxAgeHours !== undefined
+      ? Number(maxAgeHours) * 60 * 60 * 1000
+      : HTTP_CACHE_MAX_AGE_MS;
+
+  if (!Number.isFinite(maxAgeMs) || maxAgeMs < 0) {
+    console.error(`❌ Invalid --max-age-hours: ${maxAgeHours}`);
+    process.exit(1);
+  }
+
+  console.log(
+    maxAgeMs === 0
+      ? "🧹 Removing all HTTP cache entries..."
+      : `🧹 Removing HTTP cache entries older than ${(maxAgeMs / 3600000).toFixed(1)}h...`
+  );
+
+  const result = pruneHttpCache(maxAgeMs);
+  console.log(
+    `✅ Removed ${result.removed} entr${result.removed === 1 ? "y" : "ies"} ` +
+      `(${(result.bytesFreed / 1024 / 1024).toFixed(2)} MB), kept ${result.kept}`
+  );
+}
+
+// Run if called directly
+if (require.main === module) {
+  pruneCache();
+}
+
+export { pruneCache };
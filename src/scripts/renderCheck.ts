@@ -0,0 +1,105 @@
+/**
+ * Checks the headless rendering backend against a local static server
+ *
+ * Serves a page whose story list is injected by a script after load, then
+ * extracts its links once over plain HTTP and once rendered. Plain HTTP should
+ * find none, rendering all of them.
+ *
+ * Run this with: npm run render-check [-- --port=<port>]
+ * Needs the optional Playwright dependency and its browser: npx playwright install chromium
+ */
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as cheerio from "cheerio";
+import { closeRenderer, httpGet, renderPage, RenderUnavailableError } from "../http";
+
+const STORY_COUNT = 5;
+const STORY_SELECTOR = "ul#stories a[href*='/news/']";
+
+const TEST_PAGE = `<!doctype html>
+<html>
+  <head><title>Render check</title></head>
+  <body>
+    <ul id="stories"></ul>
+    <script>
+      setTimeout(function () {
+        var list = document.getElementById("stories");
+        for (var i = 1; i <= ${STORY_COUNT}; i++) {
+          var item = document.createElement("li");
+          item.innerHTML = '<a href="/news/story-' + i + '">Lazy-loaded story number ' + i + '</a>';
+          list.appendChild(item);
+        }
+      }, 300);
+    </script>
+  </body>
+</html>`;
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split("=").slice(1).join("=") : undefined;
+}
+
+function startServer(port: number): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    if (request.url === "/robots.txt") {
+      response.writeHead(200, { "Content-Type": "text/plain" });
+      response.end("User-agent: *\nAllow: /\n");
+      return;
+    }
+    if (request.url === "/") {
+      response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      response.end(TEST_PAGE);
+      return;
+    }
+    response.writeHead(404);
+    response.end();
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => resolve(server));
+  });
+}
+
+function countStories(html: string): number {
+  return cheerio.load(html)(STORY_SELECTOR).length;
+}
+
+async function renderCheck(): Promise<void> {
+  const server = await startServer(parseInt(getArg("port") || "0", 10));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  console.log(`🧪 Serving test page at ${url}`);
+
+  try {
+    const plain = countStories((await httpGet(url)).data);
+    console.log(`   Plain HTTP: ${plain}/${STORY_COUNT} stories`);
+
+    const rendered = countStories(await renderPage(url, { waitForSelector: STORY_SELECTOR, timeoutMs: 10000 }));
+    console.log(`   Rendered:   ${rendered}/${STORY_COUNT} stories`);
+
+    if (plain !== 0 || rendered !== STORY_COUNT) {
+      console.error("❌ Rendered DOM doesn't match the expected story list");
+      process.exitCode = 1;
+      return;
+    }
+    console.log("✅ Rendering backend works\n");
+  } finally {
+    await closeRenderer();
+    server.close();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  renderCheck().catch((error) => {
+    if (error instanceof RenderUnavailableError) {
+      console.error(`⚠️  ${error.message}`);
+    } else {
+      console.error("❌ Render check failed:", error instanceof Error ? error.message : error);
+    }
+    process.exit(1);
+  });
+}
+
+export { renderCheck };
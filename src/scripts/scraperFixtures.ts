@@ -0,0 +1,112 @@
+/**
+ * Offline scraper tests: replays each source's listing and detail functions
+ * against its saved pages and compares the output with the golden values.
+ *
+ * Fixtures: fixtures/sources/<sourceKey>/manifest.json + saved pages
+ * Run this with: npm run fixtures [-- --source=<sourceKey>] [--update] (part of npm test)
+ *   --update rewrites the golden values from the current extraction (after an intended change)
+ * Refresh from the live site: npm run fixtures:refresh -- --source=<sourceKey> [--url=<articleUrl>,...] [--details=<n>]
+ */
+
+import {
+  listFixtureSources,
+  loadFixtureManifest,
+  refreshFixture,
+  runFixture,
+  saveFixtureManifest,
+  updateFixtureExpectations,
+  type FixtureRunResult,
+} from "../fixtures";
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split("=").slice(1).join("=") : undefined;
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+async function refresh(source: string | undefined): Promise<void> {
+  if (!source) {
+    console.error("❌ --refresh needs --source=<sourceKey>");
+    process.exit(1);
+  }
+
+  const urls = getArg("url")?.split(",").filter(Boolean);
+  const details = getArg("details");
+  console.log(`🌐 Capturing ${source} from the live site...`);
+  const manifest = await refreshFixture(source, {
+    detailUrls: urls,
+    detailCount: details ? parseInt(details, 10) : undefined,
+  });
+  console.log(
+    `✅ Saved ${Object.keys(manifest.pages).length} page(s): ` +
+      `${manifest.listing?.expected.length ?? 0} listing item(s), ${manifest.details.length} article(s)`
+  );
+}
+
+async function scraperFixtures(): Promise<void> {
+  const sourceFilter = getArg("source");
+
+  if (process.argv.includes("--refresh")) {
+    await refresh(sourceFilter);
+    return;
+  }
+
+  const sources = listFixtureSources().filter((source) => !sourceFilter || source === sourceFilter);
+  // An empty fixture set must not pass as green
+  if (sources.length === 0) {
+    console.error(`❌ No scraper fixtures found${sourceFilter ? ` for ${sourceFilter}` : ""}`);
+    console.error("   Capture one with: npm run fixtures:refresh -- --source=<sourceKey>\n");
+    process.exit(1);
+  }
+
+  if (process.argv.includes("--update")) {
+    for (const source of sources) {
+      saveFixtureManifest(await updateFixtureExpectations(loadFixtureManifest(source)));
+      console.log(`📝 Updated golden values for ${source}`);
+    }
+    return;
+  }
+
+  const results: FixtureRunResult[] = [];
+  const synthetic = new Set<string>();
+  for (const source of sources) {
+    const manifest = loadFixtureManifest(source);
+    if (manifest.synthetic) synthetic.add(source);
+    results.push(await runFixture(manifest));
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log("🧪 Scraper fixtures");
+  console.log("=".repeat(80));
+  for (const result of results) {
+    const passed = result.mismatches.length === 0 && result.errors.length === 0;
+    const note = synthetic.has(result.source) ? ", synthetic pages" : "";
+    console.log(`${passed ? "✅" : "❌"} ${result.source} (${result.checks} check(s)${note})`);
+    result.errors.forEach((error) => console.log(`   ! ${error}`));
+    result.mismatches.forEach((mismatch) =>
+      console.log(
+        `   - ${mismatch.target} ${mismatch.field}: expected ${formatValue(mismatch.expected)}, got ${formatValue(mismatch.actual)}`
+      )
+    );
+  }
+
+  const failed = results.filter((result) => result.mismatches.length > 0 || result.errors.length > 0);
+  console.log(`\n${results.length - failed.length}/${results.length} source(s) passed\n`);
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  scraperFixtures().catch((error) => {
+    console.error("❌ Fixture run failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
+
+export { scraperFixtures };
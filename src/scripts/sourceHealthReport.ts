@@ -0,0 +1,76 @@
+/**
+ * Prints the health of every scraped source: success rate, bad-run streak,
+ * zero-item runs, since when a source has been degraded, and drifting selectors
+ *
+ * Run this with: npm run source-health [-- --reset=<sourceKey>]
+ * --reset closes the source's circuit breaker (e.g. after fixing its selectors)
+ */
+
+import { getDriftAlerts, SNAPSHOT_DIR } from "../drift";
+import { getSourceHealthReport, resetSourceCircuit } from "../health";
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.split("=").slice(1).join("=") : undefined;
+}
+
+const STATUS_ICONS = { healthy: "✅", degraded: "⚠️ ", broken: "❌" };
+
+function sourceHealthReport(): void {
+  const resetSource = getArg("reset");
+  if (resetSource) {
+    if (!resetSourceCircuit(resetSource)) {
+      console.error(`❌ No health record for source: ${resetSource}`);
+      process.exit(1);
+    }
+    console.log(`🔌 Circuit closed for ${resetSource}\n`);
+  }
+
+  const report = getSourceHealthReport();
+  if (report.length === 0) {
+    console.log("⚠️  No source runs recorded yet\n");
+    return;
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log("🩺 Source health");
+  console.log("=".repeat(80));
+  console.table(
+    report.map((row) => ({
+      source: `${STATUS_ICONS[row.status]} ${row.source}`,
+      success: `${Math.round(row.successRate * 100)}%`,
+      runs: row.runs,
+      "bad streak": row.consecutiveFailures,
+      "zero-item runs": row.zeroItemRuns,
+      "degraded since": row.degradedSince ?? "",
+      circuit: row.retryAt ? `${row.circuit} until ${row.retryAt}` : row.circuit,
+      "last error": (row.lastError ?? "").slice(0, 60),
+    }))
+  );
+
+  const driftAlerts = getDriftAlerts();
+  if (driftAlerts.length > 0) {
+    console.log("\n🧭 Drifting selectors (HTML snapshots in " + SNAPSHOT_DIR + "/<source>/)");
+    console.table(
+      driftAlerts.map((alert) => ({
+        source: alert.source,
+        field: alert.field,
+        primary: alert.primaryStrategy ?? "",
+        now: alert.currentStrategy,
+        misses: alert.consecutivePrimaryMisses,
+        since: alert.driftingSince,
+      }))
+    );
+  }
+
+  const broken = report.filter((row) => row.status === "broken").length;
+  const degraded = report.filter((row) => row.status === "degraded").length;
+  console.log(`\n${broken} broken, ${degraded} degraded, ${report.length - broken - degraded} healthy\n`);
+}
+
+// Run if called directly
+if (require.main === module) {
+  sourceHealthReport();
+}
+
+export { sourceHealthReport };
@@ -0,0 +1,169 @@
+/**
+ * Near-duplicate clustering of collected articles
+ *
+ * Articles whose bodies (or titles plus bodies) are near-identical are grouped
+ * with union-find; each group keeps one representative for ChatGPT. Articles
+ * matching a story rewritten or published within the window are dropped.
+ */
+
+import { urlIdentityKey } from "../core/canonicalUrl";
+import {
+  SIMILARITY_BODY_THRESHOLD,
+  SIMILARITY_TITLE_THRESHOLD,
+  SOURCE_PREFERENCE,
+} from "./config";
+import { estimateSimilarity, fingerprintArticle, fnv1a, tokenSimilarity } from "./minhash";
+import type { ArticleCluster, ArticleFingerprint, ClusteringResult, PriorDuplicate } from "./types";
+
+/**
+ * Fields clustering looks at (collected articles carry many more)
+ */
+export interface ClusterableArticle {
+  url: string;
+  canonicalUrl?: string;
+  title: string;
+  body?: string;
+  excerpt?: string;
+  origin?: string;
+  success?: boolean;
+  publishedAt?: string;
+  imageUrl?: string;
+}
+
+/**
+ * A recently rewritten/published article to compare the run against
+ */
+export interface PriorFingerprint {
+  url: string; // Normalized URL (ledger key)
+  status: string;
+  fingerprint: ArticleFingerprint;
+}
+
+/**
+ * Similarity of two fingerprints if they are the same story, otherwise null
+ */
+export function matchFingerprints(a: ArticleFingerprint, b: ArticleFingerprint): number | null {
+  const bodySimilarity = estimateSimilarity(a.signature, b.signature);
+  if (bodySimilarity >= SIMILARITY_BODY_THRESHOLD) return bodySimilarity;
+
+  const titleSimilarity = tokenSimilarity(a.titleTokens, b.titleTokens);
+  if (titleSimilarity >= SIMILARITY_TITLE_THRESHOLD && bodySimilarity >= SIMILARITY_BODY_THRESHOLD / 2) {
+    return Math.max(bodySimilarity, titleSimilarity);
+  }
+  return null;
+}
+
+function sourcePreference(origin?: string): number {
+  if (!origin) return 0;
+  const prefix = Object.keys(SOURCE_PREFERENCE).find((key) => origin.startsWith(key));
+  return prefix ? SOURCE_PREFERENCE[prefix] : 1;
+}
+
+/**
+ * Orders cluster members: preferred source, then fuller body, then having an image, then earliest
+ */
+function compareCandidates(a: ClusterableArticle, b: ClusterableArticle): number {
+  return (
+    sourcePreference(b.origin) - sourcePreference(a.origin) ||
+    Math.min((b.body ?? "").length, 8000) - Math.min((a.body ?? "").length, 8000) ||
+    Number(Boolean(b.imageUrl)) - Number(Boolean(a.imageUrl)) ||
+    (a.publishedAt ?? "").localeCompare(b.publishedAt ?? "")
+  );
+}
+
+/**
+ * Clusters near-duplicate articles and picks one representative per story
+ *
+ * @param articles - Collected articles of the run (failed scrapes pass through untouched)
+ * @param prior - Fingerprints of articles rewritten/published within the window
+ * @returns Representatives in their original order, plus the cluster decisions
+ */
+export function clusterArticles<T extends ClusterableArticle>(
+  articles: T[],
+  prior: PriorFingerprint[] = []
+): ClusteringResult<T> {
+  const fingerprints = articles.map((article) => fingerprintArticle(article));
+  // Syndicated copies share a canonical URL whatever their text looks like
+  const identities = articles.map((article) => urlIdentityKey(article.canonicalUrl ?? article.url));
+  const dropped = new Set<number>();
+  const priorDuplicates: PriorDuplicate[] = [];
+
+  // 1) Stories already handled by an earlier run
+  articles.forEach((article, index) => {
+    if (article.success === false) return;
+    for (const candidate of prior) {
+      if (candidate.url === urlIdentityKey(article.url)) continue;
+      const similarity =
+        candidate.url === identities[index] ? 1 : matchFingerprints(fingerprints[index], candidate.fingerprint);
+      if (similarity !== null) {
+        dropped.add(index);
+        priorDuplicates.push({
+          url: article.url,
+          title: article.title,
+          matchedUrl: candidate.url,
+          matchedStatus: candidate.status,
+          similarity,
+        });
+        return;
+      }
+    }
+  });
+
+  // 2) Union-find over the remaining successful articles
+  const parent = articles.map((_, index) => index);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const eligible = articles
+    .map((article, index) => index)
+    .filter((index) => !dropped.has(index) && articles[index].success !== false);
+
+  for (let i = 0; i < eligible.length; i++) {
+    for (let j = i + 1; j < eligible.length; j++) {
+      const a = eligible[i];
+      const b = eligible[j];
+      if (
+        find(a) !== find(b) &&
+        (identities[a] === identities[b] || matchFingerprints(fingerprints[a], fingerprints[b]) !== null)
+      ) {
+        parent[find(b)] = find(a);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const index of eligible) {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  }
+
+  // 3) One representative per group
+  const clusters: ArticleCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+
+    const [best, ...rest] = [...members].sort((a, b) => compareCandidates(articles[a], articles[b]));
+    rest.forEach((index) => dropped.add(index));
+
+    const representative = articles[best];
+    clusters.push({
+      id: `cluster-${fnv1a(representative.url).toString(16)}`,
+      representativeUrl: representative.url,
+      members: [best, ...rest].map((index) => ({
+        url: articles[index].url,
+        origin: articles[index].origin,
+        title: articles[index].title,
+        // Members joined through another member may not match the representative directly
+        similarity:
+          index === best
+            ? 1
+            : (matchFingerprints(fingerprints[best], fingerprints[index]) ??
+              estimateSimilarity(fingerprints[best].signature, fingerprints[index].signature)),
+      })),
+    });
+  }
+
+  return {
+    representatives: articles.filter((_, index) => !dropped.has(index)),
+    clusters,
+    priorDuplicates,
+  };
+}
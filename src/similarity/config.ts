@@ -0,0 +1,46 @@
+/**
+ * Configuration for near-duplicate story clustering
+ */
+
+/**
+ * Clustering switch - set SIMILARITY_ENABLED=false to send every collected article to ChatGPT
+ */
+export const SIMILARITY_ENABLED = process.env.SIMILARITY_ENABLED !== "false";
+
+/**
+ * Estimated body Jaccard similarity (MinHash over word shingles) from which two
+ * articles count as the same story. Wire copies of one story score well above 0.5,
+ * different stories on the same topic well below.
+ */
+export const SIMILARITY_BODY_THRESHOLD = parseFloat(process.env.SIMILARITY_BODY_THRESHOLD || "0.5");
+
+/**
+ * Title token overlap that, together with half the body threshold, also counts as
+ * the same story (rewritten intros, same headline)
+ */
+export const SIMILARITY_TITLE_THRESHOLD = parseFloat(process.env.SIMILARITY_TITLE_THRESHOLD || "0.6");
+
+/**
+ * Articles rewritten or published within this many hours are compared against
+ * the current run, so a story isn't published again by a later run (default: 48)
+ */
+export const SIMILARITY_WINDOW_HOURS = parseInt(process.env.SIMILARITY_WINDOW_HOURS || "48", 10);
+
+/**
+ * Shingle size in words, and MinHash signature length
+ */
+export const SHINGLE_SIZE = 3;
+export const MINHASH_PERMUTATIONS = 64;
+
+/**
+ * Tie-breaker when picking a cluster representative: wire services and original
+ * reporting first, aggregators last (higher wins). Keys are source key prefixes
+ * ("yahoo" covers yahooUSNews, yahooFinanceNews...); unlisted sources get 1.
+ */
+export const SOURCE_PREFERENCE: Record<string, number> = {
+  apNews: 3,
+  cbs: 2,
+  abcNews: 2,
+  techCrunch: 2,
+  yahoo: 0,
+};
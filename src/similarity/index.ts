@@ -0,0 +1,17 @@
+/**
+ * Near-duplicate Story Clustering - Main Entry Point
+ *
+ * Re-exports all public functions and types
+ */
+
+export { SIMILARITY_ENABLED, SIMILARITY_WINDOW_HOURS } from "./config";
+export type {
+  ArticleFingerprint,
+  ArticleCluster,
+  ClusterMember,
+  PriorDuplicate,
+  ClusteringResult,
+} from "./types";
+export type { ClusterableArticle, PriorFingerprint } from "./cluster";
+export { fingerprintArticle, estimateSimilarity, tokenSimilarity } from "./minhash";
+export { clusterArticles, matchFingerprints } from "./cluster";
@@ -0,0 +1,117 @@
+/**
+ * Text fingerprinting: word shingles, MinHash signatures and title tokens
+ */
+
+import { MINHASH_PERMUTATIONS, SHINGLE_SIZE } from "./config";
+import type { ArticleFingerprint } from "./types";
+
+// Words too common to say anything about the story
+const STOP_WORDS = new Set(
+  "a an and are as at be but by for from has have he her his in is it its of on or said says she that the their they this to was were will with".split(" ")
+);
+
+/**
+ * Deterministic (a, b) coefficients for the hash permutations (a odd, so a * x mod 2^32 is a bijection)
+ */
+const PERMUTATIONS: Array<[number, number]> = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => [
+  fnv1a(`a${i}`) | 1,
+  fnv1a(`b${i}`),
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+}
+
+/**
+ * (a * x + b) mod 2^32
+ */
+function permute(x: number, a: number, b: number): number {
+  return (Math.imul(a, x) + b) >>> 0;
+}
+
+/**
+ * Lower-cased words without punctuation or stop words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Overlapping word n-grams of a text
+ */
+export function shingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = tokenize(text);
+  const result = new Set<string>();
+  if (words.length < size) {
+    if (words.length) result.add(words.join(" "));
+    return result;
+  }
+  for (let i = 0; i <= words.length - size; i++) {
+    result.add(words.slice(i, i + size).join(" "));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature of a shingle set (empty set = empty signature)
+ */
+export function minhashSignature(shingleSet: Set<string>): number[] {
+  if (shingleSet.size === 0) return [];
+  const hashes = [...shingleSet].map(fnv1a);
+  return PERMUTATIONS.map(([a, b]) => {
+    let min = Infinity;
+    for (const hash of hashes) {
+      const value = permute(hash, a, b);
+      if (value < min) min = value;
+    }
+    return min;
+  });
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures (share of equal minimums)
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Exact Jaccard similarity of two token lists
+ */
+export function tokenSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  for (const token of setA) {
+    if (setB.has(token)) shared++;
+  }
+  return shared / (setA.size + setB.size - shared);
+}
+
+/**
+ * Fingerprints an article from its title and body (the excerpt stands in for a missing body)
+ */
+export function fingerprintArticle(article: { title?: string; body?: string; excerpt?: string }): ArticleFingerprint {
+  return {
+    signature: minhashSignature(shingles(article.body || article.excerpt || "")),
+    titleTokens: tokenize(article.title || ""),
+  };
+}
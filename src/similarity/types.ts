@@ -0,0 +1,47 @@
+/**
+ * Type definitions for near-duplicate story clustering
+ */
+
+/**
+ * Fingerprint of one article: MinHash signature of body shingles plus title tokens
+ */
+export interface ArticleFingerprint {
+  signature: number[];
+  titleTokens: string[];
+}
+
+export interface ClusterMember {
+  url: string;
+  origin?: string;
+  title: string;
+  // Similarity to the representative (1 for the representative itself)
+  similarity: number;
+}
+
+/**
+ * A group of articles covering the same story; only the representative is processed
+ */
+export interface ArticleCluster {
+  id: string;
+  representativeUrl: string;
+  members: ClusterMember[];
+}
+
+/**
+ * A run article dropped because the story was already rewritten/published recently
+ */
+export interface PriorDuplicate {
+  url: string;
+  title: string;
+  matchedUrl: string;
+  matchedStatus: string;
+  similarity: number;
+}
+
+export interface ClusteringResult<T> {
+  // One article per story, in the original order
+  representatives: T[];
+  // Clusters with more than one member
+  clusters: ArticleCluster[];
+  priorDuplicates: PriorDuplicate[];
+}
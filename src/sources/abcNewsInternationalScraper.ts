@@ -1,6 +1,13 @@
-import axios from "axios";
+import { httpGet } from "../http";
 import * as cheerio from "cheerio";
-import { logger } from "../config/logger";
+import { extractArticleMetadata, toDetailMetadataFields } from "./engine/metadata";
+import { extractMainContent } from "./engine/readability";
+import { extractBodyBlocks } from "./engine/bodyBlocks";
+import { loadListingPage } from "./engine/listing";
+import { NO_SPEC_MATCH, traceExtractionPage, traceSelectorHit, type SelectorHit } from "./engine/trace";
+import { ABC_SECTION_RENDER } from "./abcNewsUSScraper";
+import type { BodyBlock } from "../core/bodyBlocks";
+import type { SourceArticleDetails } from "./registry";
 
 export interface ABCNewsInternationalArticleItem {
   title: string;
@@ -8,13 +15,7 @@ export interface ABCNewsInternationalArticleItem {
   imageUrl?: string;
 }
 
-export interface ABCNewsInternationalArticleDetails {
-  url: string;
-  title: string;
-  excerpt: string;
-  category: string | null;
-  body: string;
-}
+export type ABCNewsInternationalArticleDetails = SourceArticleDetails;
 
 /**
  * Scrapes ABC News International section (https://abcnews.go.com/International)
@@ -25,11 +26,16 @@ export async function scrapeABCNewsInternationalHomepage(
 ): Promise<ABCNewsInternationalArticleItem[]> {
   const abcNewsInternationalUrl = "https://abcnews.go.com/International";
 
-  const response = await axios.get(abcNewsInternationalUrl);
-  const html = response.data;
+  const html = await loadListingPage(abcNewsInternationalUrl, ABC_SECTION_RENDER);
+  traceExtractionPage(abcNewsInternationalUrl, html);
   const $ = cheerio.load(html);
 
   const items: ABCNewsInternationalArticleItem[] = [];
+  // First pass that found items (the patterns below are fallbacks of each other)
+  let itemsStrategy: SelectorHit | undefined;
+  const notePass = (strategy: string, rank: number): void => {
+    if (!itemsStrategy && items.length > 0) itemsStrategy = { strategy, rank };
+  };
   const seenUrls = new Set<string>();
 
   // ABC News embeds JSON data in the HTML
@@ -60,6 +66,8 @@ export async function scrapeABCNewsInternationalHomepage(
     }
   }
   
+  notePass("json:pattern1", 0);
+
   // Pattern 2: More flexible - match any order of title, type, location
   if (items.length < limit) {
     const storyPattern2 = /"title":"([^"]+)"[^}]*"type":"story"[^}]*"location":"(https:\/\/abcnews\.go\.com\/International\/[^"]*\/story[^"]*)"/g;
@@ -87,6 +95,8 @@ export async function scrapeABCNewsInternationalHomepage(
     }
   }
   
+  notePass("json:pattern2", 1);
+
   // Pattern 3: Even more flexible - just find story type with location
   if (items.length < limit) {
     const storyPattern3 = /"type":"story"[^}]*"location":"(https:\/\/abcnews\.go\.com\/International\/[^"]*\/story[^"]*)"[^}]*"title":"([^"]+)"/g;
@@ -114,6 +124,8 @@ export async function scrapeABCNewsInternationalHomepage(
     }
   }
   
+  notePass("json:pattern3", 2);
+
   // Fallback: Parse HTML directly for article links
   if (items.length < limit) {
     $('a[href*="/International/story"]').each((_, link) => {
@@ -179,6 +191,13 @@ export async function scrapeABCNewsInternationalHomepage(
     });
   }
 
+  notePass('a[href*="/International/story"]', 3);
+  if (itemsStrategy) {
+    traceSelectorHit("items", itemsStrategy.strategy, itemsStrategy.rank);
+  } else {
+    traceSelectorHit("items", "none", NO_SPEC_MATCH);
+  }
+
   return items.slice(0, limit);
 }
 
@@ -192,49 +211,39 @@ export async function scrapeABCNewsInternationalHomepage(
 export async function scrapeABCNewsInternationalArticleDetails(
   articleUrl: string
 ): Promise<ABCNewsInternationalArticleDetails> {
-  const response = await axios.get(articleUrl);
-  const $ = cheerio.load(response.data);
+  const response = await httpGet(articleUrl);
+  traceExtractionPage(articleUrl, response.data);
+  return extractABCNewsInternationalArticleDetails(cheerio.load(response.data), articleUrl);
+}
 
+/**
+ * Extracts article details from an already loaded article page
+ */
+export function extractABCNewsInternationalArticleDetails(
+  $: cheerio.Root,
+  articleUrl: string
+): ABCNewsInternationalArticleDetails {
   // 1) Get title from h1 first (most reliable, matches what users see)
   let title: string | null = null;
   const h1Text = $("h1[data-testid='Heading'], h1.article-title, h1").first().text().trim();
   if (h1Text) {
     title = h1Text;
+    traceSelectorHit("title", "h1[data-testid='Heading'], h1.article-title, h1", 0);
   }
 
-  // 2) Try to parse JSON-LD NewsArticle block for excerpt, description, category
-  let excerpt: string | null = null;
-  let category: string | null = null;
-
-  const ldJsonRaw = $('script[type="application/ld+json"]').first().html();
-  if (ldJsonRaw) {
-    try {
-      const parsed = JSON.parse(ldJsonRaw);
-
-      // If it's an array, find the NewsArticle object; if not, treat as object
-      const articleNode = Array.isArray(parsed)
-        ? parsed.find((node) => node["@type"] === "NewsArticle") ?? parsed[0]
-        : parsed;
+  // 2) Structured metadata (JSON-LD, OpenGraph, meta tags) for excerpt, category, dates, author
+  const metadata = extractArticleMetadata($);
 
-      if (articleNode && typeof articleNode === "object") {
-        // Only use JSON-LD headline if we didn't get one from h1
-        if (!title) {
-          title = (articleNode as any).headline ?? null;
-        }
-        excerpt = (articleNode as any).description ?? null;
-        category =
-          (articleNode as any).articleSection ??
-          (articleNode as any).section ??
-          null;
-      }
-    } catch (err) {
-      logger.warn("Failed to parse JSON-LD for article", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
+  // Only use the structured-data headline if we didn't get one from h1
+  if (!title) {
+    title = metadata.headline;
+    if (title) traceSelectorHit("title", "jsonLd:headline", NO_SPEC_MATCH);
   }
+  let excerpt: string | null = metadata.description;
+  let category: string | null = metadata.section;
 
   if (!title) {
+    traceSelectorHit("title", "none", NO_SPEC_MATCH);
     throw new Error("Could not determine article title");
   }
 
@@ -279,6 +288,7 @@ export async function scrapeABCNewsInternationalArticleDetails(
 
   // 4) Extract body paragraphs - ABC News uses various selectors
   let bodyParagraphs: string[] = [];
+  let bodyBlocks: BodyBlock[] = [];
 
   // Try common ABC News article body selectors
   const articleBodyContainer = $(".article-body, .article-content, article, [class*='article-body'], [class*='article-content']").first();
@@ -290,15 +300,18 @@ export async function scrapeABCNewsInternationalArticleDetails(
       .get()
       .filter(Boolean)
       .filter((text) => text.length > 20); // Filter out very short paragraphs (likely metadata)
+    bodyBlocks = extractBodyBlocks($, articleBodyContainer, { baseUrl: articleUrl, minParagraphLength: 21 });
+    if (bodyParagraphs.length > 0) {
+      traceSelectorHit("body", ".article-body, .article-content, article, [class*='article-body'], [class*='article-content']", 0);
+    }
   }
 
-  // Fallback: get all paragraphs from main content area
+  // Fallback: content-density extraction of the main article block
   if (bodyParagraphs.length === 0) {
-    bodyParagraphs = $("main p, .content p, [data-testid='ArticleBody'] p")
-      .map((_, p) => $(p).text().trim())
-      .get()
-      .filter(Boolean)
-      .filter((text) => text.length > 20);
+    const mainContent = extractMainContent($, articleUrl);
+    bodyParagraphs = mainContent.paragraphs;
+    bodyBlocks = mainContent.blocks;
+    traceSelectorHit("body", bodyParagraphs.length > 0 ? "readability" : "none", NO_SPEC_MATCH);
   }
 
   const body = bodyParagraphs.join("\n\n");
@@ -309,6 +322,8 @@ export async function scrapeABCNewsInternationalArticleDetails(
     excerpt,
     category,
     body,
+    bodyBlocks,
+    ...toDetailMetadataFields(metadata),
   };
 }
 
@@ -1,6 +1,12 @@
-import axios from "axios";
+import { httpGet, type RenderSpec } from "../http";
 import * as cheerio from "cheerio";
-import { logger } from "../config/logger";
+import { extractArticleMetadata, toDetailMetadataFields } from "./engine/metadata";
+import { extractMainContent } from "./engine/readability";
+import { extractBodyBlocks } from "./engine/bodyBlocks";
+import { loadListingPage } from "./engine/listing";
+import { NO_SPEC_MATCH, traceExtractionPage, traceSelectorHit, type SelectorHit } from "./engine/trace";
+import type { BodyBlock } from "../core/bodyBlocks";
+import type { SourceArticleDetails } from "./registry";
 
 export interface ABCNewsUSArticleItem {
   title: string;
@@ -8,13 +14,13 @@ export interface ABCNewsUSArticleItem {
   imageUrl?: string;
 }
 
-export interface ABCNewsUSArticleDetails {
-  url: string;
-  title: string;
-  excerpt: string;
-  category: string | null;
-  body: string;
-}
+export type ABCNewsUSArticleDetails = SourceArticleDetails;
+
+/**
+ * ABC section pages fill their story blocks client-side; when RENDER_ENABLED
+ * they are rendered until story links show up (shared by all ABC sections)
+ */
+export const ABC_SECTION_RENDER: RenderSpec = { waitForSelector: 'a[href*="/story"]' };
 
 /**
  * Scrapes ABC News US section (https://abcnews.go.com/US)
@@ -25,11 +31,16 @@ export async function scrapeABCNewsUSHomepage(
 ): Promise<ABCNewsUSArticleItem[]> {
   const abcNewsUSUrl = "https://abcnews.go.com/US";
 
-  const response = await axios.get(abcNewsUSUrl);
-  const html = response.data;
+  const html = await loadListingPage(abcNewsUSUrl, ABC_SECTION_RENDER);
+  traceExtractionPage(abcNewsUSUrl, html);
   const $ = cheerio.load(html);
 
   const items: ABCNewsUSArticleItem[] = [];
+  // First pass that found items (the patterns below are fallbacks of each other)
+  let itemsStrategy: SelectorHit | undefined;
+  const notePass = (strategy: string, rank: number): void => {
+    if (!itemsStrategy && items.length > 0) itemsStrategy = { strategy, rank };
+  };
   const seenUrls = new Set<string>();
 
   // ABC News embeds JSON data in the HTML
@@ -60,6 +71,8 @@ export async function scrapeABCNewsUSHomepage(
     }
   }
   
+  notePass("json:pattern1", 0);
+
   // Pattern 2: More flexible - match any order of title, type, location
   if (items.length < limit) {
     const storyPattern2 = /"title":"([^"]+)"[^}]*"type":"story"[^}]*"location":"(https:\/\/abcnews\.go\.com\/US\/[^"]*\/story[^"]*)"/g;
@@ -87,6 +100,8 @@ export async function scrapeABCNewsUSHomepage(
     }
   }
   
+  notePass("json:pattern2", 1);
+
   // Pattern 3: Even more flexible - just find story type with location
   if (items.length < limit) {
     const storyPattern3 = /"type":"story"[^}]*"location":"(https:\/\/abcnews\.go\.com\/US\/[^"]*\/story[^"]*)"[^}]*"title":"([^"]+)"/g;
@@ -114,6 +129,8 @@ export async function scrapeABCNewsUSHomepage(
     }
   }
   
+  notePass("json:pattern3", 2);
+
   // Fallback: Parse HTML directly for article links
   if (items.length < limit) {
     $('a[href*="/US/story"]').each((_, link) => {
@@ -179,6 +196,13 @@ export async function scrapeABCNewsUSHomepage(
     });
   }
 
+  notePass('a[href*="/US/story"]', 3);
+  if (itemsStrategy) {
+    traceSelectorHit("items", itemsStrategy.strategy, itemsStrategy.rank);
+  } else {
+    traceSelectorHit("items", "none", NO_SPEC_MATCH);
+  }
+
   return items.slice(0, limit);
 }
 
@@ -192,49 +216,39 @@ export async function scrapeABCNewsUSHomepage(
 export async function scrapeABCNewsUSArticleDetails(
   articleUrl: string
 ): Promise<ABCNewsUSArticleDetails> {
-  const response = await axios.get(articleUrl);
-  const $ = cheerio.load(response.data);
+  const response = await httpGet(articleUrl);
+  traceExtractionPage(articleUrl, response.data);
+  return extractABCNewsUSArticleDetails(cheerio.load(response.data), articleUrl);
+}
 
+/**
+ * Extracts article details from an already loaded article page
+ */
+export function extractABCNewsUSArticleDetails(
+  $: cheerio.Root,
+  articleUrl: string
+): ABCNewsUSArticleDetails {
   // 1) Get title from h1 first (most reliable, matches what users see)
   let title: string | null = null;
   const h1Text = $("h1[data-testid='Heading'], h1.article-title, h1").first().text().trim();
   if (h1Text) {
     title = h1Text;
+    traceSelectorHit("title", "h1[data-testid='Heading'], h1.article-title, h1", 0);
   }
 
-  // 2) Try to parse JSON-LD NewsArticle block for excerpt, description, category
-  let excerpt: string | null = null;
-  let category: string | null = null;
-
-  const ldJsonRaw = $('script[type="application/ld+json"]').first().html();
-  if (ldJsonRaw) {
-    try {
-      const parsed = JSON.parse(ldJsonRaw);
+  // 2) Structured metadata (JSON-LD, OpenGraph, meta tags) for excerpt, category, dates, author
+  const metadata = extractArticleMetadata($);
 
-      // If it's an array, find the NewsArticle object; if not, treat as object
-      const articleNode = Array.isArray(parsed)
-        ? parsed.find((node) => node["@type"] === "NewsArticle") ?? parsed[0]
-        : parsed;
-
-      if (articleNode && typeof articleNode === "object") {
-        // Only use JSON-LD headline if we didn't get one from h1
-        if (!title) {
-          title = (articleNode as any).headline ?? null;
-        }
-        excerpt = (articleNode as any).description ?? null;
-        category =
-          (articleNode as any).articleSection ??
-          (articleNode as any).section ??
-          null;
-      }
-    } catch (err) {
-      logger.warn("Failed to parse JSON-LD for article", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
+  // Only use the structured-data headline if we didn't get one from h1
+  if (!title) {
+    title = metadata.headline;
+    if (title) traceSelectorHit("title", "jsonLd:headline", NO_SPEC_MATCH);
   }
+  let excerpt: string | null = metadata.description;
+  let category: string | null = metadata.section;
 
   if (!title) {
+    traceSelectorHit("title", "none", NO_SPEC_MATCH);
     throw new Error("Could not determine article title");
   }
 
@@ -279,6 +293,7 @@ export async function scrapeABCNewsUSArticleDetails(
 
   // 4) Extract body paragraphs - ABC News uses various selectors
   let bodyParagraphs: string[] = [];
+  let bodyBlocks: BodyBlock[] = [];
 
   // Try common ABC News article body selectors
   const articleBodyContainer = $(".article-body, .article-content, article, [class*='article-body'], [class*='article-content']").first();
@@ -290,15 +305,18 @@ export async function scrapeABCNewsUSArticleDetails(
       .get()
       .filter(Boolean)
       .filter((text) => text.length > 20); // Filter out very short paragraphs (likely metadata)
+    bodyBlocks = extractBodyBlocks($, articleBodyContainer, { baseUrl: articleUrl, minParagraphLength: 21 });
+    if (bodyParagraphs.length > 0) {
+      traceSelectorHit("body", ".article-body, .article-content, article, [class*='article-body'], [class*='article-content']", 0);
+    }
   }
 
-  // Fallback: get all paragraphs from main content area
+  // Fallback: content-density extraction of the main article block
   if (bodyParagraphs.length === 0) {
-    bodyParagraphs = $("main p, .content p, [data-testid='ArticleBody'] p")
-      .map((_, p) => $(p).text().trim())
-      .get()
-      .filter(Boolean)
-      .filter((text) => text.length > 20);
+    const mainContent = extractMainContent($, articleUrl);
+    bodyParagraphs = mainContent.paragraphs;
+    bodyBlocks = mainContent.blocks;
+    traceSelectorHit("body", bodyParagraphs.length > 0 ? "readability" : "none", NO_SPEC_MATCH);
   }
 
   const body = bodyParagraphs.join("\n\n");
@@ -309,6 +327,8 @@ export async function scrapeABCNewsUSArticleDetails(
     excerpt,
     category,
     body,
+    bodyBlocks,
+    ...toDetailMetadataFields(metadata),
   };
 }
 
@@ -1,6 +1,11 @@
-import axios from "axios";
+import { httpGet } from "../http";
 import * as cheerio from "cheerio";
-import { logger } from "../config/logger";
+import { extractArticleMetadata, toDetailMetadataFields } from "./engine/metadata";
+import { extractMainContent } from "./engine/readability";
+import { extractBodyBlocks } from "./engine/bodyBlocks";
+import { NO_SPEC_MATCH, traceExtractionPage, traceSelectorHit } from "./engine/trace";
+import type { BodyBlock } from "../core/bodyBlocks";
+import type { SourceArticleDetails } from "./registry";
 
 export interface CBSUSArticleItem {
   title: string;
@@ -8,13 +13,7 @@ export interface CBSUSArticleItem {
   imageUrl?: string;
 }
 
-export interface CBSUSArticleDetails {
-  url: string;
-  title: string;
-  excerpt: string;
-  category: string | null;
-  body: string;
-}
+export type CBSUSArticleDetails = SourceArticleDetails;
 
 /**
  * Scrapes CBS News US section (https://www.cbsnews.com/us/)
@@ -30,7 +29,8 @@ export async function scrapeCBSUSNews(
 ): Promise<CBSUSArticleItem[]> {
   const cbsUSUrl = "https://www.cbsnews.com/us/";
 
-  const response = await axios.get(cbsUSUrl);
+  const response = await httpGet(cbsUSUrl);
+  traceExtractionPage(cbsUSUrl, response.data);
   const $ = cheerio.load(response.data);
 
   const items: CBSUSArticleItem[] = [];
@@ -87,6 +87,11 @@ export async function scrapeCBSUSNews(
     items.push({ title, url, imageUrl });
   });
 
+  if (items.length > 0) {
+    traceSelectorHit("items", "a.item__anchor", 0);
+  } else {
+    traceSelectorHit("items", "none", NO_SPEC_MATCH);
+  }
 
   return items;
 }
@@ -101,49 +106,39 @@ export async function scrapeCBSUSNews(
 export async function scrapeCBSUSArticleDetails(
   articleUrl: string
 ): Promise<CBSUSArticleDetails> {
-  const response = await axios.get(articleUrl);
-  const $ = cheerio.load(response.data);
+  const response = await httpGet(articleUrl);
+  traceExtractionPage(articleUrl, response.data);
+  return extractCBSUSArticleDetails(cheerio.load(response.data), articleUrl);
+}
 
+/**
+ * Extracts article details from an already loaded article page
+ */
+export function extractCBSUSArticleDetails(
+  $: cheerio.Root,
+  articleUrl: string
+): CBSUSArticleDetails {
   // 1) Get title from h1 first (most reliable, matches what users see)
   let title: string | null = null;
   const h1Text = $("h1.content__title, h1").first().text().trim();
   if (h1Text) {
     title = h1Text;
+    traceSelectorHit("title", "h1.content__title, h1", 0);
   }
 
-  // 2) Try to parse JSON-LD NewsArticle block for excerpt, description, category
-  let excerpt: string | null = null;
-  let category: string | null = null;
+  // 2) Structured metadata (JSON-LD, OpenGraph, meta tags) for excerpt, category, dates, author
+  const metadata = extractArticleMetadata($);
 
-  const ldJsonRaw = $('script[type="application/ld+json"]').first().html();
-  if (ldJsonRaw) {
-    try {
-      const parsed = JSON.parse(ldJsonRaw);
-
-      // If it's an array, find the NewsArticle object; if not, treat as object
-      const articleNode = Array.isArray(parsed)
-        ? parsed.find((node) => node["@type"] === "NewsArticle") ?? parsed[0]
-        : parsed;
-
-      if (articleNode && typeof articleNode === "object") {
-        // Only use JSON-LD headline if we didn't get one from h1
-        if (!title) {
-          title = (articleNode as any).headline ?? null;
-        }
-        excerpt = (articleNode as any).description ?? null;
-        category =
-          (articleNode as any).articleSection ??
-          (articleNode as any).section ??
-          null;
-      }
-    } catch (err) {
-      logger.warn("Failed to parse JSON-LD for article", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
+  // Only use the structured-data headline if we didn't get one from h1
+  if (!title) {
+    title = metadata.headline;
+    if (title) traceSelectorHit("title", "jsonLd:headline", NO_SPEC_MATCH);
   }
+  let excerpt: string | null = metadata.description;
+  let category: string | null = metadata.section;
 
   if (!title) {
+    traceSelectorHit("title", "none", NO_SPEC_MATCH);
     throw new Error("Could not determine article title");
   }
 
@@ -186,6 +181,7 @@ export async function scrapeCBSUSArticleDetails(
 
   // 4) Extract body paragraphs - CBS News uses .content__body or .article-body
   let bodyParagraphs: string[] = [];
+  let bodyBlocks: BodyBlock[] = [];
 
   // CBS News article body is in .content__body
   const articleBodyContainer = $(".content__body, .article-body, article").first();
@@ -196,14 +192,18 @@ export async function scrapeCBSUSArticleDetails(
       .map((_, p) => $(p).text().trim())
       .get()
       .filter(Boolean);
+    bodyBlocks = extractBodyBlocks($, articleBodyContainer, { baseUrl: articleUrl });
+    if (bodyParagraphs.length > 0) {
+      traceSelectorHit("body", ".content__body, .article-body, article", 0);
+    }
   }
 
-  // Fallback: get all paragraphs from main content area
+  // Fallback: content-density extraction of the main article block
   if (bodyParagraphs.length === 0) {
-    bodyParagraphs = $("main p, .content p")
-      .map((_, p) => $(p).text().trim())
-      .get()
-      .filter(Boolean);
+    const mainContent = extractMainContent($, articleUrl);
+    bodyParagraphs = mainContent.paragraphs;
+    bodyBlocks = mainContent.blocks;
+    traceSelectorHit("body", bodyParagraphs.length > 0 ? "readability" : "none", NO_SPEC_MATCH);
   }
 
   const body = bodyParagraphs.join("\n\n");
@@ -214,6 +214,8 @@ export async function scrapeCBSUSArticleDetails(
     excerpt,
     category,
     body,
+    bodyBlocks,
+    ...toDetailMetadataFields(metadata),
   };
 }
 
@@ -0,0 +1,157 @@
+/**
+ * DOM to body block conversion for article pages
+ */
+
+import * as cheerio from "cheerio";
+import type { BodyBlock, BodySpan } from "../../core/bodyBlocks";
+import { blockToText } from "../../core/bodyBlocks";
+
+const BLOCK_SELECTOR = "p, h2, h3, h4, h5, h6, ul, ol, blockquote, figure, img";
+
+export interface BodyBlockOptions {
+  // Used to resolve relative link and image URLs
+  baseUrl?: string;
+  // Paragraphs shorter than this are dropped (headings, lists and images are kept)
+  minParagraphLength?: number;
+  // Paragraphs matching any of these are dropped
+  excludePatterns?: RegExp[];
+}
+
+/**
+ * Converts article body elements into blocks, in document order
+ *
+ * @param $ - Loaded page
+ * @param $roots - Body container(s), or the block elements themselves
+ */
+export function extractBodyBlocks(
+  $: cheerio.Root,
+  $roots: cheerio.Cheerio,
+  options: BodyBlockOptions = {}
+): BodyBlock[] {
+  const blocks: BodyBlock[] = [];
+
+  $roots.each((_, root) => {
+    const $root = $(root);
+    const addBlock = ($el: cheerio.Cheerio): void => {
+      const block = toBlock($, $el, options);
+      if (block && keepBlock(block, options)) {
+        blocks.push(block);
+      }
+    };
+
+    if ($root.is(BLOCK_SELECTOR)) {
+      addBlock($root);
+      return;
+    }
+
+    $root.find(BLOCK_SELECTOR).each((_, el) => {
+      const $el = $(el);
+      // Nested blocks are handled by their outermost block (p in blockquote, img in figure, ul in li...)
+      if ($el.parentsUntil($root).filter(BLOCK_SELECTOR + ", li").length > 0) return;
+      addBlock($el);
+    });
+  });
+
+  return blocks;
+}
+
+function toBlock($: cheerio.Root, $el: cheerio.Cheerio, options: BodyBlockOptions): BodyBlock | null {
+  if ($el.is("h2, h3, h4, h5, h6")) {
+    const level = Math.min(Number($el.get(0).tagName.slice(1)), 4) as 2 | 3 | 4;
+    return { type: "heading", level, spans: extractSpans($, $el, options.baseUrl) };
+  }
+
+  if ($el.is("ul, ol")) {
+    const items = $el
+      .children("li")
+      .map((_, li) => [extractSpans($, $(li), options.baseUrl)])
+      .get() as BodySpan[][];
+    return { type: "list", ordered: $el.is("ol"), items: items.filter((item) => item.length > 0) };
+  }
+
+  if ($el.is("blockquote")) {
+    return { type: "quote", spans: extractSpans($, $el, options.baseUrl) };
+  }
+
+  if ($el.is("figure, img")) {
+    const $img = $el.is("img") ? $el : $el.find("img").first();
+    const src = $img.attr("src") || $img.attr("data-src");
+    const url = src ? resolveUrl(src, options.baseUrl) : null;
+    if (!url) return null;
+    const caption = $el.find("figcaption").text().replace(/\s+/g, " ").trim();
+    return {
+      type: "image",
+      url,
+      alt: $img.attr("alt")?.trim() || undefined,
+      caption: caption || undefined,
+    };
+  }
+
+  return { type: "paragraph", spans: extractSpans($, $el, options.baseUrl) };
+}
+
+function keepBlock(block: BodyBlock, options: BodyBlockOptions): boolean {
+  if (block.type === "image") return true;
+  const text = blockToText(block);
+  if (!text) return false;
+  if (block.type !== "paragraph") return true;
+  return (
+    text.length >= (options.minParagraphLength ?? 1) &&
+    !(options.excludePatterns ?? []).some((re) => re.test(text))
+  );
+}
+
+/**
+ * Inline text of an element as spans, keeping links
+ */
+function extractSpans($: cheerio.Root, $el: cheerio.Cheerio, baseUrl?: string): BodySpan[] {
+  const spans: BodySpan[] = [];
+
+  const push = (text: string, href?: string): void => {
+    if (!text) return;
+    const last = spans[spans.length - 1];
+    if (last && last.href === href) {
+      last.text += text;
+    } else {
+      spans.push(href ? { text, href } : { text });
+    }
+  };
+
+  const walk = (nodes: cheerio.Element[], href?: string): void => {
+    for (const node of nodes) {
+      if (node.type === "text") {
+        push(node.data ?? "", href);
+      } else if (node.type === "tag") {
+        if (node.name === "br") {
+          push(" ", href);
+        } else if (node.name === "a" && !href) {
+          const linkHref = node.attribs?.href ? resolveUrl(node.attribs.href, baseUrl) : null;
+          walk(node.children ?? [], linkHref ?? undefined);
+        } else if (!["script", "style", "figure", "img", "button"].includes(node.name)) {
+          walk(node.children ?? [], href);
+        }
+      }
+    }
+  };
+
+  walk($el.get(0)?.children ?? []);
+
+  // Normalize whitespace across span boundaries
+  const normalized = spans
+    .map((span) => ({ ...span, text: span.text.replace(/\s+/g, " ") }))
+    .filter((span) => span.text.length > 0);
+  if (normalized.length) {
+    normalized[0].text = normalized[0].text.trimStart();
+    normalized[normalized.length - 1].text = normalized[normalized.length - 1].text.trimEnd();
+  }
+  return normalized.filter((span) => span.text.length > 0);
+}
+
+function resolveUrl(rawUrl: string, baseUrl?: string): string | null {
+  if (rawUrl.startsWith("#") || rawUrl.startsWith("javascript:")) return null;
+  try {
+    return baseUrl ? new URL(rawUrl, baseUrl).toString() : new URL(rawUrl).toString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Article detail page execution for the declarative scraper engine
+ */
+
+import { httpGet } from "../../http";
+import * as cheerio from "cheerio";
+import type { BodyBlock } from "../../core/bodyBlocks";
+import type { SourceArticleDetails } from "../registry";
+import { extractBodyBlocks } from "./bodyBlocks";
+import { extractArticleMetadata, toDetailMetadataFields } from "./metadata";
+import { extractMainContent } from "./readability";
+import { NO_SPEC_MATCH, traceExtractionPage, traceSelectorHit } from "./trace";
+import type { DetailSpec } from "./types";
+
+/**
+ * Fetches an article page and extracts its details according to the spec
+ *
+ * @param spec - Detail spec for the site
+ * @param articleUrl - Absolute article URL
+ * @returns Article details
+ * @throws Error if no title can be determined
+ */
+export async function scrapeArticleDetails(
+  spec: DetailSpec,
+  articleUrl: string
+): Promise<SourceArticleDetails> {
+  const response = await httpGet(articleUrl);
+  traceExtractionPage(articleUrl, response.data);
+  return extractArticleDetails(cheerio.load(response.data), spec, articleUrl);
+}
+
+/**
+ * Extracts article details from an already loaded article page
+ */
+export function extractArticleDetails(
+  $: cheerio.Root,
+  spec: DetailSpec,
+  articleUrl: string
+): SourceArticleDetails {
+  // 1) Structured metadata: JSON-LD (all blocks, @graph), OpenGraph, Twitter, meta
+  const metadata = extractArticleMetadata($, spec.jsonLd.types);
+  let title: string | null = null;
+  let excerpt: string | null = metadata.description;
+  let category: string | null = metadata.section;
+
+  // 2) Title: page headline and structured-data headline in the order the spec prefers
+  const jsonLdFirst = spec.jsonLd.headline === "primary";
+  if (jsonLdFirst) {
+    title = metadata.headline;
+    if (title) traceSelectorHit("title", "jsonLd:headline", 0);
+  }
+  spec.titleSelectors.forEach((selector, index) => {
+    if (title) return;
+    const text = $(selector).first().text().trim();
+    if (text) {
+      title = text;
+      traceSelectorHit("title", selector, index + (jsonLdFirst ? 1 : 0));
+    }
+  });
+  if (!title && spec.jsonLd.headline === "fallback") {
+    title = metadata.headline;
+    if (title) traceSelectorHit("title", "jsonLd:headline", NO_SPEC_MATCH);
+  }
+
+  if (!title) {
+    traceSelectorHit("title", "none", NO_SPEC_MATCH);
+    throw new Error("Could not determine article title");
+  }
+
+  // 3) Excerpt fallbacks: meta description, then first paragraph
+  if (!excerpt && spec.useMetaDescription) {
+    const metaDesc = $('meta[name="description"], meta[property="og:description"]').attr("content");
+    if (metaDesc) {
+      excerpt = metaDesc.trim();
+    }
+  }
+
+  for (const selector of spec.excerptSelectors) {
+    if (excerpt) break;
+    const firstP = $(selector).first().text().trim();
+    if (firstP) {
+      excerpt = firstP;
+    }
+  }
+
+  if (!excerpt) {
+    excerpt = ""; // we keep it non-null for typing
+  }
+
+  // 4) Category fallbacks: breadcrumbs, then URL path
+  if (!category && spec.breadcrumbSelector) {
+    const breadcrumbText = $(spec.breadcrumbSelector).last().text().trim();
+    if (breadcrumbText) {
+      category = breadcrumbText;
+    }
+  }
+
+  if (!category && spec.categoryFromUrl) {
+    const urlMatch = articleUrl.match(spec.categoryFromUrl.pattern);
+    if (urlMatch && urlMatch[1] && !spec.categoryFromUrl.ignore.includes(urlMatch[1])) {
+      category = urlMatch[1].replace(/-/g, " ");
+    }
+  }
+
+  // 5) Body paragraphs: first container that yields paragraphs, then direct paragraph selectors
+  let bodyParagraphs: string[] = [];
+  let bodyBlocks: BodyBlock[] = [];
+
+  for (const [index, selector] of spec.bodyContainerSelectors.entries()) {
+    const $container = $(selector).first();
+    if ($container.length) {
+      bodyParagraphs = $container
+        .find("p")
+        .map((_, p) => $(p).text().trim())
+        .get()
+        .filter(Boolean);
+      bodyBlocks = extractBodyBlocks($, $container, { baseUrl: articleUrl });
+    }
+    if (bodyParagraphs.length > 0) {
+      traceSelectorHit("body", selector, index);
+      break;
+    }
+  }
+
+  for (const [index, paragraphSpec] of (spec.bodyParagraphSelectors ?? []).entries()) {
+    if (bodyParagraphs.length > 0) break;
+    const minLength = paragraphSpec.minLength ?? 1;
+    const excludePatterns = paragraphSpec.excludePatterns ?? [];
+    bodyParagraphs = $(paragraphSpec.selector)
+      .map((_, p) => $(p).text().trim())
+      .get()
+      .filter(
+        (text) =>
+          text.length >= minLength &&
+          !excludePatterns.some((re) => re.test(text))
+      );
+    bodyBlocks = extractBodyBlocks($, $(paragraphSpec.selector), {
+      baseUrl: articleUrl,
+      minParagraphLength: minLength,
+      excludePatterns,
+    });
+    if (bodyParagraphs.length > 0) {
+      traceSelectorHit("body", paragraphSpec.selector, spec.bodyContainerSelectors.length + index);
+    }
+  }
+
+  // 6) Shared fallback: content-density extraction of the main article block
+  if (bodyParagraphs.length === 0) {
+    const mainContent = extractMainContent($, articleUrl);
+    bodyParagraphs = mainContent.paragraphs;
+    bodyBlocks = mainContent.blocks;
+    traceSelectorHit("body", bodyParagraphs.length > 0 ? "readability" : "none", NO_SPEC_MATCH);
+  }
+
+  const body = bodyParagraphs.join("\n\n");
+
+  return {
+    url: articleUrl,
+    title,
+    excerpt,
+    category,
+    body,
+    bodyBlocks,
+    ...toDetailMetadataFields(metadata),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * RSS 2.0 / Atom feed listings for the declarative scraper engine
+ *
+ * Feeds are a stable alternative to HTML listing selectors: the item shape is
+ * the same SourceArticleItem, so feed sources share the run and editorial config.
+ */
+
+import * as cheerio from "cheerio";
+import type { SourceArticleItem } from "../registry";
+import { isRemoteLocation, loadXml, toIsoDate } from "./xml";
+
+/**
+ * Finds an image for a feed entry: enclosure, Media RSS, then first <img> in the HTML content
+ */
+function findEntryImage($: cheerio.Root, $entry: cheerio.Cheerio): string | undefined {
+  const enclosure = $entry
+    .children("enclosure")
+    .filter((_, el) => ($(el).attr("type") || "").startsWith("image"))
+    .first()
+    .attr("url");
+  if (enclosure) return enclosure;
+
+  const mediaContent = $entry
+    .find("media\\:content")
+    .filter((_, el) => {
+      const medium = $(el).attr("medium");
+      const type = $(el).attr("type") || "";
+      return medium === "image" || type.startsWith("image") || (!medium && !type);
+    })
+    .first()
+    .attr("url");
+  if (mediaContent) return mediaContent;
+
+  const mediaThumbnail = $entry.find("media\\:thumbnail").first().attr("url");
+  if (mediaThumbnail) return mediaThumbnail;
+
+  // Many feeds embed the lead image in the description/content HTML
+  const html = $entry.children("content\\:encoded, description, content, summary").first().text();
+  if (html) {
+    const src = cheerio.load(html)("img").first().attr("src");
+    if (src) return src;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses an RSS 2.0 or Atom document into article items (in feed order)
+ *
+ * @param xml - Raw feed XML
+ * @param baseUrl - Used to resolve relative entry links
+ * @returns Items with title, url, imageUrl and publishedAt
+ */
+export function parseFeed(xml: string, baseUrl?: string): SourceArticleItem[] {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const items: SourceArticleItem[] = [];
+  const seenUrls = new Set<string>();
+
+  const resolveUrl = (rawUrl: string): string | null => {
+    try {
+      return baseUrl ? new URL(rawUrl, baseUrl).toString() : new URL(rawUrl).toString();
+    } catch {
+      return null; // skip invalid URLs
+    }
+  };
+
+  // RSS 2.0: <rss><channel><item>
+  $("rss channel > item, rdf\\:RDF > item").each((_, el) => {
+    const $item = $(el);
+    const title = $item.children("title").first().text().trim();
+    const rawLink =
+      $item.children("link").first().text().trim() ||
+      // Some feeds only carry a permalink guid
+      ($item.children("guid").attr("isPermaLink") !== "false" ? $item.children("guid").first().text().trim() : "");
+
+    const url = rawLink ? resolveUrl(rawLink) : null;
+    if (!title || !url || seenUrls.has(url)) return;
+    seenUrls.add(url);
+
+    items.push({
+      title,
+      url,
+      imageUrl: findEntryImage($, $item),
+      publishedAt: toIsoDate(
+        $item.children("pubDate").first().text() || $item.children("dc\\:date").first().text()
+      ),
+    });
+  });
+
+  // Atom: <feed><entry>
+  $("feed > entry").each((_, el) => {
+    const $entry = $(el);
+    const title = $entry.children("title").first().text().trim();
+
+    // Prefer rel="alternate" (or a link without rel, which defaults to alternate)
+    const $links = $entry.children("link");
+    const $alternate = $links.filter((_, link) => {
+      const rel = $(link).attr("rel");
+      return !rel || rel === "alternate";
+    });
+    const rawLink = ($alternate.length ? $alternate : $links).first().attr("href");
+
+    const url = rawLink ? resolveUrl(rawLink) : null;
+    if (!title || !url || seenUrls.has(url)) return;
+    seenUrls.add(url);
+
+    const imageLink = $links
+      .filter((_, link) => $(link).attr("rel") === "enclosure" && ($(link).attr("type") || "").startsWith("image"))
+      .first()
+      .attr("href");
+
+    items.push({
+      title,
+      url,
+      imageUrl: imageLink || findEntryImage($, $entry),
+      publishedAt: toIsoDate(
+        $entry.children("published").first().text() || $entry.children("updated").first().text()
+      ),
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Scrapes an RSS/Atom feed and returns the first `limit` article items
+ *
+ * @param feedLocation - Feed URL, or a local path / file:// URL to a fixture
+ * @param limit - Maximum number of items to return
+ */
+export async function scrapeFeed(
+  feedLocation: string,
+  limit = 5
+): Promise<SourceArticleItem[]> {
+  const xml = await loadXml(feedLocation);
+  const baseUrl = isRemoteLocation(feedLocation) ? feedLocation : undefined;
+  return parseFeed(xml, baseUrl).slice(0, limit);
+}
@@ -0,0 +1,37 @@
+/**
+ * Declarative Scraper Engine - Main Entry Point
+ *
+ * Runs per-site listing/detail specs with cheerio so that a new section is a
+ * spec entry instead of a copied scraper function.
+ */
+
+export type {
+  TitleStrategy,
+  ImageSpec,
+  ListingPass,
+  ListingSpec,
+  ParagraphSelectorSpec,
+  DetailSpec,
+  SitemapSpec,
+} from "./types";
+export type { SitemapEntry, ParsedSitemap } from "./sitemap";
+export type { ArticleMetadata } from "./metadata";
+export type { MainContentResult } from "./readability";
+export type { BodyBlockOptions } from "./bodyBlocks";
+export type { SelectorHit, ExtractionTrace } from "./trace";
+
+export { scrapeListing, extractListingItems, loadListingPage, stripTitlePrefixes } from "./listing";
+export { scrapeArticleDetails, extractArticleDetails } from "./details";
+export { scrapeFeed, parseFeed } from "./feed";
+export { scrapeSitemap, parseSitemap } from "./sitemap";
+export { extractArticleMetadata, toDetailMetadataFields, ARTICLE_JSON_LD_TYPES } from "./metadata";
+export { extractMainContent } from "./readability";
+export { extractBodyBlocks } from "./bodyBlocks";
+export { resolveSyndication, KNOWN_PUBLISHERS } from "./syndication";
+export {
+  NO_SPEC_MATCH,
+  createExtractionTrace,
+  runWithExtractionTrace,
+  traceSelectorHit,
+  traceExtractionPage,
+} from "./trace";
@@ -0,0 +1,343 @@
+/**
+ * Listing page execution for the declarative scraper engine
+ */
+
+import { httpGet, RENDER_ENABLED, renderPage, RobotsDisallowedError, type RenderSpec } from "../../http";
+import * as cheerio from "cheerio";
+import { logger } from "../../config/logger";
+import type { SourceArticleItem } from "../registry";
+import { NO_SPEC_MATCH, traceExtractionPage, traceSelectorHit } from "./trace";
+import type { ImageSpec, ListingPass, ListingSpec, TitleStrategy } from "./types";
+
+/**
+ * Fetches a listing page and extracts article items according to its spec
+ *
+ * @param spec - Listing spec for the section page
+ * @param limit - Maximum number of items to return
+ * @returns Article items in page order
+ */
+export async function scrapeListing(
+  spec: ListingSpec,
+  limit: number
+): Promise<SourceArticleItem[]> {
+  const html = await loadListingPage(spec.url, spec.render);
+  traceExtractionPage(spec.url, html);
+  return extractListingItems(cheerio.load(html), spec, limit);
+}
+
+/**
+ * Gets a listing page's HTML: rendered in the headless browser when the page
+ * declares a render spec and RENDER_ENABLED is on, plain HTTP otherwise (and
+ * when rendering fails, so a broken browser setup never loses the listing)
+ */
+export async function loadListingPage(url: string, render?: RenderSpec): Promise<string> {
+  if (render && RENDER_ENABLED) {
+    try {
+      return await renderPage(url, render);
+    } catch (error) {
+      if (error instanceof RobotsDisallowedError) throw error;
+      logger.warn(`⚠️  Rendering ${url} failed, falling back to plain HTTP`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const response = await httpGet(url);
+  return response.data;
+}
+
+/**
+ * Extracts article items from an already loaded listing page
+ */
+export function extractListingItems(
+  $: cheerio.Root,
+  spec: ListingSpec,
+  limit: number
+): SourceArticleItem[] {
+  const items: SourceArticleItem[] = [];
+  const seenUrls = new Set<string>();
+
+  for (const [index, pass] of spec.passes.entries()) {
+    if (items.length >= limit) break; // Stop when we've collected enough articles
+
+    for (const { $link, $container } of collectCandidateLinks($, pass)) {
+      if (items.length >= limit) break;
+
+      const item = buildItem($link, $container, pass, spec, seenUrls);
+      if (item) {
+        // The first pass that yields items is the strategy that matched
+        if (items.length === 0) {
+          traceSelectorHit("items", pass.containerSelector ?? pass.linkSelectors.join(", "), index);
+        }
+        seenUrls.add(item.url);
+        items.push(item);
+      }
+    }
+  }
+
+  if (items.length === 0) {
+    traceSelectorHit("items", "none", NO_SPEC_MATCH);
+  }
+
+  return items;
+}
+
+/**
+ * Lists the links a pass should consider, in DOM order
+ */
+function collectCandidateLinks(
+  $: cheerio.Root,
+  pass: ListingPass
+): Array<{ $link: cheerio.Cheerio; $container?: cheerio.Cheerio }> {
+  const candidates: Array<{ $link: cheerio.Cheerio; $container?: cheerio.Cheerio }> = [];
+
+  if (pass.containerSelector) {
+    // Container mode: first matching link inside each container
+    $(pass.containerSelector).each((_, container) => {
+      const $container = $(container);
+      for (const selector of pass.linkSelectors) {
+        const $link = $container.find(selector).first();
+        if ($link.length) {
+          candidates.push({ $link, $container });
+          break;
+        }
+      }
+    });
+    return candidates;
+  }
+
+  // Document mode: every link of every selector, selector by selector
+  for (const selector of pass.linkSelectors) {
+    $(selector).each((_, link) => {
+      candidates.push({ $link: $(link) });
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Applies the spec's URL, title and image rules to a single link
+ * @returns The article item, or null if the link should be skipped
+ */
+function buildItem(
+  $link: cheerio.Cheerio,
+  $container: cheerio.Cheerio | undefined,
+  pass: ListingPass,
+  spec: ListingSpec,
+  seenUrls: Set<string>
+): SourceArticleItem | null {
+  const rawHref = $link.attr("href");
+  if (!rawHref) {
+    return null; // skip if no href
+  }
+
+  if (spec.skipFragmentLinks && (rawHref.includes("#") || rawHref.includes("javascript:"))) {
+    return null; // skip invalid hrefs
+  }
+
+  // Build absolute URL
+  let url: string;
+  try {
+    url = rawHref.startsWith("http") ? rawHref : new URL(rawHref, spec.url).toString();
+  } catch {
+    return null; // skip invalid URLs
+  }
+
+  if (spec.includeUrlPatterns && !spec.includeUrlPatterns.some((re) => re.test(url))) {
+    return null;
+  }
+
+  if (spec.excludeUrlPatterns?.some((re) => re.test(url))) {
+    return null;
+  }
+
+  // Skip if we've already seen this URL
+  if (seenUrls.has(url)) {
+    return null;
+  }
+
+  // Skip links in sidebar/navigation areas
+  if (spec.excludeContainerSelector && $link.closest(spec.excludeContainerSelector).length > 0) {
+    return null;
+  }
+
+  const minTitleLength = spec.minTitleLength ?? 1;
+  let title = resolveTitle($link, $container, pass.titleStrategies, minTitleLength);
+
+  if (title && spec.titlePrefixes) {
+    title = stripTitlePrefixes(title, spec.titlePrefixes.categories, spec.titlePrefixes.sources);
+  }
+
+  // Skip if no title found or title is too short
+  if (!title || title.length < minTitleLength) {
+    return null;
+  }
+
+  // Skip navigation/section links by checking title text
+  const titleLower = title.toLowerCase();
+  if (spec.excludedTitleTexts?.some((excluded) => titleLower.includes(excluded))) {
+    return null;
+  }
+
+  const imageUrl = pass.image ? resolveImage($link, $container, pass.image) : undefined;
+
+  return { title, url, imageUrl };
+}
+
+/**
+ * Runs title strategies in order until one yields a long enough title
+ */
+function resolveTitle(
+  $link: cheerio.Cheerio,
+  $container: cheerio.Cheerio | undefined,
+  strategies: TitleStrategy[],
+  minTitleLength: number
+): string {
+  let title = "";
+
+  for (const strategy of strategies) {
+    switch (strategy.type) {
+      case "linkText":
+        title = strategy.selector
+          ? $link.find(strategy.selector).first().text().trim()
+          : $link.text().trim();
+        break;
+      case "containerText":
+        title = $container ? $container.find(strategy.selector).first().text().trim() : "";
+        break;
+      case "attribute": {
+        const $target = strategy.on === "link" ? $link : $container;
+        title = $target?.attr(strategy.attribute)?.trim() || "";
+        break;
+      }
+      case "closestText": {
+        const $scope = $link.closest(strategy.closest);
+        const $titleEl = $scope.find(strategy.selector).first();
+        title = $titleEl.length
+          ? $titleEl.text().trim()
+          : $scope.filter(strategy.selector).text().trim(); // Parent itself may be the heading
+        break;
+      }
+    }
+
+    if (title.length >= minTitleLength) {
+      return title;
+    }
+  }
+
+  return title;
+}
+
+/**
+ * Finds the image URL for a listing item
+ */
+function resolveImage(
+  $link: cheerio.Cheerio,
+  $container: cheerio.Cheerio | undefined,
+  image: ImageSpec
+): string | undefined {
+  const $scope = image.scope === "container" ? $container : $link.closest(image.scope.closest);
+  if (!$scope || !$scope.length) {
+    return undefined;
+  }
+
+  const $media = $scope.find(image.selector).first();
+  if (!$media.length) {
+    return undefined;
+  }
+
+  const $img = $media.is("img") ? $media : $media.find("img").first();
+  if ($img.length) {
+    for (const attribute of image.attributes) {
+      const value = $img.attr(attribute);
+      if (value) return value;
+    }
+    return undefined;
+  }
+
+  if (image.useSourceSrcset) {
+    // Extract first URL from srcset (format: "url width, url width")
+    const srcset = $media.find("picture source").first().attr("srcset");
+    const firstUrl = srcset?.split(",")[0]?.trim().split(" ")[0];
+    if (firstUrl) {
+      return firstUrl;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Removes "Category + Source" prefixes that aggregators glue onto titles,
+ * e.g. "PoliticsAssociated PressPolitical consultant..." -> "Political consultant..."
+ */
+export function stripTitlePrefixes(
+  title: string,
+  categoryPrefixes: string[],
+  sourceNames: string[]
+): string {
+  let cleanedTitle = title;
+
+  // First, try to match and remove category + source pattern
+  for (const category of categoryPrefixes) {
+    for (const source of sourceNames) {
+      // Pattern 1: "PoliticsAssociated PressTitle" (category lowercase, source capitalized, title capitalized)
+      const pattern1 = new RegExp(`^${category}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z][a-z].+)`, "i");
+      const match1 = cleanedTitle.match(pattern1);
+      if (match1 && match1[1] && match1[1].length > 10) {
+        cleanedTitle = match1[1].trim();
+        break;
+      }
+
+      // Pattern 2: "USThe Guardian'Title'" (category uppercase, source capitalized)
+      const pattern2 = new RegExp(`^${category.toUpperCase()}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z'"].+)`, "i");
+      const match2 = cleanedTitle.match(pattern2);
+      if (match2 && match2[1] && match2[1].length > 10) {
+        cleanedTitle = match2[1].trim().replace(/^['"]+|['"]+$/g, "").trim();
+        break;
+      }
+    }
+    if (cleanedTitle !== title && cleanedTitle.length > 10) break;
+  }
+
+  // If still not cleaned, try removing just category prefix
+  if (cleanedTitle === title) {
+    for (const category of categoryPrefixes) {
+      if (cleanedTitle.toLowerCase().startsWith(category.toLowerCase())) {
+        const afterCategory = cleanedTitle.substring(category.length).trim();
+        // Check if what follows looks like a source name
+        let foundSource = false;
+        for (const source of sourceNames) {
+          if (afterCategory.toLowerCase().startsWith(source.toLowerCase())) {
+            const afterSource = afterCategory.substring(source.length).trim();
+            if (afterSource.length > 10 && /^[A-Z'"]/.test(afterSource)) {
+              cleanedTitle = afterSource.replace(/^['"]+|['"]+$/g, "").trim();
+              foundSource = true;
+              break;
+            }
+          }
+        }
+        if (!foundSource && afterCategory.length > 10 && /^[A-Z'"]/.test(afterCategory)) {
+          cleanedTitle = afterCategory.replace(/^['"]+|['"]+$/g, "").trim();
+        }
+        break;
+      }
+    }
+  }
+
+  // Final fallback: extract the longest run that looks like a real title
+  if (cleanedTitle === title || cleanedTitle.length < 10) {
+    const titleMatch = title.match(/([A-Z][A-Za-z'"]+(?:\s+[A-Za-z'"]+){2,})/);
+    if (titleMatch && titleMatch[1]) {
+      const potentialTitle = titleMatch[1].trim();
+      // Make sure it's not just a source name
+      const isSource = sourceNames.some((s) => potentialTitle.toLowerCase().includes(s.toLowerCase()));
+      if (!isSource && potentialTitle.length > 15) {
+        cleanedTitle = potentialTitle;
+      }
+    }
+  }
+
+  // Final check: if cleaned title is too short, use original
+  return cleanedTitle.length < 10 ? title : cleanedTitle;
+}
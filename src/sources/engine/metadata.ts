@@ -0,0 +1,331 @@
+/**
+ * Structured-data extraction for article pages
+ *
+ * Merges every JSON-LD block (arrays and @graph included), OpenGraph, Twitter
+ * cards, plain <meta> tags and schema.org microdata into one ArticleMetadata.
+ * Earlier sources win: JSON-LD > microdata > OpenGraph > Twitter > <meta>.
+ */
+
+import * as cheerio from "cheerio";
+import { logger } from "../../config/logger";
+import type { SourceArticleDetails } from "../registry";
+import { toIsoDate } from "./xml";
+
+/**
+ * schema.org types treated as the article node of a page
+ */
+export const ARTICLE_JSON_LD_TYPES = [
+  "NewsArticle",
+  "ReportageNews",
+  "AnalysisNewsArticle",
+  "BackgroundNewsArticle",
+  "OpinionNewsArticle",
+  "ReviewNewsArticle",
+  "LiveBlogPosting",
+  "Article",
+  "BlogPosting",
+  "Report",
+];
+
+export interface ArticleMetadata {
+  headline: string | null;
+  description: string | null;
+  section: string | null;
+  publishedAt: string | null; // ISO datetime string
+  modifiedAt: string | null; // ISO datetime string
+  authors: string[];
+  imageUrl: string | null;
+  keywords: string[];
+  siteName: string | null;
+  canonicalUrl: string | null;
+  jsonLdType: string | null; // @type of the JSON-LD node used, if any
+  pageTypes: string[]; // @types of every JSON-LD node on the page (VideoObject, ImageGallery...)
+  accessibleForFree: boolean | null; // false for paywalled pages (isAccessibleForFree / content tier)
+  language: string | null; // Declared language, primary subtag ("en"): inLanguage, <html lang>, og:locale
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Extracts and merges all structured metadata from an article page
+ *
+ * @param $ - Loaded article page
+ * @param preferredTypes - JSON-LD @types to prefer when picking the article node
+ */
+export function extractArticleMetadata(
+  $: cheerio.Root,
+  preferredTypes: string[] = ["NewsArticle"]
+): ArticleMetadata {
+  const jsonLdNodes = collectJsonLdNodes($);
+  const articleNode = findArticleNode(jsonLdNodes, preferredTypes);
+  const microdata = extractMicrodata($);
+
+  const meta = (...names: string[]): string | null => {
+    for (const name of names) {
+      const content = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr("content")?.trim();
+      if (content) return content;
+    }
+    return null;
+  };
+  const metaAll = (name: string): string[] =>
+    $(`meta[property="${name}"], meta[name="${name}"]`)
+      .map((_, el) => $(el).attr("content")?.trim() || "")
+      .get()
+      .filter(Boolean);
+
+  const jsonLdAuthors = articleNode ? toNames(articleNode.author ?? articleNode.creator) : [];
+  const metaAuthors = metaAll("author").filter((author) => !/^https?:\/\//.test(author));
+
+  const jsonLdKeywords = articleNode ? toKeywords(articleNode.keywords) : [];
+  const metaKeywords = toKeywords(meta("news_keywords", "keywords"));
+  const tagKeywords = metaAll("article:tag");
+
+  return {
+    headline:
+      firstString(articleNode?.headline, articleNode?.name) ??
+      microdata.headline ??
+      meta("og:title", "twitter:title"),
+    description:
+      firstString(articleNode?.description) ??
+      microdata.description ??
+      meta("og:description", "twitter:description", "description"),
+    section:
+      firstString(articleNode?.articleSection, articleNode?.section) ??
+      microdata.section ??
+      meta("article:section"),
+    publishedAt:
+      toIsoDate(
+        firstString(articleNode?.datePublished, articleNode?.dateCreated) ??
+          microdata.publishedAt ??
+          meta("article:published_time", "og:article:published_time", "parsely-pub-date", "pubdate", "date") ??
+          undefined
+      ) ?? null,
+    modifiedAt:
+      toIsoDate(
+        firstString(articleNode?.dateModified) ??
+          microdata.modifiedAt ??
+          meta("article:modified_time", "og:updated_time") ??
+          undefined
+      ) ?? null,
+    authors: dedupe(jsonLdAuthors.length ? jsonLdAuthors : microdata.authors.length ? microdata.authors : metaAuthors),
+    imageUrl:
+      (articleNode ? toImageUrl(articleNode.image ?? articleNode.thumbnailUrl) : null) ??
+      microdata.imageUrl ??
+      meta("og:image", "og:image:url", "twitter:image", "twitter:image:src"),
+    keywords: dedupe(jsonLdKeywords.length ? jsonLdKeywords : [...metaKeywords, ...tagKeywords]),
+    siteName:
+      (articleNode ? toNames(articleNode.publisher)[0] : undefined) ??
+      meta("og:site_name", "application-name"),
+    canonicalUrl: $('link[rel="canonical"]').attr("href")?.trim() || meta("og:url"),
+    jsonLdType: articleNode ? toTypes(articleNode)[0] ?? null : null,
+    pageTypes: dedupe(jsonLdNodes.flatMap(toTypes)),
+    accessibleForFree: toAccessibleForFree(articleNode?.isAccessibleForFree, meta("article:content_tier")),
+    language: toLanguageCode(
+      firstString(articleNode?.inLanguage) ?? $("html").attr("lang") ?? meta("og:locale", "language", "content-language")
+    ),
+  };
+}
+
+/**
+ * Maps metadata onto the optional SourceArticleDetails fields
+ */
+export function toDetailMetadataFields(
+  metadata: ArticleMetadata
+): Pick<
+  SourceArticleDetails,
+  | "publishedAt"
+  | "modifiedAt"
+  | "author"
+  | "imageUrl"
+  | "keywords"
+  | "publisher"
+  | "canonicalUrl"
+  | "structuredTypes"
+  | "accessibleForFree"
+  | "language"
+> {
+  return {
+    publishedAt: metadata.publishedAt ?? undefined,
+    modifiedAt: metadata.modifiedAt ?? undefined,
+    author: metadata.authors.length ? metadata.authors.join(", ") : undefined,
+    imageUrl: metadata.imageUrl ?? undefined,
+    keywords: metadata.keywords.length ? metadata.keywords : undefined,
+    publisher: metadata.siteName ?? undefined,
+    canonicalUrl: metadata.canonicalUrl ?? undefined,
+    structuredTypes: metadata.pageTypes.length ? metadata.pageTypes : undefined,
+    accessibleForFree: metadata.accessibleForFree ?? undefined,
+    language: metadata.language ?? undefined,
+  };
+}
+
+/**
+ * Parses every ld+json block and flattens arrays and @graph containers
+ */
+function collectJsonLdNodes($: cheerio.Root): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      const node = value as JsonLdNode;
+      if (Array.isArray(node["@graph"])) {
+        node["@graph"].forEach(visit);
+      }
+      if (node["@type"]) {
+        nodes.push(node);
+      }
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const raw = $(el).html();
+    if (!raw) return;
+    try {
+      visit(JSON.parse(raw.trim()));
+    } catch (err) {
+      logger.warn("Failed to parse JSON-LD for article", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  });
+
+  return nodes;
+}
+
+function toTypes(node: JsonLdNode): string[] {
+  const type = node["@type"];
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === "string");
+}
+
+/**
+ * Picks the article node: preferred types first, then any article type,
+ * then the first node that has a headline
+ */
+function findArticleNode(nodes: JsonLdNode[], preferredTypes: string[]): JsonLdNode | null {
+  const hasType = (types: string[]) => (node: JsonLdNode) => toTypes(node).some((t) => types.includes(t));
+  return (
+    nodes.find(hasType(preferredTypes)) ??
+    nodes.find(hasType(ARTICLE_JSON_LD_TYPES)) ??
+    nodes.find((node) => typeof node.headline === "string") ??
+    null
+  );
+}
+
+/**
+ * schema.org microdata (itemprop attributes)
+ */
+function extractMicrodata($: cheerio.Root): {
+  headline: string | null;
+  description: string | null;
+  section: string | null;
+  publishedAt: string | null;
+  modifiedAt: string | null;
+  authors: string[];
+  imageUrl: string | null;
+} {
+  const value = (prop: string): string | null => {
+    const $el = $(`[itemprop="${prop}"]`).first();
+    if (!$el.length) return null;
+    return ($el.attr("content") || $el.attr("datetime") || $el.attr("src") || $el.attr("href") || $el.text()).trim() || null;
+  };
+
+  const authors = $('[itemprop="author"]')
+    .map((_, el) => {
+      const $author = $(el);
+      const $name = $author.find('[itemprop="name"]').first();
+      return ($name.length ? $name.attr("content") || $name.text() : $author.attr("content") || $author.text()).trim();
+    })
+    .get()
+    .filter(Boolean);
+
+  const $image = $('[itemprop="image"]').first();
+  const imageUrl =
+    $image.attr("content") ||
+    $image.attr("src") ||
+    $image.find('[itemprop="url"]').attr("content") ||
+    $image.find("img").attr("src") ||
+    null;
+
+  return {
+    headline: value("headline"),
+    description: value("description"),
+    section: value("articleSection"),
+    publishedAt: value("datePublished"),
+    modifiedAt: value("dateModified"),
+    authors,
+    imageUrl,
+  };
+}
+
+/**
+ * JSON-LD isAccessibleForFree (boolean or "True"/"False"), else the
+ * article:content_tier meta ("free" vs "metered" / "locked")
+ */
+function toAccessibleForFree(value: unknown, contentTier: string | null): boolean | null {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+    return value.trim().toLowerCase() === "true";
+  }
+  if (contentTier) return contentTier.toLowerCase() === "free";
+  return null;
+}
+
+/**
+ * Primary language subtag of a language tag or locale ("en-US", "es_ES" -> "en", "es")
+ */
+function toLanguageCode(value: string | null | undefined): string | null {
+  const code = value?.trim().split(/[-_]/)[0].toLowerCase();
+  return code && /^[a-z]{2,3}$/.test(code) ? code : null;
+}
+
+function firstString(...values: unknown[]): string | null {
+  for (const value of values) {
+    const candidate = Array.isArray(value) ? value[0] : value;
+    if (typeof candidate === "string" && candidate.trim()) {
+      return candidate.trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Names from a JSON-LD Person/Organization value (object, array or string)
+ */
+function toNames(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.flatMap(toNames);
+  if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+  if (typeof value === "object") {
+    const name = (value as JsonLdNode).name;
+    return typeof name === "string" && name.trim() ? [name.trim()] : [];
+  }
+  return [];
+}
+
+/**
+ * Image URL from a JSON-LD ImageObject value (object, array or string)
+ */
+function toImageUrl(value: unknown): string | null {
+  if (!value) return null;
+  if (Array.isArray(value)) return value.length ? toImageUrl(value[0]) : null;
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "object") {
+    const node = value as JsonLdNode;
+    return firstString(node.url, node.contentUrl);
+  }
+  return null;
+}
+
+function toKeywords(value: unknown): string[] {
+  if (!value) return [];
+  const list = Array.isArray(value) ? value : String(value).split(",");
+  return list
+    .filter((keyword): keyword is string => typeof keyword === "string")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+function dedupe(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
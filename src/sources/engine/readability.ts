@@ -0,0 +1,157 @@
+/**
+ * Content-density body extraction (readability/boilerpipe style)
+ *
+ * Shared fallback for when a source's body selectors miss: scores DOM blocks by
+ * the amount of paragraph text they hold versus their link density, picks the
+ * main article node and returns its paragraphs. Captions, related links, promo
+ * and share blocks score low or are stripped before scoring.
+ */
+
+import * as cheerio from "cheerio";
+import type { BodyBlock } from "../../core/bodyBlocks";
+import { extractBodyBlocks } from "./bodyBlocks";
+
+// Elements that never hold article text
+const STRIP_SELECTOR = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "form",
+  "button",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "figcaption",
+  "[role='navigation']",
+  "[role='complementary']",
+  "[aria-hidden='true']",
+].join(", ");
+
+// class/id hints (same idea as readability's positive/negative patterns)
+const NEGATIVE_HINTS =
+  /comment|related|recommend|promo|sponsor|share|social|sidebar|newsletter|subscribe|signup|advert|\bads?\b|banner|footer|caption|credit|byline|breadcrumb|outbrain|taboola|popup|modal|trending|more-stories|read-more/i;
+const POSITIVE_HINTS = /article|body|content|entry|main|post|story|text|rich-?text/i;
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MAX_LINK_DENSITY = 0.5;
+
+export interface MainContentResult {
+  paragraphs: string[];
+  // The same content as structured blocks (subheads, lists, quotes, images)
+  blocks: BodyBlock[];
+  // Score of the chosen node (0 when nothing qualified)
+  score: number;
+}
+
+/**
+ * Extracts the main article paragraphs from a page by content density
+ *
+ * @param $ - Loaded page (not modified; the scoring runs on a copy)
+ * @param baseUrl - Article URL, used to resolve links and images in the blocks
+ * @returns The paragraphs of the highest scoring block, in document order
+ */
+export function extractMainContent($: cheerio.Root, baseUrl?: string): MainContentResult {
+  const $doc = cheerio.load($.html());
+  $doc(STRIP_SELECTOR).remove();
+
+  // Drop clearly non-content blocks by class/id, unless they also look like content
+  $doc("div, section, ul, ol, span, p, figure").each((_, el) => {
+    const hints = `${$doc(el).attr("class") || ""} ${$doc(el).attr("id") || ""}`;
+    if (NEGATIVE_HINTS.test(hints) && !POSITIVE_HINTS.test(hints)) {
+      $doc(el).remove();
+    }
+  });
+
+  // Score parents and grandparents of each text paragraph
+  const scores = new Map<cheerio.Element, number>();
+  const addScore = (el: cheerio.Element | undefined, value: number): void => {
+    if (!el || el.type !== "tag") return;
+    if (!scores.has(el)) {
+      scores.set(el, classWeight($doc, el));
+    }
+    scores.set(el, (scores.get(el) ?? 0) + value);
+  };
+
+  $doc("p, pre, blockquote").each((_, el) => {
+    const text = normalizeText($doc(el).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // 1 point per paragraph, 1 per comma, 1 per 100 chars (max 3)
+    const contentScore = 1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent as cheerio.Element | undefined;
+    addScore(parent, contentScore);
+    addScore(parent?.parent as cheerio.Element | undefined, contentScore / 2);
+  });
+
+  let bestNode: cheerio.Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($doc, el));
+    if (adjusted > bestScore) {
+      bestScore = adjusted;
+      bestNode = el;
+    }
+  }
+
+  if (!bestNode) {
+    return { paragraphs: [], blocks: [], score: 0 };
+  }
+
+  // Drop short and link-heavy paragraphs (related links, credits) inside the chosen block
+  const $best = $doc(bestNode);
+  $best.find("p").each((_, el) => {
+    const text = normalizeText($doc(el).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH || linkDensity($doc, el) > MAX_LINK_DENSITY) {
+      $doc(el).remove();
+    }
+  });
+
+  const paragraphs = $best
+    .find("p, pre, blockquote")
+    // Quotes are taken whole, not paragraph by paragraph
+    .filter((_, el) => $doc(el).is("blockquote") || $doc(el).parents("blockquote").length === 0)
+    .map((_, el) => normalizeText($doc(el).text()))
+    .get()
+    .filter((text: string) => text.length >= MIN_PARAGRAPH_LENGTH);
+
+  return {
+    paragraphs: Array.from(new Set(paragraphs)),
+    blocks: extractBodyBlocks($doc, $best, { baseUrl }),
+    score: bestScore,
+  };
+}
+
+/**
+ * Share of a node's text that sits inside links
+ */
+function linkDensity($: cheerio.Root, el: cheerio.Element): number {
+  const textLength = normalizeText($(el).text()).length;
+  if (!textLength) return 0;
+  const linkLength = $(el)
+    .find("a")
+    .map((_, a) => normalizeText($(a).text()))
+    .get()
+    .join("").length;
+  return linkLength / textLength;
+}
+
+/**
+ * Bonus/penalty from class and id names
+ */
+function classWeight($: cheerio.Root, el: cheerio.Element): number {
+  let weight = $(el).is("article") ? 10 : 0;
+  for (const hint of [$(el).attr("class"), $(el).attr("id")]) {
+    if (!hint) continue;
+    if (NEGATIVE_HINTS.test(hint)) weight -= 25;
+    if (POSITIVE_HINTS.test(hint)) weight += 25;
+  }
+  return weight;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
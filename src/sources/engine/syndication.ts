@@ -0,0 +1,108 @@
+/**
+ * Canonical URL and original publisher resolution for scraped articles
+ *
+ * Aggregators (Yahoo) republish wire copy from AP, Reuters and others, often
+ * with a rel=canonical pointing back at the original, an agency byline or a
+ * "(AP) —" dateline. resolveSyndication turns those signals into a
+ * `canonicalUrl` and an `originalPublisher` for dedup and cleaning.
+ */
+
+import { canonicalizeUrl } from "../../core/canonicalUrl";
+import type { SourceArticleDetails } from "../registry";
+
+interface KnownPublisher {
+  name: string;
+  hosts: RegExp;
+  // Name variants in bylines, credits and JSON-LD publisher fields
+  aliases: RegExp;
+  // Dateline code, e.g. "WASHINGTON (AP) —"
+  dateline?: string;
+  // Wire services syndicate to other sites
+  agency?: boolean;
+}
+
+export const KNOWN_PUBLISHERS: KnownPublisher[] = [
+  { name: "Associated Press", hosts: /(^|\.)apnews\.com$/, aliases: /^(the )?associated press$|^ap( news)?$/i, dateline: "AP", agency: true },
+  { name: "Reuters", hosts: /(^|\.)reuters\.com$/, aliases: /^(thomson )?reuters$/i, dateline: "Reuters", agency: true },
+  { name: "AFP", hosts: /(^|\.)afp\.com$/, aliases: /^afp$|^agence france[- ]presse$/i, dateline: "AFP", agency: true },
+  { name: "Bloomberg", hosts: /(^|\.)bloomberg\.com$/, aliases: /^bloomberg( news)?$/i, agency: true },
+  { name: "CBS News", hosts: /(^|\.)cbsnews\.com$/, aliases: /^cbs news$/i },
+  { name: "ABC News", hosts: /(^|\.)abcnews\.go\.com$|(^|\.)abcnews\.com$/, aliases: /^abc news$/i },
+  { name: "TechCrunch", hosts: /(^|\.)techcrunch\.com$/, aliases: /^techcrunch$/i },
+  { name: "Yahoo News", hosts: /(^|\.)yahoo\.com$/, aliases: /^yahoo( news)?$/i },
+  { name: "USA Today", hosts: /(^|\.)usatoday\.com$/, aliases: /^usa today$/i },
+  { name: "CNN", hosts: /(^|\.)cnn\.com$/, aliases: /^cnn$/i },
+  { name: "NBC News", hosts: /(^|\.)nbcnews\.com$/, aliases: /^nbc news$/i },
+  { name: "Fox News", hosts: /(^|\.)foxnews\.com$/, aliases: /^fox news$/i },
+];
+
+function publisherByHost(url?: string | null): KnownPublisher | undefined {
+  if (!url) return undefined;
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return KNOWN_PUBLISHERS.find((publisher) => publisher.hosts.test(host));
+  } catch {
+    return undefined;
+  }
+}
+
+function publisherByName(name?: string | null): KnownPublisher | undefined {
+  const normalized = name?.replace(/^by\s+/i, "").trim();
+  if (!normalized) return undefined;
+  return KNOWN_PUBLISHERS.find((publisher) => publisher.aliases.test(normalized));
+}
+
+/**
+ * Agency named by a dateline in the opening text, e.g. "NEW YORK (AP) —"
+ */
+function publisherByDateline(body: string): KnownPublisher | undefined {
+  const opening = body.slice(0, 300);
+  return KNOWN_PUBLISHERS.find(
+    (publisher) =>
+      publisher.dateline && new RegExp(`\\(${publisher.dateline}\\)\\s*[—–-]`).test(opening)
+  );
+}
+
+/**
+ * Resolves the canonical URL and original publisher of a scraped article
+ *
+ * Canonical URL: the page's rel=canonical / og:url (unless it points at a homepage),
+ * else the article URL, canonicalized either way.
+ * Original publisher, first match wins:
+ *   1. canonical URL on a known publisher's host other than the article's
+ *   2. agency byline ("Associated Press") or agency dateline ("(AP) —")
+ *   3. publisher named by the page (structured data, Yahoo provider credit)
+ *   4. the article host's own publisher
+ *
+ * @param details - Detail fields from the scraper (canonicalUrl is the raw page value)
+ */
+export function resolveSyndication(
+  details: Pick<SourceArticleDetails, "url" | "canonicalUrl" | "author" | "body" | "publisher">
+): { canonicalUrl: string; originalPublisher?: string } {
+  const pageCanonical = details.canonicalUrl ? canonicalizeUrl(details.canonicalUrl, details.url) : null;
+  const isHomepage = pageCanonical ? new URL(pageCanonical).pathname === "/" : true;
+  const canonicalUrl = (!isHomepage && pageCanonical) || canonicalizeUrl(details.url) || details.url;
+
+  const ownPublisher = publisherByHost(details.url);
+  const canonicalPublisher = publisherByHost(canonicalUrl);
+  const authors = (details.author ?? "").split(",").map((author) => author.trim());
+  const agency =
+    authors.map(publisherByName).find((publisher) => publisher?.agency) ??
+    publisherByDateline(details.body ?? "");
+
+  const pagePublisher = details.publisher?.trim() || undefined;
+  // A page publisher we don't know (e.g. "The Hill" on Yahoo) is still better than the host's name
+  const unknownPagePublisher =
+    pagePublisher && !publisherByName(pagePublisher) && !ownPublisher?.aliases.test(pagePublisher)
+      ? pagePublisher
+      : undefined;
+
+  const originalPublisher =
+    (canonicalPublisher && canonicalPublisher !== ownPublisher ? canonicalPublisher.name : undefined) ??
+    agency?.name ??
+    publisherByName(pagePublisher)?.name ??
+    unknownPagePublisher ??
+    ownPublisher?.name;
+
+  return { canonicalUrl, originalPublisher };
+}
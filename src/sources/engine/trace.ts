@@ -0,0 +1,57 @@
+/**
+ * Extraction tracing: which selector strategy produced each field
+ *
+ * Extractors report the strategy that matched (rank 0 = the spec's primary
+ * selector, 1+ = its fallbacks, -1 = nothing in the spec matched and a generic
+ * fallback or nothing was used) and the page they parsed. Tracing is scoped
+ * with AsyncLocalStorage, so reporting outside runWithExtractionTrace is a no-op.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Rank given to generic fallbacks (JSON-LD headline fallback, content density, nothing)
+ */
+export const NO_SPEC_MATCH = -1;
+
+export interface SelectorHit {
+  strategy: string; // Selector, or a label such as "jsonLd:headline" / "readability" / "none"
+  rank: number;
+}
+
+export interface ExtractionTrace {
+  // Field name ("title", "body", "items") → strategy that produced it
+  hits: Record<string, SelectorHit>;
+  // Last page parsed within the trace (raw HTML, for snapshots)
+  page?: { url: string; html: string };
+}
+
+const traceStorage = new AsyncLocalStorage<ExtractionTrace>();
+
+export function createExtractionTrace(): ExtractionTrace {
+  return { hits: {} };
+}
+
+/**
+ * Runs `fn` with extraction reports going to `trace`
+ * (the trace is filled in even when `fn` throws)
+ */
+export function runWithExtractionTrace<T>(trace: ExtractionTrace, fn: () => Promise<T>): Promise<T> {
+  return traceStorage.run(trace, fn);
+}
+
+/**
+ * Records the strategy that produced a field
+ */
+export function traceSelectorHit(field: string, strategy: string, rank: number): void {
+  const trace = traceStorage.getStore();
+  if (trace) trace.hits[field] = { strategy, rank };
+}
+
+/**
+ * Records the raw HTML of the page being extracted
+ */
+export function traceExtractionPage(url: string, html: unknown): void {
+  const trace = traceStorage.getStore();
+  if (trace && typeof html === "string") trace.page = { url, html };
+}
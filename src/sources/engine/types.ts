@@ -0,0 +1,135 @@
+/**
+ * Type definitions for the declarative scraper engine
+ *
+ * A site spec describes *what* to extract from a listing page or an article
+ * page (URLs, selectors, URL patterns, fallbacks). The engine in listing.ts and
+ * details.ts knows *how* to run those specs with cheerio.
+ */
+
+import type { RenderSpec } from "../../http";
+
+/**
+ * How to derive an article title for a listing link.
+ * Strategies are tried in order; the first one that yields a title at least
+ * `minTitleLength` characters long wins.
+ */
+export type TitleStrategy =
+  // Text of the link itself, or of the first element matching `selector` inside the link
+  | { type: "linkText"; selector?: string }
+  // Text of the first element matching `selector` inside the listing container
+  | { type: "containerText"; selector: string }
+  // Attribute value on the link or on the listing container
+  | { type: "attribute"; attribute: string; on: "link" | "container" }
+  // Text of the first element matching `selector` inside link.closest(`closest`);
+  // falls back to the closest element itself when it matches `selector`
+  | { type: "closestText"; closest: string; selector: string };
+
+/**
+ * Where to look for a listing item's image
+ */
+export interface ImageSpec {
+  // Scope for the image search: the listing container, or link.closest(`closest`)
+  scope: "container" | { closest: string };
+  // Selector (inside the scope) of the element that holds the image
+  selector: string;
+  // Attributes checked on the first matching <img>, in order
+  attributes: string[];
+  // Also read the first URL from <picture><source srcset> when no <img> is found
+  useSourceSrcset?: boolean;
+}
+
+/**
+ * One pass over a listing page. Passes run in order until `limit` items are collected.
+ */
+export interface ListingPass {
+  // If set, iterate these containers and take the first matching link inside each
+  containerSelector?: string;
+  // Link selectors; inside a container the first one that matches is used,
+  // otherwise every selector is run over the whole document in order
+  linkSelectors: string[];
+  titleStrategies: TitleStrategy[];
+  image?: ImageSpec;
+}
+
+/**
+ * Declarative spec for a section/listing page
+ */
+export interface ListingSpec {
+  url: string;
+  passes: ListingPass[];
+  // Absolute URL must match at least one of these (when provided)
+  includeUrlPatterns?: RegExp[];
+  // Absolute URL must match none of these
+  excludeUrlPatterns?: RegExp[];
+  // Skip links nested inside these elements (navigation, sidebars, ...)
+  excludeContainerSelector?: string;
+  // Skip hrefs containing "#" or "javascript:"
+  skipFragmentLinks?: boolean;
+  // Skip items whose lowercase title contains any of these strings
+  excludedTitleTexts?: string[];
+  // Minimum title length for an item to be accepted (default: 1)
+  minTitleLength?: number;
+  // Strip "CategorySource" prefixes that some aggregators glue onto titles
+  titlePrefixes?: {
+    categories: string[];
+    sources: string[];
+  };
+  // Render the page in a headless browser when RENDER_ENABLED (story lists loaded client-side)
+  render?: RenderSpec;
+}
+
+/**
+ * A group of paragraphs read directly from the document (no container)
+ */
+export interface ParagraphSelectorSpec {
+  selector: string;
+  // Drop paragraphs shorter than this (default: keep every non-empty paragraph)
+  minLength?: number;
+  // Drop paragraphs matching any of these
+  excludePatterns?: RegExp[];
+}
+
+/**
+ * Declarative spec for an article detail page
+ */
+export interface DetailSpec {
+  // Headline selectors, tried in order (first non-empty text wins)
+  titleSelectors: string[];
+  jsonLd: {
+    // Preferred JSON-LD @types when picking the article node (across all blocks and @graph)
+    types: string[];
+    // "primary": structured-data headline beats the page headline; "fallback": only used when no headline is found
+    headline: "primary" | "fallback";
+  };
+  // Use meta description / og:description as excerpt fallback
+  useMetaDescription?: boolean;
+  // First-paragraph selectors for the excerpt fallback
+  excerptSelectors: string[];
+  // Breadcrumb links used as category fallback (last link wins)
+  breadcrumbSelector?: string;
+  // Category fallback from the URL: first capture group, unless it is listed in `ignore`
+  categoryFromUrl?: {
+    pattern: RegExp;
+    ignore: string[];
+  };
+  // Body container selectors tried in order; paragraphs are read from the first match
+  bodyContainerSelectors: string[];
+  // Direct paragraph selectors tried in order when no container yields paragraphs
+  bodyParagraphSelectors?: ParagraphSelectorSpec[];
+}
+
+/**
+ * Sitemap / Google News sitemap discovery for a source.
+ * Article URLs come from the sitemap instead of a listing page, sorted newest first.
+ */
+export interface SitemapSpec {
+  // Sitemap index, urlset or news sitemap URL (or a local fixture path)
+  url: string;
+  // Only keep URLs matching at least one pattern (e.g. a section path)
+  includeUrlPatterns?: RegExp[];
+  excludeUrlPatterns?: RegExp[];
+  // Drop entries published/modified longer ago than this
+  maxAgeHours?: number;
+  // For sitemap indexes: how many child sitemaps to read (most recent first)
+  maxChildSitemaps?: number;
+}
@@ -0,0 +1,37 @@
+/**
+ * XML document loading shared by feed and sitemap discovery
+ */
+
+import { fetchText } from "../../http";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Whether a location is an http(s) URL (as opposed to a local fixture path)
+ */
+export function isRemoteLocation(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+/**
+ * Loads XML from an http(s) URL, or from a local file path / file:// URL (for fixtures)
+ */
+export async function loadXml(location: string): Promise<string> {
+  if (isRemoteLocation(location)) {
+    return fetchText(location);
+  }
+
+  const filePath = location.startsWith("file://")
+    ? new URL(location).pathname
+    : path.resolve(process.cwd(), location);
+  return fs.readFileSync(filePath, "utf-8");
+}
+
+/**
+ * Converts a feed/sitemap date (RFC 822 for RSS, W3C/RFC 3339 otherwise) to ISO format
+ */
+export function toIsoDate(raw?: string): string | undefined {
+  if (!raw) return undefined;
+  const date = new Date(raw.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,543 @@
+/**
+ * Source Registry
+ *
+ * Single place where every scraping source is declared. The runner, scraper
+ * switches, result collectors and editorial config are all driven from here,
+ * so adding a source only means adding one entry to SOURCE_DEFINITIONS.
+ */
+
+import type * as cheerio from "cheerio";
+import type { BodyBlock } from "../core/bodyBlocks";
+import type { ContentType } from "../contentType";
+import type { LanguagePolicy } from "../language";
+
+// AP News
+import {
+  scrapeAPNewsHomepage,
+  scrapeAPNewsWorldHomepage,
+  scrapeAPNewsPoliticsHomepage,
+  scrapeAPNewsBusinessHomepage,
+  scrapeAPNewsScienceHomepage,
+  scrapeAPNewsTechnologyHomepage,
+  scrapeAPNewsLifestyleHomepage,
+  scrapeAPNewsEntertainmentHomepage,
+  scrapeAPNewsArticleDetails,
+  extractAPNewsArticleDetails,
+} from "./apNewsScraper";
+
+// Yahoo News
+import {
+  scrapeYahooUSNews,
+  scrapeYahooWorldNews,
+  scrapeYahooPoliticsNews,
+  scrapeYahooFinanceNews,
+  scrapeYahooEntertainmentNews,
+  scrapeYahooLifestyleNews,
+  scrapeYahooScienceNews,
+  scrapeYahooArticleDetails,
+  extractYahooArticleDetails,
+} from "./yahooNewsScraper";
+
+// CBS News
+import { scrapeCBSUSNews, scrapeCBSUSArticleDetails, extractCBSUSArticleDetails } from "./cbsUSScraper";
+import { scrapeCBSWorldNews, scrapeCBSWorldArticleDetails, extractCBSWorldArticleDetails } from "./cbsWorldScraper";
+import { scrapeCBSPoliticsNews, scrapeCBSPoliticsArticleDetails, extractCBSPoliticsArticleDetails } from "./cbsPoliticsScraper";
+
+// TechCrunch
+import { scrapeTechCrunchNews, scrapeTechCrunchArticleDetails, extractTechCrunchArticleDetails } from "./techCrunchScraper";
+
+// ABC News
+import { scrapeABCNewsUSHomepage, scrapeABCNewsUSArticleDetails, extractABCNewsUSArticleDetails } from "./abcNewsUSScraper";
+import {
+  scrapeABCNewsInternationalHomepage,
+  scrapeABCNewsInternationalArticleDetails,
+  extractABCNewsInternationalArticleDetails,
+} from "./abcNewsInternationalScraper";
+import {
+  scrapeABCNewsBusinessHomepage,
+  scrapeABCNewsBusinessArticleDetails,
+  extractABCNewsBusinessArticleDetails,
+} from "./abcNewsBusinessScraper";
+import {
+  scrapeABCNewsTechnologyHomepage,
+  scrapeABCNewsTechnologyArticleDetails,
+  extractABCNewsTechnologyArticleDetails,
+} from "./abcNewsTechnologyScraper";
+
+// Feed and sitemap listings
+import { scrapeFeed } from "./engine/feed";
+import { scrapeSitemap } from "./engine/sitemap";
+import type { SitemapSpec } from "./engine/types";
+
+/**
+ * Listing item shape shared by every source's homepage/section scraper
+ */
+export interface SourceArticleItem {
+  title: string;
+  url: string;
+  imageUrl?: string;
+  publishedAt?: string; // ISO datetime string, when the listing provides it (feeds)
+}
+
+/**
+ * Detail shape shared by every source's article page scraper
+ */
+export interface SourceArticleDetails {
+  url: string;
+  title: string;
+  excerpt: string;
+  category: string | null;
+  body: string;
+  bodyBlocks?: BodyBlock[]; // Same body with subheads, lists, quotes, links and images
+  // Structured metadata (JSON-LD / OpenGraph / meta), when the page provides it
+  publishedAt?: string; // ISO datetime string
+  modifiedAt?: string; // ISO datetime string
+  author?: string; // Comma-separated author names
+  imageUrl?: string;
+  keywords?: string[];
+  publisher?: string; // Publisher named by the page (JSON-LD publisher / og:site_name)
+  // Syndication: the page's rel=canonical (resolved and canonicalized by runSourceScrape)
+  // and who originally published the story ("Associated Press" for AP copy on Yahoo)
+  canonicalUrl?: string;
+  originalPublisher?: string;
+  // Content-type signals from structured data: every JSON-LD @type on the page,
+  // and false when the page marks itself as paywalled
+  structuredTypes?: string[];
+  accessibleForFree?: boolean;
+  language?: string; // Language the page declares, primary subtag ("en")
+}
+
+/**
+ * How a source discovers its articles: HTML section page selectors, an RSS/Atom
+ * feed, or a (Google News) sitemap
+ */
+export type SourceType = "html" | "feed" | "sitemap";
+
+/**
+ * Per-source HTTP cache TTLs (defaults: HTTP_CACHE_LISTING_TTL_MS / HTTP_CACHE_DETAIL_TTL_MS).
+ * Within the TTL a page is served from the on-disk cache; after it, the page is
+ * revalidated with ETag / Last-Modified.
+ */
+export interface SourceCacheTtl {
+  listingMs?: number;
+  detailMs?: number;
+}
+
+/**
+ * Declaration of a single scraping source
+ */
+export interface SourceDefinition<
+  K extends string = string,
+  TDetails extends SourceArticleDetails = SourceArticleDetails,
+> {
+  key: K;
+  type: SourceType;
+  displayName: string; // Human-readable name used in logs
+  host: string; // Site the source scrapes; sources of one host run one after another
+  category: string; // Normalized category (e.g. "us", "tech")
+  resultFolder: string; // Folder under results/ (e.g. "[us]apNews")
+  filePrefix: string; // Result file name prefix (e.g. "ap-news")
+  scrapeListing: (limit: number) => Promise<SourceArticleItem[]>;
+  scrapeDetails: (articleUrl: string) => Promise<TDetails>;
+  // Same extraction as scrapeDetails, on an already loaded page (saved HTML fixtures, harnesses)
+  extractDetails: ($: cheerio.Root, articleUrl: string) => TDetails;
+  cacheTtl?: SourceCacheTtl;
+  // Keys of other sources for the same site whose listings top up this one in
+  // fill-to-quota mode (their items are scraped with this source's scrapeDetails)
+  backfillFrom?: string[];
+  // Content types this source skips after the detail fetch (default: CONTENT_TYPE_SKIP_DEFAULT)
+  skipContentTypes?: ContentType[];
+  // Articles not in the site language: skip, rewrite as is, or translate (default: LANGUAGE_POLICY_DEFAULT)
+  languagePolicy?: LanguagePolicy;
+}
+
+/**
+ * Preserves the literal type of each source key so SourceKey can be derived
+ */
+function defineSource<K extends string>(
+  definition: Omit<SourceDefinition<K>, "type">
+): SourceDefinition<K> {
+  return { type: "html", ...definition };
+}
+
+/**
+ * Declares a source whose listing comes from an RSS/Atom feed
+ * (feedUrl may also be a local fixture path)
+ */
+function defineFeedSource<K extends string>(
+  definition: Omit<SourceDefinition<K>, "type" | "scrapeListing"> & { feedUrl: string }
+): SourceDefinition<K> {
+  const { feedUrl, ...rest } = definition;
+  return {
+    ...rest,
+    type: "feed",
+    scrapeListing: (limit) => scrapeFeed(feedUrl, limit),
+  };
+}
+
+/**
+ * Declares a source whose listing comes from a sitemap index or news sitemap,
+ * picking the freshest matching URLs
+ */
+function defineSitemapSource<K extends string>(
+  definition: Omit<SourceDefinition<K>, "type" | "scrapeListing"> & { sitemap: SitemapSpec }
+): SourceDefinition<K> {
+  const { sitemap, ...rest } = definition;
+  return {
+    ...rest,
+    type: "sitemap",
+    scrapeListing: (limit) => scrapeSitemap(sitemap, limit),
+  };
+}
+
+const SOURCE_DEFINITIONS = [
+  // AP News sources
+  defineSource({
+    key: "apNewsUS",
+    displayName: "AP News US",
+    host: "apnews.com",
+    category: "us",
+    resultFolder: "[us]apNews",
+    filePrefix: "ap-news",
+    scrapeListing: scrapeAPNewsHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsWorld",
+    displayName: "AP News World",
+    host: "apnews.com",
+    category: "world",
+    resultFolder: "[world]apNews",
+    filePrefix: "ap-news-world",
+    scrapeListing: scrapeAPNewsWorldHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsPolitics",
+    displayName: "AP News Politics",
+    host: "apnews.com",
+    category: "politics",
+    resultFolder: "[politics]apNews",
+    filePrefix: "ap-news-politics",
+    scrapeListing: scrapeAPNewsPoliticsHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsBusiness",
+    displayName: "AP News Business",
+    host: "apnews.com",
+    category: "business",
+    resultFolder: "[business]apNews",
+    filePrefix: "ap-news-business",
+    scrapeListing: scrapeAPNewsBusinessHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsScience",
+    displayName: "AP News Science",
+    host: "apnews.com",
+    category: "science",
+    resultFolder: "[science]apNews",
+    filePrefix: "ap-news-science",
+    scrapeListing: scrapeAPNewsScienceHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsTechnology",
+    displayName: "AP News Technology",
+    host: "apnews.com",
+    category: "tech",
+    resultFolder: "[tech]apnews",
+    filePrefix: "ap-news-technology",
+    scrapeListing: scrapeAPNewsTechnologyHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsLifestyle",
+    displayName: "AP News Lifestyle",
+    host: "apnews.com",
+    category: "lifestyle",
+    resultFolder: "[lifestyle]apNews",
+    filePrefix: "ap-news-lifestyle",
+    scrapeListing: scrapeAPNewsLifestyleHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+  defineSource({
+    key: "apNewsEntertainment",
+    displayName: "AP News Entertainment",
+    host: "apnews.com",
+    category: "entertainment",
+    resultFolder: "[entertainment]apNews",
+    filePrefix: "ap-news-entertainment",
+    scrapeListing: scrapeAPNewsEntertainmentHomepage,
+    scrapeDetails: scrapeAPNewsArticleDetails,
+    extractDetails: extractAPNewsArticleDetails,
+  }),
+
+  // Yahoo News sources
+  defineSource({
+    key: "yahooUSNews",
+    displayName: "Yahoo News US",
+    host: "www.yahoo.com",
+    category: "us",
+    resultFolder: "[us]yahooNews",
+    filePrefix: "yahoo-news-us",
+    scrapeListing: scrapeYahooUSNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+  defineSource({
+    key: "yahooWorldNews",
+    displayName: "Yahoo News World",
+    host: "www.yahoo.com",
+    category: "world",
+    resultFolder: "[world]yahooNews",
+    filePrefix: "yahoo-news-world",
+    scrapeListing: scrapeYahooWorldNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+  defineSource({
+    key: "yahooPoliticsNews",
+    displayName: "Yahoo News Politics",
+    host: "www.yahoo.com",
+    category: "politics",
+    resultFolder: "[politics]yahooNews",
+    filePrefix: "yahoo-news-politics",
+    scrapeListing: scrapeYahooPoliticsNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+  defineSource({
+    key: "yahooFinanceNews",
+    displayName: "Yahoo Finance News",
+    host: "www.yahoo.com",
+    category: "business",
+    resultFolder: "[business]yahooNews",
+    filePrefix: "yahoo-news-finance",
+    scrapeListing: scrapeYahooFinanceNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+  defineSource({
+    key: "yahooEntertainmentNews",
+    displayName: "Yahoo Entertainment News",
+    host: "www.yahoo.com",
+    category: "entertainment",
+    resultFolder: "[entertainment]yahooNews",
+    filePrefix: "yahoo-news-entertainment",
+    scrapeListing: scrapeYahooEntertainmentNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+  defineSource({
+    key: "yahooLifestyleNews",
+    displayName: "Yahoo Lifestyle News",
+    host: "www.yahoo.com",
+    category: "lifestyle",
+    resultFolder: "[lifestyle]yahooNews",
+    filePrefix: "yahoo-news-lifestyle",
+    scrapeListing: scrapeYahooLifestyleNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+  defineSource({
+    key: "yahooScienceNews",
+    displayName: "Yahoo Science News",
+    host: "www.yahoo.com",
+    category: "science",
+    resultFolder: "[science]yahooNews",
+    filePrefix: "yahoo-news-science",
+    scrapeListing: scrapeYahooScienceNews,
+    scrapeDetails: scrapeYahooArticleDetails,
+    extractDetails: extractYahooArticleDetails,
+  }),
+
+  // CBS News sources
+  defineSource({
+    key: "cbsUS",
+    displayName: "CBS News US",
+    host: "www.cbsnews.com",
+    category: "us",
+    resultFolder: "[us]cbs",
+    filePrefix: "cbs-us",
+    scrapeListing: scrapeCBSUSNews,
+    scrapeDetails: scrapeCBSUSArticleDetails,
+    extractDetails: extractCBSUSArticleDetails,
+    backfillFrom: ["cbsUSFeed", "cbsUSSitemap"],
+  }),
+  defineSource({
+    key: "cbsWorld",
+    displayName: "CBS News World",
+    host: "www.cbsnews.com",
+    category: "world",
+    resultFolder: "[world]cbs",
+    filePrefix: "cbs-world",
+    scrapeListing: scrapeCBSWorldNews,
+    scrapeDetails: scrapeCBSWorldArticleDetails,
+    extractDetails: extractCBSWorldArticleDetails,
+  }),
+  defineSource({
+    key: "cbsPolitics",
+    displayName: "CBS News Politics",
+    host: "www.cbsnews.com",
+    category: "politics",
+    resultFolder: "[politics]cbs",
+    filePrefix: "cbs-politics",
+    scrapeListing: scrapeCBSPoliticsNews,
+    scrapeDetails: scrapeCBSPoliticsArticleDetails,
+    extractDetails: extractCBSPoliticsArticleDetails,
+  }),
+  defineFeedSource({
+    key: "cbsUSFeed",
+    displayName: "CBS News US (RSS)",
+    host: "www.cbsnews.com",
+    category: "us",
+    resultFolder: "[us]cbsFeed",
+    filePrefix: "cbs-us-feed",
+    feedUrl: "https://www.cbsnews.com/latest/rss/us",
+    scrapeDetails: scrapeCBSUSArticleDetails,
+    extractDetails: extractCBSUSArticleDetails,
+  }),
+  defineSitemapSource({
+    key: "cbsUSSitemap",
+    displayName: "CBS News US (sitemap)",
+    host: "www.cbsnews.com",
+    category: "us",
+    resultFolder: "[us]cbsSitemap",
+    filePrefix: "cbs-us-sitemap",
+    sitemap: {
+      url: "https://www.cbsnews.com/xml-sitemap/news.xml",
+      includeUrlPatterns: [/cbsnews\.com\/news\//],
+      excludeUrlPatterns: [/\/video\//, /\/pictures\//],
+      maxAgeHours: 48,
+    },
+    // News sitemaps are regenerated every few minutes
+    cacheTtl: { listingMs: 5 * 60 * 1000 },
+    scrapeDetails: scrapeCBSUSArticleDetails,
+    extractDetails: extractCBSUSArticleDetails,
+  }),
+
+  // TechCrunch
+  defineSource({
+    key: "techCrunch",
+    displayName: "TechCrunch",
+    host: "techcrunch.com",
+    category: "tech",
+    resultFolder: "[tech]techCrunch",
+    filePrefix: "techcrunch",
+    scrapeListing: scrapeTechCrunchNews,
+    scrapeDetails: scrapeTechCrunchArticleDetails,
+    extractDetails: extractTechCrunchArticleDetails,
+    backfillFrom: ["techCrunchSitemap"],
+  }),
+  defineSitemapSource({
+    key: "techCrunchSitemap",
+    displayName: "TechCrunch (sitemap)",
+    host: "techcrunch.com",
+    category: "tech",
+    resultFolder: "[tech]techCrunchSitemap",
+    filePrefix: "techcrunch-sitemap",
+    sitemap: {
+      url: "https://techcrunch.com/news-sitemap.xml",
+      includeUrlPatterns: [/techcrunch\.com\/\d{4}\/\d{2}\/\d{2}\//],
+      maxAgeHours: 48,
+    },
+    // News sitemaps are regenerated every few minutes
+    cacheTtl: { listingMs: 5 * 60 * 1000 },
+    scrapeDetails: scrapeTechCrunchArticleDetails,
+    extractDetails: extractTechCrunchArticleDetails,
+  }),
+
+  // ABC News sources
+  defineSource({
+    key: "abcNewsUS",
+    displayName: "ABC News US",
+    host: "abcnews.go.com",
+    category: "us",
+    resultFolder: "[us]abcnews",
+    filePrefix: "abc-news-us",
+    scrapeListing: scrapeABCNewsUSHomepage,
+    scrapeDetails: scrapeABCNewsUSArticleDetails,
+    extractDetails: extractABCNewsUSArticleDetails,
+  }),
+  defineSource({
+    key: "abcNewsInternational",
+    displayName: "ABC News International",
+    host: "abcnews.go.com",
+    category: "world",
+    resultFolder: "[world]abcnews",
+    filePrefix: "abc-news-international",
+    scrapeListing: scrapeABCNewsInternationalHomepage,
+    scrapeDetails: scrapeABCNewsInternationalArticleDetails,
+    extractDetails: extractABCNewsInternationalArticleDetails,
+  }),
+  defineSource({
+    key: "abcNewsBusiness",
+    displayName: "ABC News Business",
+    host: "abcnews.go.com",
+    category: "business",
+    resultFolder: "[business]abcnews",
+    filePrefix: "abc-news-business",
+    scrapeListing: scrapeABCNewsBusinessHomepage,
+    scrapeDetails: scrapeABCNewsBusinessArticleDetails,
+    extractDetails: extractABCNewsBusinessArticleDetails,
+  }),
+  defineSource({
+    key: "abcNewsTechnology",
+    displayName: "ABC News Technology",
+    host: "abcnews.go.com",
+    category: "tech",
+    resultFolder: "[tech]abcnews",
+    filePrefix: "abc-news-technology",
+    scrapeListing: scrapeABCNewsTechnologyHomepage,
+    scrapeDetails: scrapeABCNewsTechnologyArticleDetails,
+    extractDetails: extractABCNewsTechnologyArticleDetails,
+  }),
+];
+
+/**
+ * Union of every registered source key (e.g. "apNewsUS" | "cbsWorld" | ...)
+ */
+export type SourceKey = (typeof SOURCE_DEFINITIONS)[number]["key"];
+
+/**
+ * All registered sources, in declaration order
+ */
+export const SOURCE_REGISTRY: ReadonlyArray<SourceDefinition<SourceKey>> = SOURCE_DEFINITIONS;
+
+/**
+ * All registered source keys, in declaration order
+ */
+export const SOURCE_KEYS: ReadonlyArray<SourceKey> = SOURCE_REGISTRY.map((source) => source.key);
+
+/**
+ * Gets the definition of a registered source
+ * @param key - The source key
+ * @returns The source definition or undefined if the key is not registered
+ */
+export function getSourceDefinition(key: string): SourceDefinition<SourceKey> | undefined {
+  return SOURCE_REGISTRY.find((source) => source.key === key);
+}
+
+/**
+ * Whether a source only tops up other sources' listings (named in their
+ * backfillFrom) and isn't scraped as a source of its own
+ */
+export function isBackfillOnlySource(key: string): boolean {
+  return SOURCE_REGISTRY.some((source) => source.backfillFrom?.includes(key));
+}
+
+/**
+ * Type guard for registered source keys
+ */
+export function isSourceKey(key: string): key is SourceKey {
+  return SOURCE_KEYS.includes(key as SourceKey);
+}
@@ -1,6 +1,12 @@
-import axios from "axios";
+import { httpGet } from "../http";
 import * as cheerio from "cheerio";
 import { logger } from "../config/logger";
+import { extractArticleMetadata, toDetailMetadataFields } from "./engine/metadata";
+import { extractMainContent } from "./engine/readability";
+import { extractBodyBlocks } from "./engine/bodyBlocks";
+import { NO_SPEC_MATCH, traceExtractionPage, traceSelectorHit } from "./engine/trace";
+import type { BodyBlock } from "../core/bodyBlocks";
+import type { SourceArticleDetails } from "./registry";
 
 export interface TechCrunchArticleItem {
   title: string;
@@ -8,13 +14,7 @@ export interface TechCrunchArticleItem {
   imageUrl?: string;
 }
 
-export interface TechCrunchArticleDetails {
-  url: string;
-  title: string;
-  excerpt: string;
-  category: string | null;
-  body: string;
-}
+export type TechCrunchArticleDetails = SourceArticleDetails;
 
 /**
  * Scrapes TechCrunch homepage (https://techcrunch.com/)
@@ -31,7 +31,8 @@ export async function scrapeTechCrunchNews(
 ): Promise<TechCrunchArticleItem[]> {
   const techCrunchUrl = "https://techcrunch.com/";
 
-  const response = await axios.get(techCrunchUrl);
+  const response = await httpGet(techCrunchUrl);
+  traceExtractionPage(techCrunchUrl, response.data);
   const $ = cheerio.load(response.data);
 
   const items: TechCrunchArticleItem[] = [];
@@ -50,6 +51,7 @@ export async function scrapeTechCrunchNews(
     })
     .closest('.hero-package-2, .wp-block-group, section, div')
     .first();
+  let sectionStrategy = { strategy: ".hero-package-2__heading", rank: 0 };
 
   if ($topHeadlinesSection.length === 0) {
     logger.warn("Could not find 'Top Headlines' section, trying alternative approach");
@@ -60,6 +62,7 @@ export async function scrapeTechCrunchNews(
         const $section = $(el).closest('.hero-package-2, .wp-block-group, section, div').first();
         if ($section.length && $topHeadlinesSection.length === 0) {
           $topHeadlinesSection = $section;
+          sectionStrategy = { strategy: "text:top headlines", rank: 1 };
           return false; // break
         }
       }
@@ -156,6 +159,12 @@ export async function scrapeTechCrunchNews(
     logger.warn("Could not locate 'Top Headlines' section, falling back to general article search");
   }
 
+  if (items.length > 0) {
+    traceSelectorHit("items", sectionStrategy.strategy, sectionStrategy.rank);
+  } else {
+    traceSelectorHit("items", "none", NO_SPEC_MATCH);
+  }
+
   return items;
 }
 
@@ -169,49 +178,39 @@ export async function scrapeTechCrunchNews(
 export async function scrapeTechCrunchArticleDetails(
   articleUrl: string
 ): Promise<TechCrunchArticleDetails> {
-  const response = await axios.get(articleUrl);
-  const $ = cheerio.load(response.data);
+  const response = await httpGet(articleUrl);
+  traceExtractionPage(articleUrl, response.data);
+  return extractTechCrunchArticleDetails(cheerio.load(response.data), articleUrl);
+}
 
+/**
+ * Extracts article details from an already loaded article page
+ */
+export function extractTechCrunchArticleDetails(
+  $: cheerio.Root,
+  articleUrl: string
+): TechCrunchArticleDetails {
   // 1) Get title from h1 first (most reliable, matches what users see)
   let title: string | null = null;
   const h1Text = $("h1.article__title, h1").first().text().trim();
   if (h1Text) {
     title = h1Text;
+    traceSelectorHit("title", "h1.article__title, h1", 0);
   }
 
-  // 2) Try to parse JSON-LD NewsArticle block for excerpt, description, category
-  let excerpt: string | null = null;
-  let category: string | null = null;
+  // 2) Structured metadata (JSON-LD, OpenGraph, meta tags) for excerpt, category, dates, author
+  const metadata = extractArticleMetadata($);
 
-  const ldJsonRaw = $('script[type="application/ld+json"]').first().html();
-  if (ldJsonRaw) {
-    try {
-      const parsed = JSON.parse(ldJsonRaw);
-
-      // If it's an array, find the NewsArticle object; if not, treat as object
-      const articleNode = Array.isArray(parsed)
-        ? parsed.find((node) => node["@type"] === "NewsArticle") ?? parsed[0]
-        : parsed;
-
-      if (articleNode && typeof articleNode === "object") {
-        // Only use JSON-LD headline if we didn't get one from h1
-        if (!title) {
-          title = (articleNode as any).headline ?? null;
-        }
-        excerpt = (articleNode as any).description ?? null;
-        category =
-          (articleNode as any).articleSection ??
-          (articleNode as any).section ??
-          null;
-      }
-    } catch (err) {
-      logger.warn("Failed to parse JSON-LD for article", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
+  // Only use the structured-data headline if we didn't get one from h1
+  if (!title) {
+    title = metadata.headline;
+    if (title) traceSelectorHit("title", "jsonLd:headline", NO_SPEC_MATCH);
   }
+  let excerpt: string | null = metadata.description;
+  let category: string | null = metadata.section;
 
   if (!title) {
+    traceSelectorHit("title", "none", NO_SPEC_MATCH);
     throw new Error("Could not determine article title");
   }
 
@@ -254,6 +253,7 @@ export async function scrapeTechCrunchArticleDetails(
 
   // 4) Extract body paragraphs - TechCrunch uses .article-content or .article__content
   let bodyParagraphs: string[] = [];
+  let bodyBlocks: BodyBlock[] = [];
 
   // TechCrunch article body is in .article-content or .article__content
   const articleBodyContainer = $(".article-content, .article__content, article").first();
@@ -264,14 +264,18 @@ export async function scrapeTechCrunchArticleDetails(
       .map((_, p) => $(p).text().trim())
       .get()
       .filter(Boolean);
+    bodyBlocks = extractBodyBlocks($, articleBodyContainer, { baseUrl: articleUrl });
+    if (bodyParagraphs.length > 0) {
+      traceSelectorHit("body", ".article-content, .article__content, article", 0);
+    }
   }
 
-  // Fallback: get all paragraphs from main content area
+  // Fallback: content-density extraction of the main article block
   if (bodyParagraphs.length === 0) {
-    bodyParagraphs = $("main p, .content p")
-      .map((_, p) => $(p).text().trim())
-      .get()
-      .filter(Boolean);
+    const mainContent = extractMainContent($, articleUrl);
+    bodyParagraphs = mainContent.paragraphs;
+    bodyBlocks = mainContent.blocks;
+    traceSelectorHit("body", bodyParagraphs.length > 0 ? "readability" : "none", NO_SPEC_MATCH);
   }
 
   const body = bodyParagraphs.join("\n\n");
@@ -282,6 +286,8 @@ export async function scrapeTechCrunchArticleDetails(
     excerpt,
     category,
     body,
+    bodyBlocks,
+    ...toDetailMetadataFields(metadata),
   };
 }
 
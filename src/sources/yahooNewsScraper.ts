@@ -1,6 +1,13 @@
-import axios from "axios";
-import * as cheerio from "cheerio";
-import { logger } from "../config/logger";
+import type * as cheerio from "cheerio";
+import {
+  scrapeListing,
+  scrapeArticleDetails,
+  extractArticleDetails,
+  type DetailSpec,
+  type ListingPass,
+  type ListingSpec,
+} from "./engine";
+import type { SourceArticleDetails } from "./registry";
 
 export interface YahooUSArticleItem {
   title: string;
@@ -8,14 +15,205 @@ export interface YahooUSArticleItem {
   imageUrl?: string;
 }
 
-export interface YahooArticleDetails {
+export type YahooArticleDetails = SourceArticleDetails;
+
+// Common navigation/section text to exclude
+const YAHOO_EXCLUDED_TITLE_TEXTS = [
+  "today's news",
+  "newsletters",
+  "weather news",
+  "sign up",
+  "more in",
+  "follow us",
+  "subscribe",
+  "newsletter",
+  "tariff updates",
+  "live updates",
+];
+
+// Links that are clearly not main articles
+const YAHOO_SKIP_TITLE_TEXTS = ["read more", "see all", "view all", "more stories", "trending", "popular"];
+
+// Category + source prefixes Yahoo glues onto stream titles,
+// e.g. "PoliticsAssociated PressPolitical consultant..."
+const YAHOO_CATEGORY_PREFIXES = ["politics", "us", "world", "business", "technology", "entertainment", "sports", "health", "science"];
+const YAHOO_SOURCE_NAMES = [
+  "associated press", "ap", "reuters", "the guardian", "cbs news", "cnn", "nbc news",
+  "abc news", "fox news", "the hill", "politico", "bloomberg", "the washington post",
+  "the new york times", "usa today", "time", "newsweek", "the atlantic", "axios", "bbc",
+];
+
+const YAHOO_STREAM_TITLE_SELECTOR =
+  "h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .caas-item-title, .js-stream-content h3";
+
+/**
+ * Builds a spec for the News US/World pages, which walk article containers
+ * selector by selector, most specific first.
+ */
+function yahooNewsSectionSpec(url: string, sectionPath: string, extraExcludedTexts: string[] = []): ListingSpec {
+  const pass: ListingPass = {
+    linkSelectors: [
+      'article a[href*="/news/articles/"]',
+      `article a[href*="/news/${sectionPath}/"]`,
+      '[data-module="Article"] a[href*="/news/articles/"]',
+      '.caas-list-item a[href*="/news/articles/"]',
+      'a[href*="/news/articles/"]',
+    ],
+    titleStrategies: [
+      { type: "linkText" },
+      {
+        type: "closestText",
+        closest: "article, li, div",
+        selector: "h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .js-stream-content h3",
+      },
+    ],
+    image: { scope: { closest: "article, li, div" }, selector: "img", attributes: ["src", "data-src", "data-lazy-src"] },
+  };
+
+  return {
+    url,
+    passes: [pass],
+    // Only accept yahoo.com/news/articles/ URLs (actual articles)
+    includeUrlPatterns: [/yahoo\.com\/news\/articles\//],
+    // Skip URLs that are section pages (not individual articles)
+    excludeUrlPatterns: [/\/$/, /\/news\/(world|us|politics|entertainment)\/?$/],
+    skipFragmentLinks: true,
+    excludedTitleTexts: [...YAHOO_EXCLUDED_TITLE_TEXTS, ...extraExcludedTexts],
+    minTitleLength: 10,
+    // Story lists are lazy-loaded client-side; rendered only when RENDER_ENABLED
+    render: { waitForSelector: 'a[href*="/news/articles/"]', scrollToBottom: true },
+  };
+}
+
+/**
+ * Builds a spec for stream-style pages (Politics, Finance, Entertainment, ...),
+ * which take article links in DOM order, skipping sidebars and navigation.
+ */
+function yahooStreamSpec(options: {
   url: string;
-  title: string;
-  excerpt: string;
-  category: string | null;
-  body: string;
+  linkSelector: string;
+  includeUrlPatterns: RegExp[];
+  excludeUrlPatterns: RegExp[];
+  extraExcludedTexts?: string[];
+  extraCategories?: string[];
+  extraSources?: string[];
+}): ListingSpec {
+  return {
+    url: options.url,
+    passes: [
+      {
+        linkSelectors: [options.linkSelector],
+        titleStrategies: [
+          { type: "linkText" },
+          { type: "closestText", closest: "article, li, div, h2, h3, h4", selector: YAHOO_STREAM_TITLE_SELECTOR },
+        ],
+        image: {
+          scope: { closest: "article, li, div" },
+          selector: "img",
+          attributes: ["src", "data-src", "data-lazy-src", "data-original"],
+        },
+      },
+    ],
+    includeUrlPatterns: options.includeUrlPatterns,
+    excludeUrlPatterns: [/\/$/, ...options.excludeUrlPatterns],
+    excludeContainerSelector: "aside, nav, .sidebar, [role='complementary'], [role='navigation'], header, footer",
+    skipFragmentLinks: true,
+    excludedTitleTexts: [
+      ...YAHOO_EXCLUDED_TITLE_TEXTS,
+      ...YAHOO_SKIP_TITLE_TEXTS,
+      ...(options.extraExcludedTexts ?? []),
+    ],
+    minTitleLength: 10,
+    titlePrefixes: {
+      categories: [...YAHOO_CATEGORY_PREFIXES, ...(options.extraCategories ?? [])],
+      sources: [...YAHOO_SOURCE_NAMES, ...(options.extraSources ?? [])],
+    },
+    render: { waitForSelector: options.linkSelector, scrollToBottom: true },
+  };
 }
 
+/**
+ * Listing specs for every Yahoo section we scrape
+ */
+export const YAHOO_LISTING_SPECS = {
+  us: yahooNewsSectionSpec("https://www.yahoo.com/news/us/", "us", ["watch now", "trending"]),
+  world: yahooNewsSectionSpec("https://www.yahoo.com/news/world/", "world"),
+  politics: yahooStreamSpec({
+    url: "https://www.yahoo.com/news/politics/",
+    linkSelector: 'a[href*="/news/articles/"]',
+    includeUrlPatterns: [/yahoo\.com\/news\/articles\//],
+    excludeUrlPatterns: [/\/news\/(world|us|politics|entertainment)\/?$/],
+  }),
+  // Yahoo Finance uses both finance.yahoo.com/news/ and yahoo.com/news/articles/ URLs
+  finance: yahooStreamSpec({
+    url: "https://finance.yahoo.com/",
+    linkSelector: 'a[href*="/news/"], a[href*="/article/"]',
+    includeUrlPatterns: [/yahoo\.com\/news\//, /yahoo\.com\/article\//],
+    excludeUrlPatterns: [/\/news\/(world|us|politics|entertainment|finance)\/?$/],
+    extraExcludedTexts: ["watch now", "most active", "top gainers", "top losers"],
+    extraCategories: ["finance"],
+    extraSources: ["yahoo finance", "yahoo personal finance"],
+  }),
+  entertainment: yahooStreamSpec({
+    url: "https://www.yahoo.com/entertainment/",
+    linkSelector: 'a[href*="/news/articles/"], a[href*="/entertainment/"]',
+    includeUrlPatterns: [/yahoo\.com\/news\/articles\//, /yahoo\.com\/entertainment\//],
+    excludeUrlPatterns: [/\/news\/(world|us|politics|entertainment|finance)\/?$/, /\/entertainment\/?$/],
+    extraExcludedTexts: ["watch now", "most active", "top gainers", "top losers"],
+    extraCategories: ["finance"],
+    extraSources: ["yahoo finance", "yahoo personal finance", "yahoo entertainment", "yahoo movies"],
+  }),
+  lifestyle: yahooStreamSpec({
+    url: "https://www.yahoo.com/lifestyle/",
+    linkSelector: 'a[href*="/news/articles/"], a[href*="/lifestyle/"]',
+    includeUrlPatterns: [/yahoo\.com\/news\/articles\//, /yahoo\.com\/lifestyle\//],
+    excludeUrlPatterns: [/\/news\/(world|us|politics|entertainment|finance|lifestyle)\/?$/, /\/lifestyle\/?$/],
+    extraExcludedTexts: ["watch now", "most active", "top gainers", "top losers"],
+    extraCategories: ["finance", "lifestyle"],
+    extraSources: ["yahoo finance", "yahoo personal finance", "yahoo entertainment", "yahoo movies", "yahoo lifestyle"],
+  }),
+  science: yahooStreamSpec({
+    url: "https://www.yahoo.com/news/science/",
+    linkSelector: 'a[href*="/news/articles/"], a[href*="/news/science/"]',
+    includeUrlPatterns: [/yahoo\.com\/news\/articles\//, /yahoo\.com\/news\/science\//],
+    excludeUrlPatterns: [/\/news\/(world|us|politics|entertainment|finance|lifestyle|science)\/?$/],
+    extraExcludedTexts: ["watch now", "most active", "top gainers", "top losers"],
+    extraCategories: ["finance", "lifestyle"],
+    extraSources: ["yahoo finance", "yahoo personal finance", "yahoo entertainment", "yahoo movies", "yahoo lifestyle"],
+  }),
+} satisfies Record<string, ListingSpec>;
+
+/**
+ * Detail spec for Yahoo article pages (News and Finance)
+ */
+export const YAHOO_DETAIL_SPEC: DetailSpec = {
+  titleSelectors: ["article h1, h1", ".caas-title, [data-module='Article'] h1"],
+  // Yahoo's JSON-LD headline is the canonical one, the h1 is only a fallback
+  jsonLd: { types: ["NewsArticle"], headline: "primary" },
+  excerptSelectors: ['div[data-article-body="true"] p'],
+  bodyContainerSelectors: [
+    'div[data-article-body="true"]',
+    "article .caas-body",
+    "article .article-body",
+    "article .content",
+    'article [data-module="ArticleBody"]',
+    "div.body", // Yahoo Finance uses div.body
+    'div[class*="body"]', // Any div with "body" in class name
+  ],
+  // Final fallback: paragraphs directly under article (Yahoo Finance and regular Yahoo News)
+  bodyParagraphSelectors: [
+    {
+      selector: "article p, main article p",
+      // Filter out very short paragraphs (likely navigation/metadata) and link/button text
+      minLength: 21,
+      excludePatterns: [
+        /^(Share|Follow|Subscribe|Sign up|Read more|View|Watch|Download|Get|Click)/i,
+        /^(Advertisement|Ad|Sponsored)/i,
+      ],
+    },
+  ],
+};
+
 /**
  * Scrapes Yahoo News US section (https://www.yahoo.com/news/us/)
  * and returns the latest article items.
@@ -23,111 +221,7 @@ export interface YahooArticleDetails {
 export async function scrapeYahooUSNews(
   limit = 4
 ): Promise<YahooUSArticleItem[]> {
-  const usNewsUrl = "https://www.yahoo.com/news/us/";
-
-  const response = await axios.get(usNewsUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-    "watch now",
-    "trending",
-  ];
-
-  // Yahoo News US page structure - focus on article containers
-  const selectors = [
-    'article a[href*="/news/articles/"]',
-    'article a[href*="/news/us/"]',
-    '[data-module="Article"] a[href*="/news/articles/"]',
-    '.caas-list-item a[href*="/news/articles/"]',
-    'a[href*="/news/articles/"]',
-  ];
-
-  for (const selector of selectors) {
-    if (items.length >= limit) break; // Stop when we've collected enough articles
-
-    $(selector).each((_, link) => {
-      if (items.length >= limit) return; // Stop when we've collected enough articles
-
-      const $link = $(link);
-      const rawHref = $link.attr("href");
-
-      if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-        return; // skip invalid hrefs
-      }
-
-      // Build absolute URL
-      let url: string;
-      try {
-        url = rawHref.startsWith("http")
-          ? rawHref
-          : new URL(rawHref, usNewsUrl).toString();
-      } catch {
-        return; // skip invalid URLs
-      }
-
-      // Only accept yahoo.com/news/articles/ URLs (actual articles)
-      // Exclude finance.yahoo.com, section pages, and other non-article URLs
-      if (!url.includes("yahoo.com/news/articles/")) {
-        return;
-      }
-
-      // Skip if we've already seen this URL
-      if (seenUrls.has(url)) {
-        return;
-      }
-
-      // Extract title from link text or nearby elements
-      let title = $link.text().trim();
-
-      // If title is empty or too short, try to find it in parent/child elements
-      if (!title || title.length < 10) {
-        const $parent = $link.closest("article, li, div");
-        const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .js-stream-content h3").first();
-        title = $titleEl.text().trim();
-      }
-
-      // Skip if no title found or title is too short
-      if (!title || title.length < 10) {
-        return;
-      }
-
-      // Skip navigation/section links by checking title text
-      const titleLower = title.toLowerCase();
-      if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-        return;
-      }
-
-      // Skip URLs that are section pages (not individual articles)
-      if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment)\/?$/)) {
-        return;
-      }
-
-      seenUrls.add(url);
-
-      // Find image - look in parent container
-      const $parent = $link.closest("article, li, div");
-      const $img = $parent.find("img").first();
-      const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || undefined;
-
-      items.push({ title, url, imageUrl });
-    });
-  }
-
-  return items.slice(0, limit);
+  return scrapeListing(YAHOO_LISTING_SPECS.us, limit);
 }
 
 /**
@@ -137,109 +231,7 @@ export async function scrapeYahooUSNews(
 export async function scrapeYahooWorldNews(
   limit = 4
 ): Promise<YahooUSArticleItem[]> {
-  const worldNewsUrl = "https://www.yahoo.com/news/world/";
-
-  const response = await axios.get(worldNewsUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-  ];
-
-  // Yahoo News World page structure - focus on article containers
-  const selectors = [
-    'article a[href*="/news/articles/"]',
-    'article a[href*="/news/world/"]',
-    '[data-module="Article"] a[href*="/news/articles/"]',
-    '.caas-list-item a[href*="/news/articles/"]',
-    'a[href*="/news/articles/"]',
-  ];
-
-  for (const selector of selectors) {
-    if (items.length >= limit) break; // Stop when we've collected enough articles
-
-    $(selector).each((_, link) => {
-      if (items.length >= limit) return; // Stop when we've collected enough articles
-
-      const $link = $(link);
-      const rawHref = $link.attr("href");
-
-      if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-        return; // skip invalid hrefs
-      }
-
-      // Build absolute URL
-      let url: string;
-      try {
-        url = rawHref.startsWith("http")
-          ? rawHref
-          : new URL(rawHref, worldNewsUrl).toString();
-      } catch {
-        return; // skip invalid URLs
-      }
-
-      // Only accept yahoo.com/news/articles/ URLs (actual articles)
-      // Exclude finance.yahoo.com, section pages, and other non-article URLs
-      if (!url.includes("yahoo.com/news/articles/")) {
-        return;
-      }
-
-      // Skip if we've already seen this URL
-      if (seenUrls.has(url)) {
-        return;
-      }
-
-      // Extract title from link text or nearby elements
-      let title = $link.text().trim();
-
-      // If title is empty or too short, try to find it in parent/child elements
-      if (!title || title.length < 10) {
-        const $parent = $link.closest("article, li, div");
-        const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .js-stream-content h3").first();
-        title = $titleEl.text().trim();
-      }
-
-      // Skip if no title found or title is too short
-      if (!title || title.length < 10) {
-        return;
-      }
-
-      // Skip navigation/section links by checking title text
-      const titleLower = title.toLowerCase();
-      if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-        return;
-      }
-
-      // Skip URLs that are section pages (not individual articles)
-      if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment)\/?$/)) {
-        return;
-      }
-
-      seenUrls.add(url);
-
-      // Find image - look in parent container
-      const $parent = $link.closest("article, li, div");
-      const $img = $parent.find("img").first();
-      const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || undefined;
-
-      items.push({ title, url, imageUrl });
-    });
-  }
-
-  return items;
+  return scrapeListing(YAHOO_LISTING_SPECS.world, limit);
 }
 
 /**
@@ -249,226 +241,7 @@ export async function scrapeYahooWorldNews(
 export async function scrapeYahooPoliticsNews(
   limit = 7
 ): Promise<YahooUSArticleItem[]> {
-  const politicsNewsUrl = "https://www.yahoo.com/news/politics/";
-
-  const response = await axios.get(politicsNewsUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-  ];
-
-  // Yahoo News Politics page structure - find all article links in DOM order
-  // Collect all valid article links first, then filter and take the first 7
-  const allArticleLinks: Array<{ url: string; title: string; imageUrl?: string; domIndex: number }> = [];
-  let domIndex = 0;
-
-  // Find all article links on the page (in DOM order)
-  $('a[href*="/news/articles/"]').each((_, link) => {
-    const $link = $(link);
-    const rawHref = $link.attr("href");
-
-    if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-      return; // skip invalid hrefs
-    }
-
-    // Build absolute URL
-    let url: string;
-    try {
-      url = rawHref.startsWith("http")
-        ? rawHref
-        : new URL(rawHref, politicsNewsUrl).toString();
-    } catch {
-      return; // skip invalid URLs
-    }
-
-    // Only accept yahoo.com/news/articles/ URLs (actual articles)
-    if (!url.includes("yahoo.com/news/articles/")) {
-      return;
-    }
-
-    // Skip if already seen
-    if (seenUrls.has(url)) {
-      return;
-    }
-
-    // Skip section pages
-    if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment)\/?$/)) {
-      return;
-    }
-
-    // Skip if in sidebar/navigation areas
-    const $closestContainer = $link.closest("aside, nav, .sidebar, [role='complementary'], [role='navigation'], header, footer");
-    if ($closestContainer.length > 0) {
-      return;
-    }
-
-    // Extract title from link text or nearby elements
-    let title = $link.text().trim();
-
-    // If title is empty or too short, try to find it in parent/child elements
-    if (!title || title.length < 10) {
-      const $parent = $link.closest("article, li, div, h2, h3, h4");
-      const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .caas-item-title, .js-stream-content h3").first();
-      if ($titleEl.length === 0) {
-        // Try parent's text if it's a heading
-        title = $parent.filter("h2, h3, h4, h5").text().trim();
-      } else {
-        title = $titleEl.text().trim();
-      }
-    }
-
-    // Clean title: remove source/category prefixes
-    // Common patterns: "PoliticsAssociated PressPolitical consultant...", "USThe Guardian'Living an American nightmare'..."
-    // The pattern is usually: Category + Source + Title (often concatenated without spaces)
-    
-    const categoryPrefixes = ["politics", "us", "world", "business", "technology", "entertainment", "sports", "health", "science"];
-    const sourceNames = [
-      "associated press", "ap", "reuters", "the guardian", "cbs news", "cnn", "nbc news", 
-      "abc news", "fox news", "the hill", "politico", "bloomberg", "the washington post",
-      "the new york times", "usa today", "time", "newsweek", "the atlantic", "axios", "bbc"
-    ];
-    
-    let cleanedTitle = title;
-    
-    // Strategy: Find where the actual title starts by looking for patterns
-    // Titles typically start with a capital letter followed by lowercase letters
-    
-    // First, try to match and remove category + source pattern
-    // Pattern: Category (lowercase) + Source (capitalized, possibly concatenated) + Title (capitalized)
-    for (const category of categoryPrefixes) {
-      for (const source of sourceNames) {
-        // Pattern 1: "PoliticsAssociated PressTitle" (category lowercase, source capitalized, title capitalized)
-        const pattern1 = new RegExp(`^${category}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z][a-z].+)`, "i");
-        const match1 = cleanedTitle.match(pattern1);
-        if (match1 && match1[1] && match1[1].length > 10) {
-          cleanedTitle = match1[1].trim();
-          break;
-        }
-        
-        // Pattern 2: "USThe Guardian'Title'" (category uppercase, source capitalized)
-        const pattern2 = new RegExp(`^${category.toUpperCase()}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z'"].+)`, "i");
-        const match2 = cleanedTitle.match(pattern2);
-        if (match2 && match2[1] && match2[1].length > 10) {
-          cleanedTitle = match2[1].trim();
-          // Remove leading quotes if present
-          cleanedTitle = cleanedTitle.replace(/^['"]+|['"]+$/g, "").trim();
-          break;
-        }
-      }
-      if (cleanedTitle !== title && cleanedTitle.length > 10) break;
-    }
-    
-    // If still not cleaned, try removing just category prefix
-    if (cleanedTitle === title) {
-      for (const category of categoryPrefixes) {
-        if (cleanedTitle.toLowerCase().startsWith(category.toLowerCase())) {
-          const afterCategory = cleanedTitle.substring(category.length).trim();
-          // Check if what follows looks like a source name
-          let foundSource = false;
-          for (const source of sourceNames) {
-            if (afterCategory.toLowerCase().startsWith(source.toLowerCase())) {
-              // Remove source too
-              const afterSource = afterCategory.substring(source.length).trim();
-              if (afterSource.length > 10 && /^[A-Z'"]/.test(afterSource)) {
-                cleanedTitle = afterSource.replace(/^['"]+|['"]+$/g, "").trim();
-                foundSource = true;
-                break;
-              }
-            }
-          }
-          if (!foundSource && afterCategory.length > 10 && /^[A-Z'"]/.test(afterCategory)) {
-            cleanedTitle = afterCategory.replace(/^['"]+|['"]+$/g, "").trim();
-          }
-          break;
-        }
-      }
-    }
-    
-    // Final fallback: if title still contains source patterns, try to extract just the title part
-    // Look for a sequence that looks like a real title (starts with capital, has multiple words)
-    if (cleanedTitle === title || cleanedTitle.length < 10) {
-      // Find the longest sequence that starts with a capital letter and has multiple words
-      const titleMatch = title.match(/([A-Z][A-Za-z'"]+(?:\s+[A-Za-z'"]+){2,})/);
-      if (titleMatch && titleMatch[1]) {
-        const potentialTitle = titleMatch[1].trim();
-        // Make sure it's not just a source name
-        const isSource = sourceNames.some(s => potentialTitle.toLowerCase().includes(s.toLowerCase()));
-        if (!isSource && potentialTitle.length > 15) {
-          cleanedTitle = potentialTitle;
-        }
-      }
-    }
-    
-    // Final check: if cleaned title is too short, use original
-    if (cleanedTitle.length < 10) {
-      cleanedTitle = title;
-    }
-    
-    title = cleanedTitle;
-
-    // Skip if no title found or title is too short
-    if (!title || title.length < 10) {
-      return;
-    }
-
-    // Skip navigation/section links by checking title text
-    const titleLower = title.toLowerCase();
-    if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-      return;
-    }
-
-    // Additional filtering: skip links that are clearly not main articles
-    // (e.g., "read more", "see all", etc.)
-    const skipPatterns = ["read more", "see all", "view all", "more stories", "trending", "popular"];
-    if (skipPatterns.some(pattern => titleLower.includes(pattern))) {
-      return;
-    }
-
-    seenUrls.add(url);
-
-    // Find image - look in parent container
-    const $parent = $link.closest("article, li, div");
-    const $img = $parent.find("img").first();
-    const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || $img.attr("data-original") || undefined;
-
-    // Store with DOM index to preserve order
-    allArticleLinks.push({ url, title, imageUrl, domIndex: domIndex++ });
-  });
-
-  // Remove duplicates by URL (keep first occurrence based on DOM order)
-  const uniqueArticles = new Map<string, typeof allArticleLinks[0]>();
-  for (const article of allArticleLinks) {
-    if (!uniqueArticles.has(article.url)) {
-      uniqueArticles.set(article.url, article);
-    }
-  }
-
-  // Take the first N articles (latest ones, as they appear first in DOM)
-  // Sort by DOM index to ensure correct order
-  const latestArticles = Array.from(uniqueArticles.values())
-    .sort((a, b) => a.domIndex - b.domIndex)
-    .slice(0, limit);
-
-  // Convert to expected format
-  for (const article of latestArticles) {
-    items.push({ title: article.title, url: article.url, imageUrl: article.imageUrl });
-  }
-
-  return items;
+  return scrapeListing(YAHOO_LISTING_SPECS.politics, limit);
 }
 
 /**
@@ -478,217 +251,7 @@ export async function scrapeYahooPoliticsNews(
 export async function scrapeYahooFinanceNews(
   limit = 4
 ): Promise<YahooUSArticleItem[]> {
-  const financeUrl = "https://finance.yahoo.com/";
-
-  const response = await axios.get(financeUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-    "watch now",
-    "trending",
-    "most active",
-    "top gainers",
-    "top losers",
-  ];
-
-  // Yahoo Finance page structure - find all article links in DOM order
-  // Collect all valid article links first, then filter and take the first 4
-  const allArticleLinks: Array<{ url: string; title: string; imageUrl?: string; domIndex: number }> = [];
-  let domIndex = 0;
-
-  // Find all article links on the page (in DOM order)
-  // Yahoo Finance uses both finance.yahoo.com/news/ and yahoo.com/news/articles/ URLs
-  $('a[href*="/news/"], a[href*="/article/"]').each((_, link) => {
-    const $link = $(link);
-    const rawHref = $link.attr("href");
-
-    if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-      return; // skip invalid hrefs
-    }
-
-    // Build absolute URL
-    let url: string;
-    try {
-      url = rawHref.startsWith("http")
-        ? rawHref
-        : new URL(rawHref, financeUrl).toString();
-    } catch {
-      return; // skip invalid URLs
-    }
-
-    // Accept both finance.yahoo.com/news/ and yahoo.com/news/articles/ URLs
-    if (!url.includes("yahoo.com/news/") && !url.includes("yahoo.com/article/")) {
-      return;
-    }
-
-    // Skip if already seen
-    if (seenUrls.has(url)) {
-      return;
-    }
-
-    // Skip section pages
-    if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment|finance)\/?$/)) {
-      return;
-    }
-
-    // Skip if in sidebar/navigation areas
-    const $closestContainer = $link.closest("aside, nav, .sidebar, [role='complementary'], [role='navigation'], header, footer");
-    if ($closestContainer.length > 0) {
-      return;
-    }
-
-    // Extract title from link text or nearby elements
-    let title = $link.text().trim();
-
-    // If title is empty or too short, try to find it in parent/child elements
-    if (!title || title.length < 10) {
-      const $parent = $link.closest("article, li, div, h2, h3, h4");
-      const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .caas-item-title, .js-stream-content h3").first();
-      if ($titleEl.length === 0) {
-        // Try parent's text if it's a heading
-        title = $parent.filter("h2, h3, h4, h5").text().trim();
-      } else {
-        title = $titleEl.text().trim();
-      }
-    }
-
-    // Clean title: remove source/category prefixes
-    const categoryPrefixes = ["politics", "us", "world", "business", "technology", "entertainment", "sports", "health", "science", "finance"];
-    const sourceNames = [
-      "associated press", "ap", "reuters", "the guardian", "cbs news", "cnn", "nbc news", 
-      "abc news", "fox news", "the hill", "politico", "bloomberg", "the washington post",
-      "the new york times", "usa today", "time", "newsweek", "the atlantic", "axios", "bbc",
-      "yahoo finance", "yahoo personal finance"
-    ];
-    
-    let cleanedTitle = title;
-    
-    // Strategy: Find where the actual title starts by looking for patterns
-    for (const category of categoryPrefixes) {
-      for (const source of sourceNames) {
-        const pattern1 = new RegExp(`^${category}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z][a-z].+)`, "i");
-        const match1 = cleanedTitle.match(pattern1);
-        if (match1 && match1[1] && match1[1].length > 10) {
-          cleanedTitle = match1[1].trim();
-          break;
-        }
-        
-        const pattern2 = new RegExp(`^${category.toUpperCase()}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z'"].+)`, "i");
-        const match2 = cleanedTitle.match(pattern2);
-        if (match2 && match2[1] && match2[1].length > 10) {
-          cleanedTitle = match2[1].trim();
-          cleanedTitle = cleanedTitle.replace(/^['"]+|['"]+$/g, "").trim();
-          break;
-        }
-      }
-      if (cleanedTitle !== title && cleanedTitle.length > 10) break;
-    }
-    
-    // If still not cleaned, try removing just category prefix
-    if (cleanedTitle === title) {
-      for (const category of categoryPrefixes) {
-        if (cleanedTitle.toLowerCase().startsWith(category.toLowerCase())) {
-          const afterCategory = cleanedTitle.substring(category.length).trim();
-          let foundSource = false;
-          for (const source of sourceNames) {
-            if (afterCategory.toLowerCase().startsWith(source.toLowerCase())) {
-              const afterSource = afterCategory.substring(source.length).trim();
-              if (afterSource.length > 10 && /^[A-Z'"]/.test(afterSource)) {
-                cleanedTitle = afterSource.replace(/^['"]+|['"]+$/g, "").trim();
-                foundSource = true;
-                break;
-              }
-            }
-          }
-          if (!foundSource && afterCategory.length > 10 && /^[A-Z'"]/.test(afterCategory)) {
-            cleanedTitle = afterCategory.replace(/^['"]+|['"]+$/g, "").trim();
-          }
-          break;
-        }
-      }
-    }
-    
-    // Final fallback: if title still contains source patterns, try to extract just the title part
-    if (cleanedTitle === title || cleanedTitle.length < 10) {
-      const titleMatch = title.match(/([A-Z][A-Za-z'"]+(?:\s+[A-Za-z'"]+){2,})/);
-      if (titleMatch && titleMatch[1]) {
-        const potentialTitle = titleMatch[1].trim();
-        const isSource = sourceNames.some(s => potentialTitle.toLowerCase().includes(s.toLowerCase()));
-        if (!isSource && potentialTitle.length > 15) {
-          cleanedTitle = potentialTitle;
-        }
-      }
-    }
-    
-    // Final check: if cleaned title is too short, use original
-    if (cleanedTitle.length < 10) {
-      cleanedTitle = title;
-    }
-    
-    title = cleanedTitle;
-
-    // Skip if no title found or title is too short
-    if (!title || title.length < 10) {
-      return;
-    }
-
-    // Skip navigation/section links by checking title text
-    const titleLower = title.toLowerCase();
-    if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-      return;
-    }
-
-    // Additional filtering: skip links that are clearly not main articles
-    const skipPatterns = ["read more", "see all", "view all", "more stories", "trending", "popular", "watch now"];
-    if (skipPatterns.some(pattern => titleLower.includes(pattern))) {
-      return;
-    }
-
-    seenUrls.add(url);
-
-    // Find image - look in parent container
-    const $parent = $link.closest("article, li, div");
-    const $img = $parent.find("img").first();
-    const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || $img.attr("data-original") || undefined;
-
-    // Store with DOM index to preserve order
-    allArticleLinks.push({ url, title, imageUrl, domIndex: domIndex++ });
-  });
-
-  // Remove duplicates by URL (keep first occurrence based on DOM order)
-  const uniqueArticles = new Map<string, typeof allArticleLinks[0]>();
-  for (const article of allArticleLinks) {
-    if (!uniqueArticles.has(article.url)) {
-      uniqueArticles.set(article.url, article);
-    }
-  }
-
-  // Take the first N articles (latest ones, as they appear first in DOM)
-  // Sort by DOM index to ensure correct order
-  const latestArticles = Array.from(uniqueArticles.values())
-    .sort((a, b) => a.domIndex - b.domIndex)
-    .slice(0, limit);
-
-  // Convert to expected format
-  for (const article of latestArticles) {
-    items.push({ title: article.title, url: article.url, imageUrl: article.imageUrl });
-  }
-
-  return items;
+  return scrapeListing(YAHOO_LISTING_SPECS.finance, limit);
 }
 
 /**
@@ -698,216 +261,7 @@ export async function scrapeYahooFinanceNews(
 export async function scrapeYahooEntertainmentNews(
   limit = 5
 ): Promise<YahooUSArticleItem[]> {
-  const entertainmentUrl = "https://www.yahoo.com/entertainment/";
-
-  const response = await axios.get(entertainmentUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-    "watch now",
-    "trending",
-    "most active",
-    "top gainers",
-    "top losers",
-  ];
-
-  // Yahoo Entertainment page structure - find all article links in DOM order
-  // Collect all valid article links first, then filter and take the first 5
-  const allArticleLinks: Array<{ url: string; title: string; imageUrl?: string; domIndex: number }> = [];
-  let domIndex = 0;
-
-  // Find all article links on the page (in DOM order)
-  $('a[href*="/news/articles/"], a[href*="/entertainment/"]').each((_, link) => {
-    const $link = $(link);
-    const rawHref = $link.attr("href");
-
-    if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-      return; // skip invalid hrefs
-    }
-
-    // Build absolute URL
-    let url: string;
-    try {
-      url = rawHref.startsWith("http")
-        ? rawHref
-        : new URL(rawHref, entertainmentUrl).toString();
-    } catch {
-      return; // skip invalid URLs
-    }
-
-    // Accept yahoo.com/news/articles/ and yahoo.com/entertainment/ URLs
-    if (!url.includes("yahoo.com/news/articles/") && !url.includes("yahoo.com/entertainment/")) {
-      return;
-    }
-
-    // Skip if already seen
-    if (seenUrls.has(url)) {
-      return;
-    }
-
-    // Skip section pages
-    if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment|finance)\/?$/) || url.match(/\/entertainment\/?$/)) {
-      return;
-    }
-
-    // Skip if in sidebar/navigation areas
-    const $closestContainer = $link.closest("aside, nav, .sidebar, [role='complementary'], [role='navigation'], header, footer");
-    if ($closestContainer.length > 0) {
-      return;
-    }
-
-    // Extract title from link text or nearby elements
-    let title = $link.text().trim();
-
-    // If title is empty or too short, try to find it in parent/child elements
-    if (!title || title.length < 10) {
-      const $parent = $link.closest("article, li, div, h2, h3, h4");
-      const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .caas-item-title, .js-stream-content h3").first();
-      if ($titleEl.length === 0) {
-        // Try parent's text if it's a heading
-        title = $parent.filter("h2, h3, h4, h5").text().trim();
-      } else {
-        title = $titleEl.text().trim();
-      }
-    }
-
-    // Clean title: remove source/category prefixes
-    const categoryPrefixes = ["politics", "us", "world", "business", "technology", "entertainment", "sports", "health", "science", "finance"];
-    const sourceNames = [
-      "associated press", "ap", "reuters", "the guardian", "cbs news", "cnn", "nbc news", 
-      "abc news", "fox news", "the hill", "politico", "bloomberg", "the washington post",
-      "the new york times", "usa today", "time", "newsweek", "the atlantic", "axios", "bbc",
-      "yahoo finance", "yahoo personal finance", "yahoo entertainment", "yahoo movies"
-    ];
-    
-    let cleanedTitle = title;
-    
-    // Strategy: Find where the actual title starts by looking for patterns
-    for (const category of categoryPrefixes) {
-      for (const source of sourceNames) {
-        const pattern1 = new RegExp(`^${category}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z][a-z].+)`, "i");
-        const match1 = cleanedTitle.match(pattern1);
-        if (match1 && match1[1] && match1[1].length > 10) {
-          cleanedTitle = match1[1].trim();
-          break;
-        }
-        
-        const pattern2 = new RegExp(`^${category.toUpperCase()}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z'"].+)`, "i");
-        const match2 = cleanedTitle.match(pattern2);
-        if (match2 && match2[1] && match2[1].length > 10) {
-          cleanedTitle = match2[1].trim();
-          cleanedTitle = cleanedTitle.replace(/^['"]+|['"]+$/g, "").trim();
-          break;
-        }
-      }
-      if (cleanedTitle !== title && cleanedTitle.length > 10) break;
-    }
-    
-    // If still not cleaned, try removing just category prefix
-    if (cleanedTitle === title) {
-      for (const category of categoryPrefixes) {
-        if (cleanedTitle.toLowerCase().startsWith(category.toLowerCase())) {
-          const afterCategory = cleanedTitle.substring(category.length).trim();
-          let foundSource = false;
-          for (const source of sourceNames) {
-            if (afterCategory.toLowerCase().startsWith(source.toLowerCase())) {
-              const afterSource = afterCategory.substring(source.length).trim();
-              if (afterSource.length > 10 && /^[A-Z'"]/.test(afterSource)) {
-                cleanedTitle = afterSource.replace(/^['"]+|['"]+$/g, "").trim();
-                foundSource = true;
-                break;
-              }
-            }
-          }
-          if (!foundSource && afterCategory.length > 10 && /^[A-Z'"]/.test(afterCategory)) {
-            cleanedTitle = afterCategory.replace(/^['"]+|['"]+$/g, "").trim();
-          }
-          break;
-        }
-      }
-    }
-    
-    // Final fallback: if title still contains source patterns, try to extract just the title part
-    if (cleanedTitle === title || cleanedTitle.length < 10) {
-      const titleMatch = title.match(/([A-Z][A-Za-z'"]+(?:\s+[A-Za-z'"]+){2,})/);
-      if (titleMatch && titleMatch[1]) {
-        const potentialTitle = titleMatch[1].trim();
-        const isSource = sourceNames.some(s => potentialTitle.toLowerCase().includes(s.toLowerCase()));
-        if (!isSource && potentialTitle.length > 15) {
-          cleanedTitle = potentialTitle;
-        }
-      }
-    }
-    
-    // Final check: if cleaned title is too short, use original
-    if (cleanedTitle.length < 10) {
-      cleanedTitle = title;
-    }
-    
-    title = cleanedTitle;
-
-    // Skip if no title found or title is too short
-    if (!title || title.length < 10) {
-      return;
-    }
-
-    // Skip navigation/section links by checking title text
-    const titleLower = title.toLowerCase();
-    if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-      return;
-    }
-
-    // Additional filtering: skip links that are clearly not main articles
-    const skipPatterns = ["read more", "see all", "view all", "more stories", "trending", "popular", "watch now"];
-    if (skipPatterns.some(pattern => titleLower.includes(pattern))) {
-      return;
-    }
-
-    seenUrls.add(url);
-
-    // Find image - look in parent container
-    const $parent = $link.closest("article, li, div");
-    const $img = $parent.find("img").first();
-    const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || $img.attr("data-original") || undefined;
-
-    // Store with DOM index to preserve order
-    allArticleLinks.push({ url, title, imageUrl, domIndex: domIndex++ });
-  });
-
-  // Remove duplicates by URL (keep first occurrence based on DOM order)
-  const uniqueArticles = new Map<string, typeof allArticleLinks[0]>();
-  for (const article of allArticleLinks) {
-    if (!uniqueArticles.has(article.url)) {
-      uniqueArticles.set(article.url, article);
-    }
-  }
-
-  // Take the first N articles (latest ones, as they appear first in DOM)
-  // Sort by DOM index to ensure correct order
-  const latestArticles = Array.from(uniqueArticles.values())
-    .sort((a, b) => a.domIndex - b.domIndex)
-    .slice(0, limit);
-
-  // Convert to expected format
-  for (const article of latestArticles) {
-    items.push({ title: article.title, url: article.url, imageUrl: article.imageUrl });
-  }
-
-  return items;
+  return scrapeListing(YAHOO_LISTING_SPECS.entertainment, limit);
 }
 
 /**
@@ -917,216 +271,7 @@ export async function scrapeYahooEntertainmentNews(
 export async function scrapeYahooLifestyleNews(
   limit = 5
 ): Promise<YahooUSArticleItem[]> {
-  const lifestyleUrl = "https://www.yahoo.com/lifestyle/";
-
-  const response = await axios.get(lifestyleUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-    "watch now",
-    "trending",
-    "most active",
-    "top gainers",
-    "top losers",
-  ];
-
-  // Yahoo Lifestyle page structure - find all article links in DOM order
-  // Collect all valid article links first, then filter and take the first 5
-  const allArticleLinks: Array<{ url: string; title: string; imageUrl?: string; domIndex: number }> = [];
-  let domIndex = 0;
-
-  // Find all article links on the page (in DOM order)
-  $('a[href*="/news/articles/"], a[href*="/lifestyle/"]').each((_, link) => {
-    const $link = $(link);
-    const rawHref = $link.attr("href");
-
-    if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-      return; // skip invalid hrefs
-    }
-
-    // Build absolute URL
-    let url: string;
-    try {
-      url = rawHref.startsWith("http")
-        ? rawHref
-        : new URL(rawHref, lifestyleUrl).toString();
-    } catch {
-      return; // skip invalid URLs
-    }
-
-    // Accept yahoo.com/news/articles/ and yahoo.com/lifestyle/ URLs
-    if (!url.includes("yahoo.com/news/articles/") && !url.includes("yahoo.com/lifestyle/")) {
-      return;
-    }
-
-    // Skip if already seen
-    if (seenUrls.has(url)) {
-      return;
-    }
-
-    // Skip section pages
-    if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment|finance|lifestyle)\/?$/) || url.match(/\/lifestyle\/?$/)) {
-      return;
-    }
-
-    // Skip if in sidebar/navigation areas
-    const $closestContainer = $link.closest("aside, nav, .sidebar, [role='complementary'], [role='navigation'], header, footer");
-    if ($closestContainer.length > 0) {
-      return;
-    }
-
-    // Extract title from link text or nearby elements
-    let title = $link.text().trim();
-
-    // If title is empty or too short, try to find it in parent/child elements
-    if (!title || title.length < 10) {
-      const $parent = $link.closest("article, li, div, h2, h3, h4");
-      const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .caas-item-title, .js-stream-content h3").first();
-      if ($titleEl.length === 0) {
-        // Try parent's text if it's a heading
-        title = $parent.filter("h2, h3, h4, h5").text().trim();
-      } else {
-        title = $titleEl.text().trim();
-      }
-    }
-
-    // Clean title: remove source/category prefixes
-    const categoryPrefixes = ["politics", "us", "world", "business", "technology", "entertainment", "sports", "health", "science", "finance", "lifestyle"];
-    const sourceNames = [
-      "associated press", "ap", "reuters", "the guardian", "cbs news", "cnn", "nbc news", 
-      "abc news", "fox news", "the hill", "politico", "bloomberg", "the washington post",
-      "the new york times", "usa today", "time", "newsweek", "the atlantic", "axios", "bbc",
-      "yahoo finance", "yahoo personal finance", "yahoo entertainment", "yahoo movies", "yahoo lifestyle"
-    ];
-    
-    let cleanedTitle = title;
-    
-    // Strategy: Find where the actual title starts by looking for patterns
-    for (const category of categoryPrefixes) {
-      for (const source of sourceNames) {
-        const pattern1 = new RegExp(`^${category}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z][a-z].+)`, "i");
-        const match1 = cleanedTitle.match(pattern1);
-        if (match1 && match1[1] && match1[1].length > 10) {
-          cleanedTitle = match1[1].trim();
-          break;
-        }
-        
-        const pattern2 = new RegExp(`^${category.toUpperCase()}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z'"].+)`, "i");
-        const match2 = cleanedTitle.match(pattern2);
-        if (match2 && match2[1] && match2[1].length > 10) {
-          cleanedTitle = match2[1].trim();
-          cleanedTitle = cleanedTitle.replace(/^['"]+|['"]+$/g, "").trim();
-          break;
-        }
-      }
-      if (cleanedTitle !== title && cleanedTitle.length > 10) break;
-    }
-    
-    // If still not cleaned, try removing just category prefix
-    if (cleanedTitle === title) {
-      for (const category of categoryPrefixes) {
-        if (cleanedTitle.toLowerCase().startsWith(category.toLowerCase())) {
-          const afterCategory = cleanedTitle.substring(category.length).trim();
-          let foundSource = false;
-          for (const source of sourceNames) {
-            if (afterCategory.toLowerCase().startsWith(source.toLowerCase())) {
-              const afterSource = afterCategory.substring(source.length).trim();
-              if (afterSource.length > 10 && /^[A-Z'"]/.test(afterSource)) {
-                cleanedTitle = afterSource.replace(/^['"]+|['"]+$/g, "").trim();
-                foundSource = true;
-                break;
-              }
-            }
-          }
-          if (!foundSource && afterCategory.length > 10 && /^[A-Z'"]/.test(afterCategory)) {
-            cleanedTitle = afterCategory.replace(/^['"]+|['"]+$/g, "").trim();
-          }
-          break;
-        }
-      }
-    }
-    
-    // Final fallback: if title still contains source patterns, try to extract just the title part
-    if (cleanedTitle === title || cleanedTitle.length < 10) {
-      const titleMatch = title.match(/([A-Z][A-Za-z'"]+(?:\s+[A-Za-z'"]+){2,})/);
-      if (titleMatch && titleMatch[1]) {
-        const potentialTitle = titleMatch[1].trim();
-        const isSource = sourceNames.some(s => potentialTitle.toLowerCase().includes(s.toLowerCase()));
-        if (!isSource && potentialTitle.length > 15) {
-          cleanedTitle = potentialTitle;
-        }
-      }
-    }
-    
-    // Final check: if cleaned title is too short, use original
-    if (cleanedTitle.length < 10) {
-      cleanedTitle = title;
-    }
-    
-    title = cleanedTitle;
-
-    // Skip if no title found or title is too short
-    if (!title || title.length < 10) {
-      return;
-    }
-
-    // Skip navigation/section links by checking title text
-    const titleLower = title.toLowerCase();
-    if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-      return;
-    }
-
-    // Additional filtering: skip links that are clearly not main articles
-    const skipPatterns = ["read more", "see all", "view all", "more stories", "trending", "popular", "watch now"];
-    if (skipPatterns.some(pattern => titleLower.includes(pattern))) {
-      return;
-    }
-
-    seenUrls.add(url);
-
-    // Find image - look in parent container
-    const $parent = $link.closest("article, li, div");
-    const $img = $parent.find("img").first();
-    const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || $img.attr("data-original") || undefined;
-
-    // Store with DOM index to preserve order
-    allArticleLinks.push({ url, title, imageUrl, domIndex: domIndex++ });
-  });
-
-  // Remove duplicates by URL (keep first occurrence based on DOM order)
-  const uniqueArticles = new Map<string, typeof allArticleLinks[0]>();
-  for (const article of allArticleLinks) {
-    if (!uniqueArticles.has(article.url)) {
-      uniqueArticles.set(article.url, article);
-    }
-  }
-
-  // Take the first N articles (latest ones, as they appear first in DOM)
-  // Sort by DOM index to ensure correct order
-  const latestArticles = Array.from(uniqueArticles.values())
-    .sort((a, b) => a.domIndex - b.domIndex)
-    .slice(0, limit);
-
-  // Convert to expected format
-  for (const article of latestArticles) {
-    items.push({ title: article.title, url: article.url, imageUrl: article.imageUrl });
-  }
-
-  return items;
+  return scrapeListing(YAHOO_LISTING_SPECS.lifestyle, limit);
 }
 
 /**
@@ -1136,216 +281,7 @@ export async function scrapeYahooLifestyleNews(
 export async function scrapeYahooScienceNews(
   limit = 5
 ): Promise<YahooUSArticleItem[]> {
-  const scienceUrl = "https://www.yahoo.com/news/science/";
-
-  const response = await axios.get(scienceUrl);
-  const $ = cheerio.load(response.data);
-
-  const items: YahooUSArticleItem[] = [];
-  const seenUrls = new Set<string>();
-
-  // Common navigation/section text to exclude
-  const excludedTexts = [
-    "today's news",
-    "newsletters",
-    "weather news",
-    "sign up",
-    "more in",
-    "follow us",
-    "subscribe",
-    "newsletter",
-    "tariff updates",
-    "live updates",
-    "watch now",
-    "trending",
-    "most active",
-    "top gainers",
-    "top losers",
-  ];
-
-  // Yahoo News Science page structure - find all article links in DOM order
-  // Collect all valid article links first, then filter and take the first 5
-  const allArticleLinks: Array<{ url: string; title: string; imageUrl?: string; domIndex: number }> = [];
-  let domIndex = 0;
-
-  // Find all article links on the page (in DOM order)
-  $('a[href*="/news/articles/"], a[href*="/news/science/"]').each((_, link) => {
-    const $link = $(link);
-    const rawHref = $link.attr("href");
-
-    if (!rawHref || rawHref.includes("#") || rawHref.includes("javascript:")) {
-      return; // skip invalid hrefs
-    }
-
-    // Build absolute URL
-    let url: string;
-    try {
-      url = rawHref.startsWith("http")
-        ? rawHref
-        : new URL(rawHref, scienceUrl).toString();
-    } catch {
-      return; // skip invalid URLs
-    }
-
-    // Accept yahoo.com/news/articles/ and yahoo.com/news/science/ URLs
-    if (!url.includes("yahoo.com/news/articles/") && !url.includes("yahoo.com/news/science/")) {
-      return;
-    }
-
-    // Skip if already seen
-    if (seenUrls.has(url)) {
-      return;
-    }
-
-    // Skip section pages
-    if (url.endsWith("/") || url.match(/\/news\/(world|us|politics|entertainment|finance|lifestyle|science)\/?$/)) {
-      return;
-    }
-
-    // Skip if in sidebar/navigation areas
-    const $closestContainer = $link.closest("aside, nav, .sidebar, [role='complementary'], [role='navigation'], header, footer");
-    if ($closestContainer.length > 0) {
-      return;
-    }
-
-    // Extract title from link text or nearby elements
-    let title = $link.text().trim();
-
-    // If title is empty or too short, try to find it in parent/child elements
-    if (!title || title.length < 10) {
-      const $parent = $link.closest("article, li, div, h2, h3, h4");
-      const $titleEl = $parent.find("h2, h3, h4, h5, .caas-title, [data-module='Article'] h2, .caas-item-title, .js-stream-content h3").first();
-      if ($titleEl.length === 0) {
-        // Try parent's text if it's a heading
-        title = $parent.filter("h2, h3, h4, h5").text().trim();
-      } else {
-        title = $titleEl.text().trim();
-      }
-    }
-
-    // Clean title: remove source/category prefixes
-    const categoryPrefixes = ["politics", "us", "world", "business", "technology", "entertainment", "sports", "health", "science", "finance", "lifestyle"];
-    const sourceNames = [
-      "associated press", "ap", "reuters", "the guardian", "cbs news", "cnn", "nbc news", 
-      "abc news", "fox news", "the hill", "politico", "bloomberg", "the washington post",
-      "the new york times", "usa today", "time", "newsweek", "the atlantic", "axios", "bbc",
-      "yahoo finance", "yahoo personal finance", "yahoo entertainment", "yahoo movies", "yahoo lifestyle"
-    ];
-    
-    let cleanedTitle = title;
-    
-    // Strategy: Find where the actual title starts by looking for patterns
-    for (const category of categoryPrefixes) {
-      for (const source of sourceNames) {
-        const pattern1 = new RegExp(`^${category}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z][a-z].+)`, "i");
-        const match1 = cleanedTitle.match(pattern1);
-        if (match1 && match1[1] && match1[1].length > 10) {
-          cleanedTitle = match1[1].trim();
-          break;
-        }
-        
-        const pattern2 = new RegExp(`^${category.toUpperCase()}(?:\\s*)?${source.replace(/\s+/g, "\\s*")}([A-Z'"].+)`, "i");
-        const match2 = cleanedTitle.match(pattern2);
-        if (match2 && match2[1] && match2[1].length > 10) {
-          cleanedTitle = match2[1].trim();
-          cleanedTitle = cleanedTitle.replace(/^['"]+|['"]+$/g, "").trim();
-          break;
-        }
-      }
-      if (cleanedTitle !== title && cleanedTitle.length > 10) break;
-    }
-    
-    // If still not cleaned, try removing just category prefix
-    if (cleanedTitle === title) {
-      for (const category of categoryPrefixes) {
-        if (cleanedTitle.toLowerCase().startsWith(category.toLowerCase())) {
-          const afterCategory = cleanedTitle.substring(category.length).trim();
-          let foundSource = false;
-          for (const source of sourceNames) {
-            if (afterCategory.toLowerCase().startsWith(source.toLowerCase())) {
-              const afterSource = afterCategory.substring(source.length).trim();
-              if (afterSource.length > 10 && /^[A-Z'"]/.test(afterSource)) {
-                cleanedTitle = afterSource.replace(/^['"]+|['"]+$/g, "").trim();
-                foundSource = true;
-                break;
-              }
-            }
-          }
-          if (!foundSource && afterCategory.length > 10 && /^[A-Z'"]/.test(afterCategory)) {
-            cleanedTitle = afterCategory.replace(/^['"]+|['"]+$/g, "").trim();
-          }
-          break;
-        }
-      }
-    }
-    
-    // Final fallback: if title still contains source patterns, try to extract just the title part
-    if (cleanedTitle === title || cleanedTitle.length < 10) {
-      const titleMatch = title.match(/([A-Z][A-Za-z'"]+(?:\s+[A-Za-z'"]+){2,})/);
-      if (titleMatch && titleMatch[1]) {
-        const potentialTitle = titleMatch[1].trim();
-        const isSource = sourceNames.some(s => potentialTitle.toLowerCase().includes(s.toLowerCase()));
-        if (!isSource && potentialTitle.length > 15) {
-          cleanedTitle = potentialTitle;
-        }
-      }
-    }
-    
-    // Final check: if cleaned title is too short, use original
-    if (cleanedTitle.length < 10) {
-      cleanedTitle = title;
-    }
-    
-    title = cleanedTitle;
-
-    // Skip if no title found or title is too short
-    if (!title || title.length < 10) {
-      return;
-    }
-
-    // Skip navigation/section links by checking title text
-    const titleLower = title.toLowerCase();
-    if (excludedTexts.some(excluded => titleLower.includes(excluded))) {
-      return;
-    }
-
-    // Additional filtering: skip links that are clearly not main articles
-    const skipPatterns = ["read more", "see all", "view all", "more stories", "trending", "popular", "watch now"];
-    if (skipPatterns.some(pattern => titleLower.includes(pattern))) {
-      return;
-    }
-
-    seenUrls.add(url);
-
-    // Find image - look in parent container
-    const $parent = $link.closest("article, li, div");
-    const $img = $parent.find("img").first();
-    const imageUrl = $img.attr("src") || $img.attr("data-src") || $img.attr("data-lazy-src") || $img.attr("data-original") || undefined;
-
-    // Store with DOM index to preserve order
-    allArticleLinks.push({ url, title, imageUrl, domIndex: domIndex++ });
-  });
-
-  // Remove duplicates by URL (keep first occurrence based on DOM order)
-  const uniqueArticles = new Map<string, typeof allArticleLinks[0]>();
-  for (const article of allArticleLinks) {
-    if (!uniqueArticles.has(article.url)) {
-      uniqueArticles.set(article.url, article);
-    }
-  }
-
-  // Take the first N articles (latest ones, as they appear first in DOM)
-  // Sort by DOM index to ensure correct order
-  const latestArticles = Array.from(uniqueArticles.values())
-    .sort((a, b) => a.domIndex - b.domIndex)
-    .slice(0, limit);
-
-  // Convert to expected format
-  for (const article of latestArticles) {
-    items.push({ title: article.title, url: article.url, imageUrl: article.imageUrl });
-  }
-
-  return items;
+  return scrapeListing(YAHOO_LISTING_SPECS.science, limit);
 }
 
 /**
@@ -1353,152 +289,32 @@ export async function scrapeYahooScienceNews(
  * - category/section (best-effort, may be null)
  * - title
  * - excerpt/description
- * - body: from "It's no secret..." through
- *   "...could also help offset the demand for oil and gas."
+ * - body text
  */
 export async function scrapeYahooArticleDetails(
   articleUrl: string
 ): Promise<YahooArticleDetails> {
-  const response = await axios.get(articleUrl);
-  const $ = cheerio.load(response.data);
-
-  // 1) Try to parse JSON-LD NewsArticle block for title, description, category
-  let title: string | null = null;
-  let excerpt: string | null = null;
-  let category: string | null = null;
-
-  const ldJsonRaw = $('script[type="application/ld+json"]').first().html();
-  if (ldJsonRaw) {
-    try {
-      const parsed = JSON.parse(ldJsonRaw);
-
-      // If it's an array, find the NewsArticle object; if not, treat as object
-      const articleNode = Array.isArray(parsed)
-        ? parsed.find((node) => node["@type"] === "NewsArticle") ?? parsed[0]
-        : parsed;
-
-      if (articleNode && typeof articleNode === "object") {
-        title = (articleNode as any).headline ?? null;
-        excerpt = (articleNode as any).description ?? null;
-        // Some sites put section/category here; Yahoo may not
-        category =
-          (articleNode as any).articleSection ??
-          (articleNode as any).section ??
-          null;
-      }
-    } catch (err) {
-      logger.warn("Failed to parse JSON-LD for article", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
-  }
-
-  // 2) Get title from h1 first (most reliable, matches what users see)
-  if (!title) {
-    const h1Text = $("article h1, h1").first().text().trim();
-    if (h1Text) {
-      title = h1Text;
-    }
-  }
-
-  // Additional fallback: try Yahoo-specific selectors
-  if (!title) {
-    const yahooTitle = $(".caas-title, [data-module='Article'] h1").first().text().trim();
-    if (yahooTitle) {
-      title = yahooTitle;
-    }
-  }
-
-  if (!title) {
-    throw new Error("Could not determine article title");
-  }
-
-  // 3) Fallback for excerpt: use first paragraph inside article body
-  const articleBodyContainer = $('div[data-article-body="true"]').first();
-
-  if (!excerpt && articleBodyContainer.length) {
-    const firstP = articleBodyContainer.find("p").first().text().trim();
-    if (firstP) {
-      excerpt = firstP;
-    }
-  }
-
-  if (!excerpt) {
-    excerpt = ""; // we keep it non-null for typing
-  }
-
-  // 4) Extract body paragraphs - get all paragraphs from article body
-  let bodyParagraphs: string[] = [];
-
-  if (articleBodyContainer.length) {
-    bodyParagraphs = articleBodyContainer
-      .find("p")
-      .map((_, p) => $(p).text().trim())
-      .get()
-      .filter(Boolean);
-  }
+  return scrapeArticleDetails(YAHOO_DETAIL_SPEC, articleUrl);
+}
 
-  // Fallback: try to find body in other common containers
-  if (bodyParagraphs.length === 0) {
-    const fallbackContainers = [
-      'article .caas-body',
-      'article .article-body',
-      'article .content',
-      'article [data-module="ArticleBody"]',
-      'div.body', // Yahoo Finance uses div.body
-      'div[class*="body"]', // Any div with "body" in class name
-    ];
+// Where Yahoo credits the outlet it syndicated the story from
+const YAHOO_PROVIDER_SELECTORS = [".caas-attr-provider", "[data-testid='provider-name']", ".caas-logo img[alt]"];
 
-    for (const selector of fallbackContainers) {
-      const $container = $(selector).first();
-      if ($container.length) {
-        bodyParagraphs = $container
-          .find("p")
-          .map((_, p) => $(p).text().trim())
-          .get()
-          .filter(Boolean);
-        
-        if (bodyParagraphs.length > 0) {
-          break;
-        }
-      }
-    }
-  }
+/**
+ * Extracts Yahoo article details from an already loaded article page
+ */
+export function extractYahooArticleDetails(
+  $: cheerio.Root,
+  articleUrl: string
+): YahooArticleDetails {
+  const details = extractArticleDetails($, YAHOO_DETAIL_SPEC, articleUrl);
 
-  // Final fallback: get paragraphs directly from article or main article
-  // This works for Yahoo Finance articles where paragraphs are directly under article
-  // Also works for regular Yahoo News articles
-  if (bodyParagraphs.length === 0) {
-    // Try article p first (most common for Yahoo Finance)
-    const $articlePs = $('article p, main article p');
-    if ($articlePs.length > 0) {
-      bodyParagraphs = $articlePs
-        .map((_, p) => {
-          const text = $(p).text().trim();
-          return text;
-        })
-        .get()
-        .filter((text) => {
-          // Filter out very short paragraphs (likely navigation/metadata)
-          // Filter out paragraphs that are just links or buttons
-          return text.length > 20 && 
-                 !text.match(/^(Share|Follow|Subscribe|Sign up|Read more|View|Watch|Download|Get|Click)/i) &&
-                 !text.match(/^(Advertisement|Ad|Sponsored)/i);
-        });
+  for (const selector of YAHOO_PROVIDER_SELECTORS) {
+    const $provider = $(selector).first();
+    const provider = ($provider.is("img") ? $provider.attr("alt") : $provider.text())?.trim();
+    if (provider) {
+      return { ...details, publisher: provider };
     }
   }
-
-  const body = bodyParagraphs.join("\n\n");
-
-  return {
-    url: articleUrl,
-    title,
-    excerpt,
-    category,
-    body,
-  };
+  return details;
 }
-
-
-
-